@@ -0,0 +1,76 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { AuditLog } from './AuditLog.js';
+
+const PRIVATE_KEY =
+  '0x4c0883a69102937d6231471b5dbb6204fe5129617082792ae468d01a3f362318';
+const TX_HASH =
+  '0x9fc76417374aa880d4449a1f7f31ec597f00b1f6f3dd2d66f4c9c6c445836d8b';
+
+describe('AuditLog', () => {
+  let directory: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'safe-audit-'));
+    filePath = path.join(directory, 'audit.jsonl');
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('does not write secrets from arguments or error results', async () => {
+    const log = await AuditLog.open(filePath);
+    await log.record({
+      tool: 'safe_propose_transaction',
+      args: { safeAddress: '0x1', privateKey: PRIVATE_KEY },
+      result: {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              error: {
+                code: 'SIGNER_ERROR',
+                message: `invalid private key ${PRIVATE_KEY}`,
+              },
+            }),
+          },
+        ],
+        isError: true,
+      },
+      durationMs: 5,
+    });
+    await log.close();
+
+    const content = await fs.readFile(filePath, 'utf-8');
+    expect(content).not.toContain(PRIVATE_KEY);
+    expect(JSON.parse(content).errorCode).toBe('SIGNER_ERROR');
+    expect((await AuditLog.verify(filePath)).valid).toBe(true);
+  });
+
+  it('records transaction hashes from structured content', async () => {
+    const log = await AuditLog.open(filePath);
+    await log.record({
+      tool: 'safe_execute_transaction',
+      args: { safeAddress: '0x1', privateKey: PRIVATE_KEY },
+      result: {
+        content: [{ type: 'text', text: 'Transaction executed' }],
+        structuredContent: {
+          networkId: 'eip155:1',
+          transactionHash: TX_HASH,
+          receipt: { txHash: TX_HASH },
+        },
+      },
+      durationMs: 12,
+    });
+    await log.close();
+
+    const entry = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    expect(entry.isError).toBe(false);
+    expect(entry.txHashes).toEqual([TX_HASH]);
+    expect(entry.summary).toBe('Transaction executed');
+    expect(JSON.stringify(entry)).not.toContain(PRIVATE_KEY);
+  });
+});
@@ -0,0 +1,256 @@
+import * as fs from 'fs/promises';
+import { createHash } from 'crypto';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { SafeError, ErrorCodes } from '../utils/SafeError.js';
+import { redactSecrets } from '../utils/redact.js';
+
+/**
+ * Hash used as the previous hash of the first entry
+ */
+export const GENESIS_HASH = '0'.repeat(64);
+
+/**
+ * A single audit log line
+ */
+export interface AuditEntry {
+  sequence: number;
+  timestamp: string;
+  tool: string;
+  arguments: unknown;
+  client?: { name: string; version: string } | undefined;
+  sessionId?: string | undefined;
+  durationMs: number;
+  isError: boolean;
+  errorCode?: string | undefined;
+  txHashes: string[];
+  summary: string;
+  prevHash: string;
+  hash: string;
+}
+
+/**
+ * Details of a tool call to be recorded
+ */
+export interface AuditRecordInput {
+  tool: string;
+  args: unknown;
+  result: CallToolResult;
+  durationMs: number;
+  client?: { name: string; version: string } | undefined;
+  sessionId?: string | undefined;
+}
+
+/**
+ * Outcome of verifying an audit log file
+ */
+export interface AuditVerificationResult {
+  valid: boolean;
+  entries: number;
+  lastHash: string;
+  error?: { line: number; message: string } | undefined;
+}
+
+const TX_HASH_KEYS = new Set(['transactionHash', 'txHash']);
+const TX_HASH_PATTERN = /^0x[a-fA-F0-9]{64}$/;
+const SUMMARY_MAX_LENGTH = 200;
+
+/**
+ * Append-only, hash-chained JSONL audit log of tool calls
+ *
+ * Each entry stores the hash of the previous entry and its own SHA-256 hash
+ * over the previous hash and the entry body, so editing, removing or
+ * reordering lines breaks the chain and is detected by AuditLog.verify.
+ */
+export class AuditLog {
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  private constructor(
+    private handle: fs.FileHandle,
+    private filePath: string,
+    private lastHash: string,
+    private nextSequence: number
+  ) {}
+
+  /**
+   * Open (or create) an audit log, continuing the existing hash chain
+   */
+  static async open(filePath: string): Promise<AuditLog> {
+    let lastHash = GENESIS_HASH;
+    let nextSequence = 1;
+
+    const existing = await readIfExists(filePath);
+    if (existing) {
+      const verification = AuditLog.verifyContent(existing);
+      if (!verification.valid) {
+        throw new SafeError(
+          `Audit log ${filePath} failed verification: ${verification.error?.message}`,
+          ErrorCodes.CONFIGURATION_ERROR,
+          { filePath, line: verification.error?.line }
+        );
+      }
+      lastHash = verification.lastHash;
+      nextSequence = verification.entries + 1;
+    }
+
+    const handle = await fs.open(filePath, 'a', 0o600);
+    return new AuditLog(handle, filePath, lastHash, nextSequence);
+  }
+
+  /**
+   * Verify the hash chain of an audit log file
+   */
+  static async verify(filePath: string): Promise<AuditVerificationResult> {
+    return AuditLog.verifyContent(await fs.readFile(filePath, 'utf-8'));
+  }
+
+  /**
+   * Path of the log file
+   */
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  /**
+   * Append an entry for a completed tool call
+   */
+  async record(input: AuditRecordInput): Promise<void> {
+    const write = this.writeQueue.then(() => this.append(input));
+    // Keep the queue alive after a failed write
+    this.writeQueue = write.catch(() => {});
+    return write;
+  }
+
+  /**
+   * Flush pending writes and close the file
+   */
+  async close(): Promise<void> {
+    await this.writeQueue;
+    await this.handle.close();
+  }
+
+  private async append(input: AuditRecordInput): Promise<void> {
+    const { text, parsed } = readResultText(input.result);
+    const body = {
+      sequence: this.nextSequence,
+      timestamp: new Date().toISOString(),
+      tool: input.tool,
+      arguments: redactSecrets(input.args ?? {}),
+      client: input.client,
+      sessionId: input.sessionId,
+      durationMs: input.durationMs,
+      isError: input.result.isError === true,
+      errorCode: extractErrorCode(parsed),
+      txHashes: collectTxHashes(
+        input.result.isError ? parsed : input.result.structuredContent
+      ),
+      summary: redactSecrets(text).slice(0, SUMMARY_MAX_LENGTH),
+      prevHash: this.lastHash,
+    };
+
+    const hash = hashEntry(this.lastHash, JSON.stringify(body));
+    const line = JSON.stringify({ ...body, hash }) + '\n';
+
+    await this.handle.appendFile(line, 'utf-8');
+    await this.handle.datasync();
+
+    this.lastHash = hash;
+    this.nextSequence += 1;
+  }
+
+  private static verifyContent(content: string): AuditVerificationResult {
+    const lines = content.split('\n').filter((line) => line.trim() !== '');
+    let prevHash = GENESIS_HASH;
+
+    for (const [index, line] of lines.entries()) {
+      const fail = (message: string): AuditVerificationResult => ({
+        valid: false,
+        entries: index,
+        lastHash: prevHash,
+        error: { line: index + 1, message },
+      });
+
+      let entry: Partial<AuditEntry>;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        return fail('Line is not valid JSON');
+      }
+
+      const { hash, ...body } = entry;
+      if (body.sequence !== index + 1) {
+        return fail(
+          `Expected sequence ${index + 1}, found ${String(body.sequence)}`
+        );
+      }
+      if (body.prevHash !== prevHash) {
+        return fail('Previous hash does not match the preceding entry');
+      }
+      if (hash !== hashEntry(prevHash, JSON.stringify(body))) {
+        return fail('Entry hash does not match its contents');
+      }
+
+      prevHash = hash;
+    }
+
+    return { valid: true, entries: lines.length, lastHash: prevHash };
+  }
+}
+
+function hashEntry(prevHash: string, body: string): string {
+  return createHash('sha256').update(prevHash).update(body).digest('hex');
+}
+
+async function readIfExists(filePath: string): Promise<string | undefined> {
+  try {
+    return await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as { code?: string }).code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Join text content and parse it as JSON when possible; error results only
+ * carry their details here, successful ones in structuredContent
+ */
+function readResultText(result: CallToolResult): {
+  text: string;
+  parsed: unknown;
+} {
+  const text = result.content
+    .map((item) => (item.type === 'text' ? item.text : `[${item.type}]`))
+    .join('\n');
+
+  try {
+    return { text, parsed: JSON.parse(text) };
+  } catch {
+    return { text, parsed: undefined };
+  }
+}
+
+function extractErrorCode(parsed: unknown): string | undefined {
+  const error = (parsed as { error?: { code?: unknown } } | undefined)?.error;
+  return typeof error?.code === 'string' ? error.code : undefined;
+}
+
+function collectTxHashes(value: unknown, found: string[] = []): string[] {
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectTxHashes(item, found));
+  } else if (value && typeof value === 'object') {
+    for (const [key, child] of Object.entries(value)) {
+      if (
+        TX_HASH_KEYS.has(key) &&
+        typeof child === 'string' &&
+        TX_HASH_PATTERN.test(child) &&
+        !found.includes(child)
+      ) {
+        found.push(child);
+      } else {
+        collectTxHashes(child, found);
+      }
+    }
+  }
+  return found;
+}
@@ -1,5 +1,26 @@
-import { ethers, JsonRpcProvider, Wallet } from 'ethers';
-import { SafeFactory } from '@safe-global/protocol-kit';
+import { ethers, FetchRequest, JsonRpcProvider, Wallet } from 'ethers';
+import { SafeAccountConfig, SafeFactory } from '@safe-global/protocol-kit';
+import { SafeSigner } from '../signers/types.js';
+import { GasStrategy, SafeConfig, SafeVersion } from '../config/types.js';
+import { DEFAULT_CONFIG } from '../config/defaults.js';
+import { SafeError, ErrorCodes } from '../utils/SafeError.js';
+
+/**
+ * Contract options for new Safe wallets
+ */
+export interface SafeFactoryOptions {
+  safeVersion?: SafeVersion | undefined;
+  useL2Singleton?: boolean | undefined;
+}
+
+/**
+ * Fee fields passed to the protocol kit when sending a transaction
+ */
+export interface GasOptions {
+  gasPrice?: string;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+}
 
 /**
  * Factory for creating blockchain providers and Safe SDK instances
@@ -7,6 +28,8 @@ import { SafeFactory } from '@safe-global/protocol-kit';
 export class ProviderFactory {
   private providers = new Map<string, JsonRpcProvider>();
 
+  constructor(private config: SafeConfig = DEFAULT_CONFIG) {}
+
   /**
    * Get or create RPC provider for network
    */
@@ -15,17 +38,56 @@ export class ProviderFactory {
     rpcUrl?: string
   ): Promise<JsonRpcProvider> {
     if (!this.providers.has(networkId)) {
-      const url = rpcUrl || this.getDefaultRpcUrl(networkId);
-      const provider = new JsonRpcProvider(url);
+      const network = this.config.networks?.[networkId];
+      const urls = rpcUrl
+        ? [rpcUrl]
+        : [
+            this.getDefaultRpcUrl(networkId),
+            ...(network?.fallbackRpcUrls ?? []),
+          ];
+      const attempts = 1 + (network?.retries ?? 0);
 
-      // Test connection
-      await provider.getNetwork();
-      this.providers.set(networkId, provider);
+      // Use the first RPC URL that answers, retrying each one as configured
+      let lastError: unknown;
+      for (const url of urls) {
+        for (let attempt = 0; attempt < attempts; attempt++) {
+          const provider = this.createProvider(url, network?.timeout);
+          try {
+            await provider.getNetwork();
+            this.providers.set(networkId, provider);
+            return provider;
+          } catch (error) {
+            provider.destroy();
+            lastError = error;
+          }
+        }
+      }
+
+      throw new SafeError(
+        `All RPC providers failed for network ${networkId}`,
+        ErrorCodes.NETWORK_ERROR,
+        {
+          networkId,
+          lastError:
+            lastError instanceof Error ? lastError.message : String(lastError),
+        }
+      );
     }
 
     return this.providers.get(networkId)!;
   }
 
+  /**
+   * Create a provider for a single RPC URL with an optional request timeout
+   */
+  private createProvider(url: string, timeout?: number): JsonRpcProvider {
+    const request = new FetchRequest(url);
+    if (timeout !== undefined) {
+      request.timeout = timeout;
+    }
+    return new JsonRpcProvider(request);
+  }
+
   /**
    * Get ethers provider URL for Safe SDK
    */
@@ -46,18 +108,20 @@ export class ProviderFactory {
   async getSafe(
     safeAddress: string,
     networkId: string,
-    privateKey?: string,
+    signer?: SafeSigner,
     rpcUrl?: string
   ): Promise<any> {
     const providerUrl = await this.getProviderUrl(networkId, rpcUrl);
+    const connection = signer
+      ? await signer.getSafeConnection(providerUrl)
+      : { provider: providerUrl };
 
     // Dynamic import to handle ESM/CJS interop
     const SafeModule = await import('@safe-global/protocol-kit');
     const Safe = (SafeModule.default as any).default || SafeModule.default;
 
     return await Safe.init({
-      provider: providerUrl,
-      signer: privateKey,
+      ...connection,
       safeAddress,
     });
   }
@@ -67,48 +131,130 @@ export class ProviderFactory {
    */
   async getSafeFactory(
     networkId: string,
-    privateKey: string,
-    rpcUrl?: string
+    signer: SafeSigner,
+    rpcUrl?: string,
+    options: SafeFactoryOptions = {}
   ): Promise<SafeFactory> {
     const providerUrl = await this.getProviderUrl(networkId, rpcUrl);
 
     return await SafeFactory.init({
-      provider: providerUrl,
-      signer: privateKey,
+      ...(await signer.getSafeConnection(providerUrl)),
+      ...(options.safeVersion ? { safeVersion: options.safeVersion } : {}),
+      ...(options.useL2Singleton !== undefined
+        ? { isL1SafeSingleton: !options.useL2Singleton }
+        : {}),
     });
   }
 
   /**
-   * Get default RPC URL for network
+   * Create a Safe SDK instance for a Safe that is not deployed yet, from
+   * which the deployment transaction and the address can be derived
    */
-  private getDefaultRpcUrl(networkId: string): string {
-    const rpcUrls: Record<string, string> = {
-      'eip155:1': process.env.SAFE_RPC_EIP155_1 || 'https://eth.llamarpc.com',
-      'eip155:137':
-        process.env.SAFE_RPC_EIP155_137 || 'https://polygon.llamarpc.com',
-      'eip155:42161':
-        process.env.SAFE_RPC_EIP155_42161 || 'https://arbitrum.llamarpc.com',
-      'eip155:10':
-        process.env.SAFE_RPC_EIP155_10 || 'https://optimism.llamarpc.com',
-      'eip155:8453':
-        process.env.SAFE_RPC_EIP155_8453 || 'https://base.llamarpc.com',
-      'eip155:100':
-        process.env.SAFE_RPC_EIP155_100 || 'https://gnosis.llamarpc.com',
-      'eip155:42220':
-        process.env.SAFE_RPC_EIP155_42220 || 'https://celo.llamarpc.com',
-      'eip155:43114':
-        process.env.SAFE_RPC_EIP155_43114 || 'https://avalanche.llamarpc.com',
-      'eip155:11155111':
-        process.env.SAFE_RPC_EIP155_11155111 || 'https://sepolia.llamarpc.com',
-      'eip155:31337':
-        process.env.SAFE_RPC_EIP155_31337 || 'http://127.0.0.1:8545',
+  async getPredictedSafe(
+    networkId: string,
+    signer: SafeSigner,
+    safeAccountConfig: SafeAccountConfig,
+    saltNonce?: string,
+    options: SafeFactoryOptions = {}
+  ): Promise<any> {
+    const providerUrl = await this.getProviderUrl(networkId);
+
+    // Dynamic import to handle ESM/CJS interop
+    const SafeModule = await import('@safe-global/protocol-kit');
+    const Safe = (SafeModule.default as any).default || SafeModule.default;
+
+    return await Safe.init({
+      ...(await signer.getSafeConnection(providerUrl)),
+      predictedSafe: {
+        safeAccountConfig,
+        safeDeploymentConfig: {
+          ...(saltNonce ? { saltNonce } : {}),
+          ...(options.safeVersion ? { safeVersion: options.safeVersion } : {}),
+        },
+      },
+      ...(options.useL2Singleton !== undefined
+        ? { isL1SafeSingleton: !options.useL2Singleton }
+        : {}),
+    });
+  }
+
+  /**
+   * Transaction fee options for a gas strategy; empty for `provider`
+   */
+  async getGasOptions(
+    networkId: string,
+    strategy: GasStrategy
+  ): Promise<GasOptions> {
+    if (strategy === 'provider') {
+      return {};
+    }
+
+    const feeData = await (await this.getProvider(networkId)).getFeeData();
+    if (strategy === 'legacy') {
+      if (feeData.gasPrice === null) {
+        throw new SafeError(
+          `Network ${networkId} did not report a gas price`,
+          ErrorCodes.NETWORK_ERROR,
+          { networkId, gasStrategy: strategy }
+        );
+      }
+      return { gasPrice: feeData.gasPrice.toString() };
+    }
+
+    if (
+      feeData.maxFeePerGas === null ||
+      feeData.maxPriorityFeePerGas === null
+    ) {
+      throw new SafeError(
+        `Network ${networkId} does not support EIP-1559 fees`,
+        ErrorCodes.NETWORK_ERROR,
+        { networkId, gasStrategy: strategy }
+      );
+    }
+    return {
+      maxFeePerGas: feeData.maxFeePerGas.toString(),
+      maxPriorityFeePerGas: feeData.maxPriorityFeePerGas.toString(),
     };
+  }
 
-    if (!rpcUrls[networkId]) {
-      throw new Error(`No RPC URL configured for network ${networkId}`);
+  /**
+   * Get the configured RPC URL for network
+   */
+  private getDefaultRpcUrl(networkId: string): string {
+    const rpcUrl = this.config.networks?.[networkId]?.rpcUrl;
+    if (!rpcUrl) {
+      throw new SafeError(
+        `No RPC URL configured for network ${networkId}`,
+        ErrorCodes.NETWORK_NOT_SUPPORTED,
+        { networkId }
+      );
     }
 
-    return rpcUrls[networkId]!;
+    return rpcUrl;
+  }
+
+  /**
+   * Switch to a reloaded configuration, dropping cached providers whose
+   * RPC settings changed
+   */
+  updateConfig(config: SafeConfig): void {
+    const rpcSettings = (source: SafeConfig, networkId: string) => {
+      const network = source.networks?.[networkId];
+      return JSON.stringify([
+        network?.rpcUrl,
+        network?.fallbackRpcUrls,
+        network?.timeout,
+        network?.retries,
+      ]);
+    };
+    for (const networkId of Array.from(this.providers.keys())) {
+      if (
+        rpcSettings(this.config, networkId) !== rpcSettings(config, networkId)
+      ) {
+        this.providers.delete(networkId);
+      }
+    }
+    this.config = config;
   }
 
   /**
@@ -0,0 +1,173 @@
+import { Provider, Wallet, ZeroAddress, getBytes } from 'ethers';
+import {
+  OwnerSignature,
+  SignatureCheckContext,
+  checkSignatures,
+  preValidatedSignature,
+} from './SafeSignatures.js';
+import {
+  SafeTransactionFields,
+  getSafeTxTypedData,
+  hashSafeTypedData,
+} from './SafeTypedData.js';
+
+const SAFE_ADDRESS = '0x1234567890123456789012345678901234567890';
+const owner = new Wallet(
+  '0x4c0883a69102937d6231471b5dbb6204fe5129617082792ae468d01a3f362318'
+);
+const otherOwner = new Wallet(
+  '0x0123456789012345678901234567890123456789012345678901234567890123'
+);
+const stranger = new Wallet(`0x${'11'.repeat(32)}`);
+
+const transaction: SafeTransactionFields = {
+  to: '0x000000000000000000000000000000000000dEaD',
+  value: '1000',
+  data: '0x',
+  operation: 0,
+  safeTxGas: '0',
+  baseGas: '0',
+  gasPrice: '0',
+  gasToken: ZeroAddress,
+  refundReceiver: ZeroAddress,
+  nonce: 7,
+};
+
+// Only contract signatures reach the node
+const provider = {} as Provider;
+
+describe('getSafeTxTypedData', () => {
+  it('follows the Safe version for the domain and gas field', () => {
+    const current = getSafeTxTypedData(1, SAFE_ADDRESS, '1.4.1', transaction);
+    const legacy = getSafeTxTypedData(1, SAFE_ADDRESS, '1.2.0', transaction);
+    const oldest = getSafeTxTypedData(1, SAFE_ADDRESS, '0.1.0', transaction);
+
+    expect(current.domain).toEqual({
+      chainId: 1,
+      verifyingContract: SAFE_ADDRESS,
+    });
+    expect(legacy.domain).toEqual({ verifyingContract: SAFE_ADDRESS });
+    expect(current.message).toHaveProperty('baseGas');
+    expect(oldest.message).toHaveProperty('dataGas');
+    // The chain is part of the hash from 1.3.0
+    expect(
+      hashSafeTypedData(
+        getSafeTxTypedData(10, SAFE_ADDRESS, '1.4.1', transaction)
+      )
+    ).not.toBe(hashSafeTypedData(current));
+  });
+});
+
+describe('checkSignatures', () => {
+  const typedData = getSafeTxTypedData(1, SAFE_ADDRESS, '1.4.1', transaction);
+  const context: SignatureCheckContext = {
+    typedData,
+    safeTxHash: hashSafeTypedData(typedData),
+    owners: [owner.address, otherOwner.address],
+    approvedBy: [],
+    executor: otherOwner.address,
+  };
+
+  function eoaSignature(wallet: Wallet): Promise<string> {
+    return wallet.signTypedData(
+      typedData.domain,
+      typedData.types,
+      typedData.message
+    );
+  }
+
+  it('accepts an EIP-712 signature from an owner', async () => {
+    const data = await eoaSignature(owner);
+
+    const { valid, problems } = await checkSignatures(provider, context, [
+      { signer: owner.address, type: 'eoa', data },
+    ]);
+
+    expect(problems).toEqual([]);
+    expect(valid).toEqual([
+      {
+        signer: owner.address,
+        type: 'eoa',
+        data,
+        isContractSignature: false,
+      },
+    ]);
+  });
+
+  it('encodes eth_sign signatures with v + 4', async () => {
+    const data = await owner.signMessage(getBytes(context.safeTxHash));
+
+    const { valid } = await checkSignatures(provider, context, [
+      { signer: owner.address, type: 'eth_sign', data },
+    ]);
+
+    const v = parseInt(data.slice(-2), 16);
+    expect(valid[0]?.data).toBe(`${data.slice(0, -2)}${(v + 4).toString(16)}`);
+  });
+
+  it('counts the executor as an approval', async () => {
+    const { valid, problems } = await checkSignatures(provider, context, [
+      { signer: otherOwner.address, type: 'approved_hash' },
+      { signer: owner.address, type: 'approved_hash' },
+    ]);
+
+    expect(valid).toEqual([
+      {
+        signer: otherOwner.address,
+        type: 'approved_hash',
+        data: preValidatedSignature(otherOwner.address),
+        isContractSignature: false,
+      },
+    ]);
+    expect(problems).toEqual([
+      {
+        signer: owner.address,
+        type: 'approved_hash',
+        reason:
+          'the owner has not approved the hash on chain and is not the executor',
+      },
+    ]);
+  });
+
+  it('rejects non-owners, duplicates and signatures by someone else', async () => {
+    const signatures: OwnerSignature[] = [
+      {
+        signer: stranger.address,
+        type: 'eoa',
+        data: await eoaSignature(stranger),
+      },
+      { signer: owner.address, type: 'eoa', data: await eoaSignature(owner) },
+      { signer: owner.address, type: 'eoa', data: await eoaSignature(owner) },
+      {
+        signer: otherOwner.address,
+        type: 'eoa',
+        data: await eoaSignature(owner),
+      },
+    ];
+
+    const { valid, problems } = await checkSignatures(
+      provider,
+      context,
+      signatures
+    );
+
+    expect(valid.map((signature) => signature.signer)).toEqual([owner.address]);
+    expect(problems).toEqual([
+      {
+        signer: stranger.address,
+        type: 'eoa',
+        reason: 'not an owner of the Safe',
+      },
+      {
+        signer: owner.address,
+        type: 'eoa',
+        reason: 'more than one signature for this owner',
+      },
+      {
+        signer: otherOwner.address,
+        type: 'eoa',
+        reason: `the signature recovers to ${owner.address}`,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,228 @@
+import {
+  Interface,
+  Provider,
+  Signature,
+  TypedDataEncoder,
+  dataLength,
+  getAddress,
+  getBytes,
+  hexlify,
+  recoverAddress,
+  verifyMessage,
+} from 'ethers';
+import { SafeTypedData } from './SafeTypedData.js';
+
+/**
+ * Ways an owner can sign a Safe transaction
+ *
+ * - eoa: EIP-712 signature of the safeTxHash
+ * - eth_sign: eth_sign / personal_sign signature of the safeTxHash
+ * - approved_hash: the owner called approveHash on the Safe, or sends the
+ *   execution itself
+ * - contract: EIP-1271 signature of a contract owner, e.g. another Safe
+ */
+export const SIGNATURE_TYPES = [
+  'eoa',
+  'eth_sign',
+  'approved_hash',
+  'contract',
+] as const;
+
+export type OwnerSignatureType = (typeof SIGNATURE_TYPES)[number];
+
+/**
+ * A signature collected from one owner
+ */
+export interface OwnerSignature {
+  signer: string;
+  type: OwnerSignatureType;
+  /** Signature bytes; not used for approved_hash */
+  data?: string | undefined;
+}
+
+/**
+ * A signature that passed validation, encoded the way the Safe reads it
+ */
+export interface CheckedSignature {
+  signer: string;
+  type: OwnerSignatureType;
+  /** 65-byte static part, or the contract signature for contract owners */
+  data: string;
+  isContractSignature: boolean;
+}
+
+/**
+ * Why a signature was rejected
+ */
+export interface SignatureProblem {
+  signer: string;
+  type: OwnerSignatureType;
+  reason: string;
+}
+
+/**
+ * The Safe state signatures are checked against
+ */
+export interface SignatureCheckContext {
+  typedData: SafeTypedData;
+  safeTxHash: string;
+  owners: string[];
+  /** Owners that approved the hash on chain */
+  approvedBy: string[];
+  /** Account that sends execTransaction; counts as approval when an owner */
+  executor: string;
+}
+
+/**
+ * Legacy EIP-1271 interface the Safe contracts call on contract owners
+ */
+const SIGNATURE_VALIDATOR = new Interface([
+  'function isValidSignature(bytes data, bytes signature) view returns (bytes4)',
+]);
+
+const LEGACY_EIP1271_MAGIC_VALUE = '0x20c13b0b';
+
+/**
+ * Check each signature against the Safe's owners and the transaction hash
+ *
+ * Contract signatures are checked with an eth_call to the owner, as the
+ * Safe does during execution.
+ */
+export async function checkSignatures(
+  provider: Provider,
+  context: SignatureCheckContext,
+  signatures: OwnerSignature[]
+): Promise<{ valid: CheckedSignature[]; problems: SignatureProblem[] }> {
+  const owners = new Set(context.owners.map((owner) => owner.toLowerCase()));
+  const seen = new Set<string>();
+  const valid: CheckedSignature[] = [];
+  const problems: SignatureProblem[] = [];
+
+  for (const signature of signatures) {
+    const signer = getAddress(signature.signer);
+    const reject = (reason: string): void => {
+      problems.push({ signer, type: signature.type, reason });
+    };
+
+    if (!owners.has(signer.toLowerCase())) {
+      reject('not an owner of the Safe');
+      continue;
+    }
+    if (seen.has(signer.toLowerCase())) {
+      reject('more than one signature for this owner');
+      continue;
+    }
+    seen.add(signer.toLowerCase());
+
+    const result = await checkSignature(provider, context, {
+      ...signature,
+      signer,
+    });
+    if (typeof result === 'string') {
+      reject(result);
+    } else {
+      valid.push(result);
+    }
+  }
+
+  return { valid, problems };
+}
+
+/**
+ * Validate and encode one owner's signature; returns the reason it is
+ * invalid otherwise
+ */
+async function checkSignature(
+  provider: Provider,
+  context: SignatureCheckContext,
+  signature: OwnerSignature
+): Promise<CheckedSignature | string> {
+  const { signer, type } = signature;
+
+  if (type === 'approved_hash') {
+    const approved =
+      signer.toLowerCase() === context.executor.toLowerCase() ||
+      context.approvedBy.some(
+        (owner) => owner.toLowerCase() === signer.toLowerCase()
+      );
+    return approved
+      ? {
+          signer,
+          type,
+          data: preValidatedSignature(signer),
+          isContractSignature: false,
+        }
+      : 'the owner has not approved the hash on chain and is not the executor';
+  }
+
+  if (!signature.data || signature.data === '0x') {
+    return 'signature data is missing';
+  }
+
+  if (type === 'contract') {
+    const preimage = TypedDataEncoder.encode(
+      context.typedData.domain,
+      context.typedData.types,
+      context.typedData.message
+    );
+    try {
+      const returned = await provider.call({
+        to: signer,
+        data: SIGNATURE_VALIDATOR.encodeFunctionData('isValidSignature', [
+          preimage,
+          signature.data,
+        ]),
+      });
+      const [magicValue] = SIGNATURE_VALIDATOR.decodeFunctionResult(
+        'isValidSignature',
+        returned
+      );
+      if (magicValue !== LEGACY_EIP1271_MAGIC_VALUE) {
+        return 'the owner contract did not accept the signature (EIP-1271)';
+      }
+    } catch (error) {
+      return `the owner contract rejected the signature (EIP-1271): ${error instanceof Error ? error.message : String(error)}`;
+    }
+    return { signer, type, data: signature.data, isContractSignature: true };
+  }
+
+  if (dataLength(signature.data) !== 65) {
+    return 'an ECDSA signature must be 65 bytes';
+  }
+
+  let parsed: Signature;
+  try {
+    // eth_sign signatures for a Safe carry v + 4; plain ones recover as is
+    const bytes = getBytes(signature.data);
+    const v = bytes[64] ?? 0;
+    if (type === 'eth_sign' && v > 30) {
+      bytes[64] = v - 4;
+    }
+    parsed = Signature.from(hexlify(bytes));
+  } catch {
+    return 'not a valid ECDSA signature';
+  }
+
+  const recovered =
+    type === 'eth_sign'
+      ? verifyMessage(getBytes(context.safeTxHash), parsed)
+      : recoverAddress(context.safeTxHash, parsed);
+  if (recovered.toLowerCase() !== signer.toLowerCase()) {
+    return `the signature recovers to ${recovered}`;
+  }
+
+  const v = type === 'eth_sign' ? parsed.v + 4 : parsed.v;
+  return {
+    signer,
+    type,
+    data: `${parsed.r}${parsed.s.slice(2)}${v.toString(16)}`,
+    isContractSignature: false,
+  };
+}
+
+/**
+ * Signature for an owner who sends the transaction or approved its hash
+ */
+export function preValidatedSignature(owner: string): string {
+  return `0x${'0'.repeat(24)}${owner.slice(2)}${'0'.repeat(64)}01`;
+}
@@ -0,0 +1,101 @@
+import { TypedDataDomain, TypedDataEncoder, TypedDataField } from 'ethers';
+
+/**
+ * The SafeTx fields that owners sign
+ */
+export interface SafeTransactionFields {
+  to: string;
+  value: string;
+  data: string;
+  operation: number;
+  safeTxGas: string;
+  baseGas: string;
+  gasPrice: string;
+  gasToken: string;
+  refundReceiver: string;
+  nonce: number;
+}
+
+/**
+ * EIP-712 domain, types and message of a Safe transaction
+ */
+export interface SafeTypedData {
+  domain: TypedDataDomain;
+  types: Record<string, TypedDataField[]>;
+  message: Record<string, unknown>;
+}
+
+/**
+ * Build the EIP-712 typed data a Safe contract hashes for a transaction
+ *
+ * Safes from 1.3.0 include the chain ID in the domain; Safes before 1.0.0
+ * call the base gas field dataGas.
+ */
+export function getSafeTxTypedData(
+  chainId: number | bigint,
+  safeAddress: string,
+  safeVersion: string,
+  transaction: SafeTransactionFields
+): SafeTypedData {
+  const gasField =
+    compareVersions(safeVersion, '1.0.0') < 0 ? 'dataGas' : 'baseGas';
+
+  return {
+    domain:
+      compareVersions(safeVersion, '1.3.0') < 0
+        ? { verifyingContract: safeAddress }
+        : { chainId, verifyingContract: safeAddress },
+    types: {
+      SafeTx: [
+        { name: 'to', type: 'address' },
+        { name: 'value', type: 'uint256' },
+        { name: 'data', type: 'bytes' },
+        { name: 'operation', type: 'uint8' },
+        { name: 'safeTxGas', type: 'uint256' },
+        { name: gasField, type: 'uint256' },
+        { name: 'gasPrice', type: 'uint256' },
+        { name: 'gasToken', type: 'address' },
+        { name: 'refundReceiver', type: 'address' },
+        { name: 'nonce', type: 'uint256' },
+      ],
+    },
+    message: {
+      to: transaction.to,
+      value: transaction.value,
+      data: transaction.data,
+      operation: transaction.operation,
+      safeTxGas: transaction.safeTxGas,
+      [gasField]: transaction.baseGas,
+      gasPrice: transaction.gasPrice,
+      gasToken: transaction.gasToken,
+      refundReceiver: transaction.refundReceiver,
+      nonce: transaction.nonce,
+    },
+  };
+}
+
+/**
+ * The safeTxHash: EIP-712 hash of a Safe transaction's typed data
+ */
+export function hashSafeTypedData(typedData: SafeTypedData): string {
+  return TypedDataEncoder.hash(
+    typedData.domain,
+    typedData.types,
+    typedData.message
+  );
+}
+
+/**
+ * Compare two dotted version numbers, e.g. 1.3.0 and 1.4.1
+ */
+function compareVersions(a: string, b: string): number {
+  const left = a.split('.').map(Number);
+  const right = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const difference = (left[i] ?? 0) - (right[i] ?? 0);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  return 0;
+}
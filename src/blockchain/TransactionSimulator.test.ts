@@ -0,0 +1,151 @@
+import { AbiCoder, Provider, makeError } from 'ethers';
+import { EthSafeSignature } from '@safe-global/protocol-kit';
+import {
+  describeSimulation,
+  simulateSafeTransaction,
+  simulateTransaction,
+} from './TransactionSimulator.js';
+
+const SAFE_ADDRESS = '0x1234567890123456789012345678901234567890';
+const EXECUTOR = '0x2B5AD5c4795c026514f8317c7a215E218DcCD6cF';
+const OTHER_OWNER = '0x6813Eb9362372EEF6200f3b1dbC3f819671cBA69';
+const ENCODED = '0x6a761202';
+
+function revert(reason: string): Error {
+  return makeError('execution reverted', 'CALL_EXCEPTION', {
+    action: 'call',
+    data: null,
+    reason,
+    transaction: { to: SAFE_ADDRESS, data: ENCODED },
+    invocation: null,
+    revert: null,
+  });
+}
+
+function fakeProvider(
+  call: () => Promise<string>,
+  estimateGas: () => Promise<bigint> = async () => 84000n
+): Provider & { call: jest.Mock; estimateGas: jest.Mock } {
+  return {
+    call: jest.fn(call),
+    estimateGas: jest.fn(estimateGas),
+  } as unknown as Provider & { call: jest.Mock; estimateGas: jest.Mock };
+}
+
+/**
+ * A Safe with the given owners and threshold whose transactions collect
+ * signatures the way the protocol kit's do
+ */
+function fakeSafe(owners: string[], threshold: number, approvedBy: string[]) {
+  const createSigned = () => {
+    const signatures = new Map<string, EthSafeSignature>();
+    return {
+      signatures,
+      addSignature: (signature: EthSafeSignature) =>
+        signatures.set(signature.signer.toLowerCase(), signature),
+    };
+  };
+  return {
+    copyTransaction: async () => createSigned(),
+    getTransactionHash: async () => `0x${'01'.repeat(32)}`,
+    getOwnersWhoApprovedTx: async () => approvedBy,
+    getOwners: async () => owners,
+    getThreshold: async () => threshold,
+    getAddress: async () => SAFE_ADDRESS,
+    getEncodedTransaction: async () => ENCODED,
+  };
+}
+
+const returnsTrue = AbiCoder.defaultAbiCoder().encode(['bool'], [true]);
+
+describe('simulateTransaction', () => {
+  it('reports the gas estimate of a call that succeeds', async () => {
+    const provider = fakeProvider(async () => '0x');
+    const result = await simulateTransaction(provider, { to: SAFE_ADDRESS });
+
+    expect(result).toEqual({
+      success: true,
+      gasEstimate: '84000',
+      returnData: '0x',
+    });
+    expect(describeSimulation(result)).toBe(
+      'expected to succeed using about 84000 gas'
+    );
+  });
+
+  it('explains Safe revert codes without estimating gas', async () => {
+    const provider = fakeProvider(() => Promise.reject(revert('GS013')));
+    const result = await simulateTransaction(provider, { to: SAFE_ADDRESS });
+
+    expect(result).toEqual({
+      success: false,
+      revertReason:
+        'GS013: the Safe transaction failed (the inner call reverted)',
+    });
+    expect(provider.estimateGas).not.toHaveBeenCalled();
+    expect(describeSimulation(result)).toBe(
+      'expected to fail (GS013: the Safe transaction failed (the inner call reverted))'
+    );
+  });
+
+  it('throws errors that are not a failed simulation', async () => {
+    const provider = fakeProvider(() =>
+      Promise.reject(new Error('connect ECONNREFUSED'))
+    );
+
+    await expect(
+      simulateTransaction(provider, { to: SAFE_ADDRESS })
+    ).rejects.toThrow('connect ECONNREFUSED');
+  });
+});
+
+describe('simulateSafeTransaction', () => {
+  it('simulates execution signed by the executor and prior approvals', async () => {
+    const provider = fakeProvider(async () => returnsTrue);
+    const safe = fakeSafe([EXECUTOR, OTHER_OWNER], 2, [OTHER_OWNER]);
+
+    const result = await simulateSafeTransaction(provider, safe, {}, EXECUTOR);
+
+    expect(result).toMatchObject({
+      success: true,
+      gasEstimate: '84000',
+      from: EXECUTOR,
+      to: SAFE_ADDRESS,
+      data: ENCODED,
+    });
+    expect(provider.call).toHaveBeenCalledWith({
+      from: EXECUTOR,
+      to: SAFE_ADDRESS,
+      value: '0',
+      data: ENCODED,
+    });
+  });
+
+  it('reports missing signatures without calling the node', async () => {
+    const provider = fakeProvider(async () => returnsTrue);
+    const safe = fakeSafe([EXECUTOR, OTHER_OWNER], 2, []);
+
+    const result = await simulateSafeTransaction(provider, safe, {}, EXECUTOR);
+
+    expect(result).toMatchObject({
+      success: false,
+      revertReason:
+        '1 more owner signature(s) are needed to reach the threshold of 2',
+    });
+    expect(provider.call).not.toHaveBeenCalled();
+  });
+
+  it('reports an inner call that failed without reverting', async () => {
+    const provider = fakeProvider(async () =>
+      AbiCoder.defaultAbiCoder().encode(['bool'], [false])
+    );
+    const safe = fakeSafe([EXECUTOR], 1, []);
+
+    await expect(
+      simulateSafeTransaction(provider, safe, {}, EXECUTOR)
+    ).resolves.toMatchObject({
+      success: false,
+      revertReason: 'the inner call of the Safe transaction failed',
+    });
+  });
+});
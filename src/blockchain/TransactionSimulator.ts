@@ -0,0 +1,197 @@
+import {
+  AbiCoder,
+  Provider,
+  TransactionRequest,
+  isCallException,
+  isError,
+} from 'ethers';
+import { EthSafeSignature } from '@safe-global/protocol-kit';
+import { preValidatedSignature } from './SafeSignatures.js';
+
+/**
+ * Meaning of the Safe contracts' revert codes that execution runs into
+ */
+const SAFE_REVERT_CODES: Record<string, string> = {
+  GS010: 'not enough gas to execute the Safe transaction',
+  GS011: 'could not pay gas costs with ether',
+  GS012: 'could not pay gas costs with token',
+  GS013: 'the Safe transaction failed (the inner call reverted)',
+  GS020: 'signatures data too short',
+  GS024: 'invalid contract signature provided',
+  GS025: 'hash has not been approved',
+  GS026: 'invalid owner provided',
+};
+
+/**
+ * Expected outcome of a transaction, found with eth_call and
+ * eth_estimateGas without broadcasting anything
+ */
+export interface SimulationResult {
+  success: boolean;
+  gasEstimate?: string | undefined;
+  revertReason?: string | undefined;
+  returnData?: string | undefined;
+}
+
+/**
+ * Simulation of a Safe execTransaction call as the executor would send it
+ */
+export interface SafeTransactionSimulation extends SimulationResult {
+  from: string;
+  to: string;
+  value: string;
+  data: string;
+  safeTxHash: string;
+}
+
+/**
+ * Run a transaction request through eth_call and, when that succeeds,
+ * eth_estimateGas
+ *
+ * Reverts and insufficient funds are reported as an expected failure;
+ * other errors, such as an unreachable RPC, are thrown.
+ */
+export async function simulateTransaction(
+  provider: Provider,
+  request: TransactionRequest
+): Promise<SimulationResult> {
+  let returnData: string;
+  try {
+    returnData = await provider.call(request);
+  } catch (error) {
+    return { success: false, revertReason: describeFailure(error) };
+  }
+
+  try {
+    const gasEstimate = await provider.estimateGas(request);
+    return { success: true, gasEstimate: gasEstimate.toString(), returnData };
+  } catch (error) {
+    return { success: false, revertReason: describeFailure(error), returnData };
+  }
+}
+
+/**
+ * Build the execTransaction call the protocol kit would send for a Safe
+ * transaction and simulate it from the executor's account
+ *
+ * Signatures are collected the way executeTransaction does: owners who
+ * approved the hash on chain, then the executor itself when it is an owner.
+ */
+export async function simulateSafeTransaction(
+  provider: Provider,
+  // The protocol kit is loaded dynamically and used untyped, as in
+  // ProviderFactory.getSafe
+  safe: any,
+  safeTransaction: any,
+  executorAddress: string
+): Promise<SafeTransactionSimulation> {
+  const signed = await safe.copyTransaction(safeTransaction);
+  const safeTxHash: string = await safe.getTransactionHash(signed);
+
+  const approvedBy: string[] = await safe.getOwnersWhoApprovedTx(safeTxHash);
+  for (const owner of approvedBy) {
+    signed.addSignature(
+      new EthSafeSignature(owner, preValidatedSignature(owner))
+    );
+  }
+
+  const [owners, threshold]: [string[], number] = await Promise.all([
+    safe.getOwners(),
+    safe.getThreshold(),
+  ]);
+  const isOwner = owners.some(
+    (owner) => owner.toLowerCase() === executorAddress.toLowerCase()
+  );
+  if (threshold > signed.signatures.size && isOwner) {
+    signed.addSignature(
+      new EthSafeSignature(
+        executorAddress,
+        preValidatedSignature(executorAddress)
+      )
+    );
+  }
+
+  const missing = threshold - signed.signatures.size;
+  if (missing > 0) {
+    return {
+      from: executorAddress,
+      to: (await safe.getAddress()) as string,
+      value: '0',
+      data: (await safe.getEncodedTransaction(signed)) as string,
+      safeTxHash,
+      success: false,
+      revertReason: `${missing} more owner signature(s) are needed to reach the threshold of ${threshold}`,
+    };
+  }
+
+  return simulateSignedSafeTransaction(provider, safe, signed, executorAddress);
+}
+
+/**
+ * Simulate execTransaction for a Safe transaction that carries its
+ * signatures, from the executor's account
+ */
+export async function simulateSignedSafeTransaction(
+  provider: Provider,
+  safe: any,
+  signed: any,
+  executorAddress: string
+): Promise<SafeTransactionSimulation> {
+  const safeTxHash: string = await safe.getTransactionHash(signed);
+  const request = {
+    from: executorAddress,
+    to: (await safe.getAddress()) as string,
+    value: '0',
+    data: (await safe.getEncodedTransaction(signed)) as string,
+  };
+
+  const result = await simulateTransaction(provider, request);
+  if (result.success && result.returnData) {
+    // execTransaction returns false when the inner call fails with a
+    // non-zero safeTxGas or gasPrice
+    const [executed] = AbiCoder.defaultAbiCoder().decode(
+      ['bool'],
+      result.returnData
+    );
+    if (!executed) {
+      return {
+        ...request,
+        ...result,
+        safeTxHash,
+        success: false,
+        revertReason: 'the inner call of the Safe transaction failed',
+      };
+    }
+  }
+  return { ...request, ...result, safeTxHash };
+}
+
+/**
+ * Revert reason of a failed simulation, with the meaning of Safe error codes
+ */
+function describeFailure(error: unknown): string {
+  if (isError(error, 'INSUFFICIENT_FUNDS')) {
+    return 'insufficient funds for gas and value';
+  }
+  if (!isCallException(error)) {
+    throw error;
+  }
+
+  const reason =
+    error.reason ??
+    (error.revert
+      ? `${error.revert.name}(${error.revert.args.map(String).join(', ')})`
+      : undefined) ??
+    error.shortMessage;
+  const meaning = SAFE_REVERT_CODES[reason];
+  return meaning ? `${reason}: ${meaning}` : reason;
+}
+
+/**
+ * One-line summary of a simulation for tool results
+ */
+export function describeSimulation(result: SimulationResult): string {
+  return result.success
+    ? `expected to succeed using about ${result.gasEstimate ?? 'unknown'} gas`
+    : `expected to fail (${result.revertReason ?? 'unknown reason'})`;
+}
@@ -0,0 +1,54 @@
+import { parseCliOptions, resolveTransportOptions } from './CliOptions.js';
+
+describe('resolveTransportOptions', () => {
+  it('takes transport settings from the config file when not given', () => {
+    const options = parseCliOptions([], {});
+
+    expect(
+      resolveTransportOptions(options, {
+        transport: 'http',
+        port: 8080,
+        allowedHosts: ['safe-mcp.internal:8080'],
+      })
+    ).toEqual({
+      transport: 'http',
+      host: '127.0.0.1',
+      port: 8080,
+      allowedHosts: ['safe-mcp.internal:8080'],
+      authToken: undefined,
+    });
+  });
+
+  it('lets flags and environment variables win over the config file', () => {
+    const options = parseCliOptions(['--port', '4000'], {
+      SAFE_MCP_TRANSPORT: 'stdio',
+      SAFE_MCP_ALLOWED_HOSTS: 'a.example:4000, b.example:4000',
+    });
+
+    expect(
+      resolveTransportOptions(options, {
+        transport: 'http',
+        port: 8080,
+        allowedHosts: ['safe-mcp.internal:8080'],
+      })
+    ).toMatchObject({
+      transport: 'stdio',
+      port: 4000,
+      allowedHosts: ['a.example:4000', 'b.example:4000'],
+    });
+  });
+
+  it('takes the auth token from the config file when not given', () => {
+    expect(
+      resolveTransportOptions(parseCliOptions([], {}), {
+        authToken: 'config-token-1234',
+      }).authToken
+    ).toBe('config-token-1234');
+    expect(
+      resolveTransportOptions(
+        parseCliOptions([], { SAFE_MCP_AUTH_TOKEN: 'env-token-5678' }),
+        { authToken: 'config-token-1234' }
+      ).authToken
+    ).toBe('env-token-5678');
+  });
+});
@@ -0,0 +1,148 @@
+import { parseArgs } from 'util';
+import { SafeError, ErrorCodes } from '../utils/SafeError.js';
+import { ServerConfig, TransportKind } from '../config/types.js';
+
+export type { TransportKind };
+
+/**
+ * Options controlling how the server process is started; transport
+ * settings left out here come from the config file's server section
+ */
+export interface CliOptions {
+  transport?: TransportKind | undefined;
+  host?: string | undefined;
+  port?: number | undefined;
+  allowedHosts?: string[] | undefined;
+  authToken?: string | undefined;
+  readOnly: boolean;
+  configPath?: string | undefined;
+  profile?: string | undefined;
+  auditLogPath?: string | undefined;
+  policyPath?: string | undefined;
+  /** Subcommand to run instead of starting the server */
+  command?: string | undefined;
+  commandArgs: string[];
+}
+
+/**
+ * Transport settings in effect once every source has been applied
+ */
+export interface TransportOptions {
+  transport: TransportKind;
+  host: string;
+  port: number;
+  allowedHosts?: string[] | undefined;
+  authToken?: string | undefined;
+}
+
+const DEFAULT_HOST = '127.0.0.1';
+const DEFAULT_PORT = 3000;
+
+/**
+ * Parse command line flags, falling back to SAFE_MCP_* environment variables.
+ *
+ * Flags take precedence over the environment so a shared deployment can be
+ * configured through env and still be overridden for a one-off run.
+ */
+export function parseCliOptions(
+  argv: string[] = process.argv.slice(2),
+  env: Record<string, string | undefined> = process.env
+): CliOptions {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    options: {
+      transport: { type: 'string' },
+      host: { type: 'string' },
+      port: { type: 'string' },
+      'allowed-hosts': { type: 'string' },
+      'auth-token': { type: 'string' },
+      'read-only': { type: 'boolean' },
+      config: { type: 'string' },
+      profile: { type: 'string' },
+      'audit-log': { type: 'string' },
+      policy: { type: 'string' },
+    },
+    strict: true,
+    allowPositionals: true,
+  });
+
+  const transport = values.transport || env.SAFE_MCP_TRANSPORT || undefined;
+  if (
+    transport !== undefined &&
+    transport !== 'stdio' &&
+    transport !== 'http'
+  ) {
+    throw new SafeError(
+      `Invalid transport '${transport}'. Expected 'stdio' or 'http'`,
+      ErrorCodes.CONFIGURATION_ERROR,
+      { transport }
+    );
+  }
+
+  const portValue = values.port || env.SAFE_MCP_PORT;
+  const port = portValue ? Number(portValue) : undefined;
+  if (
+    port !== undefined &&
+    (!Number.isInteger(port) || port < 0 || port > 65535)
+  ) {
+    throw new SafeError(
+      `Invalid port '${portValue}'`,
+      ErrorCodes.CONFIGURATION_ERROR,
+      { port: portValue }
+    );
+  }
+
+  return {
+    transport,
+    host: values.host || env.SAFE_MCP_HOST || undefined,
+    port,
+    allowedHosts: parseList(
+      values['allowed-hosts'] || env.SAFE_MCP_ALLOWED_HOSTS
+    ),
+    authToken: values['auth-token'] || env.SAFE_MCP_AUTH_TOKEN || undefined,
+    readOnly: values['read-only'] ?? isTruthy(env.SAFE_MCP_READ_ONLY),
+    configPath: values.config || env.SAFE_MCP_CONFIG || undefined,
+    profile: values.profile,
+    auditLogPath: values['audit-log'] || env.SAFE_MCP_AUDIT_LOG || undefined,
+    policyPath: values.policy || env.SAFE_MCP_POLICY || undefined,
+    command: positionals[0],
+    commandArgs: positionals.slice(1),
+  };
+}
+
+/**
+ * Apply the config file's server section, then the defaults, to the
+ * transport settings not given on the command line or in the environment
+ */
+export function resolveTransportOptions(
+  options: CliOptions,
+  server: ServerConfig = {}
+): TransportOptions {
+  return {
+    transport: options.transport ?? server.transport ?? 'stdio',
+    host: options.host ?? server.host ?? DEFAULT_HOST,
+    port: options.port ?? server.port ?? DEFAULT_PORT,
+    allowedHosts: options.allowedHosts ?? server.allowedHosts,
+    authToken: options.authToken ?? server.authToken,
+  };
+}
+
+/**
+ * Split a comma-separated list, ignoring empty entries
+ */
+function parseList(value: string | undefined): string[] | undefined {
+  const entries = value
+    ?.split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+  return entries && entries.length > 0 ? entries : undefined;
+}
+
+/**
+ * Interpret an environment flag such as "true", "1" or "yes"
+ */
+function isTruthy(value: string | undefined): boolean {
+  return (
+    value !== undefined && ['1', 'true', 'yes'].includes(value.toLowerCase())
+  );
+}
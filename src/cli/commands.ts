@@ -0,0 +1,92 @@
+import { AuditLog } from '../audit/AuditLog.js';
+import { ConfigLoader, formatConfigIssues } from '../config/ConfigLoader.js';
+import { ConfigValidator } from '../config/ConfigValidator.js';
+import { SafeError, ErrorCodes } from '../utils/SafeError.js';
+import { redactText } from '../utils/redact.js';
+
+/**
+ * CLI subcommand returning the process exit code
+ */
+type CommandHandler = (args: string[]) => Promise<number>;
+
+const commands: Record<string, CommandHandler> = {
+  'verify-audit-log': verifyAuditLog,
+  'config-schema': printConfigSchema,
+  'validate-config': validateConfig,
+};
+
+/**
+ * Run a CLI subcommand
+ */
+export async function runCommand(
+  command: string,
+  args: string[]
+): Promise<number> {
+  const handler = commands[command];
+  if (!handler) {
+    throw new SafeError(
+      `Unknown command '${command}'`,
+      ErrorCodes.INVALID_INPUT,
+      { command, availableCommands: Object.keys(commands) }
+    );
+  }
+  return await handler(args);
+}
+
+/**
+ * Verify the hash chain of an audit log: verify-audit-log <file>
+ */
+async function verifyAuditLog(args: string[]): Promise<number> {
+  const filePath = args[0];
+  if (!filePath) {
+    console.error('Usage: safe-mcp-server verify-audit-log <file>');
+    return 2;
+  }
+
+  const result = await AuditLog.verify(filePath);
+  if (result.valid) {
+    console.log(
+      `Audit log OK: ${result.entries} entries, last hash ${result.lastHash}`
+    );
+    return 0;
+  }
+
+  console.error(
+    `Audit log verification FAILED at line ${result.error?.line}: ${result.error?.message} (${result.entries} valid entries before it)`
+  );
+  return 1;
+}
+
+/**
+ * Print the JSON Schema of the configuration file: config-schema
+ */
+async function printConfigSchema(): Promise<number> {
+  console.log(JSON.stringify(new ConfigValidator().getJsonSchema(), null, 2));
+  return 0;
+}
+
+/**
+ * Check a configuration file the way the server would load it (defaults,
+ * file, environment, secret references): validate-config <file>. Secret
+ * references are resolved too, so cmd: references run their commands.
+ */
+async function validateConfig(args: string[]): Promise<number> {
+  const filePath = args[0];
+  if (!filePath) {
+    console.error('Usage: safe-mcp-server validate-config <file>');
+    return 2;
+  }
+
+  try {
+    const config = await new ConfigLoader().load(filePath);
+    console.log(
+      `Config OK: ${Object.keys(config.networks ?? {}).length} networks, ${Object.keys(config.profiles ?? {}).length} profiles, ${Object.keys(config.signers ?? {}).length} signers`
+    );
+    return 0;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Config ${filePath} is invalid: ${redactText(message)}`);
+    formatConfigIssues(error).forEach((line) => console.error(line));
+    return 1;
+  }
+}
@@ -0,0 +1,62 @@
+import { ConfigLoader } from './ConfigLoader.js';
+import { ErrorCodes, SafeError } from '../utils/SafeError.js';
+
+describe('ConfigLoader', () => {
+  const savedEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...savedEnv };
+  });
+
+  it('parses numeric network settings from the environment', () => {
+    process.env.SAFE_RPC_EIP155_1 = 'https://rpc.example.com';
+    process.env.SAFE_RPC_TIMEOUT_EIP155_1 = '5000';
+
+    expect(new ConfigLoader().loadFromEnv().networks?.['eip155:1']).toEqual({
+      rpcUrl: 'https://rpc.example.com',
+      timeout: 5000,
+    });
+  });
+
+  it('reports environment values that are not numbers', async () => {
+    process.env.SAFE_RPC_EIP155_1 = 'https://rpc.example.com';
+    process.env.SAFE_RPC_RETRIES_EIP155_1 = 'three';
+
+    await expect(new ConfigLoader().load()).rejects.toMatchObject({
+      code: ErrorCodes.CONFIGURATION_ERROR,
+      details: {
+        issues: [
+          {
+            path: ['networks', 'eip155:1', 'retries'],
+            message: "SAFE_RPC_RETRIES_EIP155_1 must be a number, got 'three'",
+          },
+        ],
+      },
+    });
+  });
+
+  it('keeps resolved secrets out of validation errors', async () => {
+    process.env.LOADER_TEST_RPC_URL = 'not-a-url-rpc-secret-8841';
+
+    const error = (await new ConfigLoader()
+      .load(undefined, {
+        networks: { 'eip155:1': { rpcUrl: 'env:LOADER_TEST_RPC_URL' } },
+      })
+      .catch((caught: SafeError) => caught)) as SafeError;
+
+    expect(error).toMatchObject({
+      code: ErrorCodes.CONFIGURATION_ERROR,
+      details: {
+        issues: [
+          {
+            path: ['networks', 'eip155:1', 'rpcUrl'],
+            message: 'Must be a valid URL',
+          },
+        ],
+      },
+    });
+    expect(`${error.message} ${JSON.stringify(error.toJSON())}`).not.toContain(
+      'rpc-secret-8841'
+    );
+  });
+});
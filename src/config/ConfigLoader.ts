@@ -1,14 +1,83 @@
 import * as fs from 'fs/promises';
-import { SafeConfig } from './types.js';
+import {
+  NetworkConfig,
+  SafeConfig,
+  SignerConfig,
+  ToolProfileConfig,
+} from './types.js';
+import { ConfigMerger } from './ConfigMerger.js';
+import { ConfigValidator } from './ConfigValidator.js';
+import { DEFAULT_CONFIG } from './defaults.js';
+import { SecretResolver } from './SecretResolver.js';
+import { SafeError, ErrorCodes } from '../utils/SafeError.js';
+
+/**
+ * Format the validation issues attached to a configuration error, one line
+ * per issue
+ */
+export function formatConfigIssues(error: unknown): string[] {
+  const issues =
+    error instanceof SafeError && Array.isArray(error.details?.issues)
+      ? (error.details.issues as Array<{ path: string[]; message: string }>)
+      : [];
+  return issues.map(
+    (issue) => `  - ${issue.path.join('.') || '(root)'}: ${issue.message}`
+  );
+}
 
 /**
  * Configuration loader that supports multiple sources
  */
 export class ConfigLoader {
+  /** Environment values that could not be parsed by the last loadFromEnv */
+  private envIssues: Array<{ path: string[]; message: string }> = [];
+
   /**
-   * Load configuration from environment variables
+   * Load the effective configuration: defaults, then the config file, then
+   * environment variables, then runtime overrides. Secret references
+   * (env:, file:, cmd:) in network settings are resolved before validation.
+   * Throws a CONFIGURATION_ERROR listing every validation issue when the
+   * merged result is invalid.
+   */
+  async load(
+    filePath?: string,
+    runtimeConfig: SafeConfig = {}
+  ): Promise<SafeConfig> {
+    const merged = new ConfigMerger().mergeConfigs(
+      DEFAULT_CONFIG,
+      filePath ? await this.loadFromFile(filePath) : {},
+      this.loadFromEnv(),
+      runtimeConfig
+    );
+
+    const secretIssues = await new SecretResolver().resolveConfig(merged);
+    if (secretIssues.length > 0) {
+      throw new SafeError(
+        'Cannot resolve secret references',
+        ErrorCodes.CONFIGURATION_ERROR,
+        { filePath, issues: secretIssues }
+      );
+    }
+
+    const validation = new ConfigValidator().validateConfig(merged);
+    const issues = [...this.envIssues, ...(validation.error?.issues ?? [])];
+    if (!validation.success || !validation.data || issues.length > 0) {
+      throw new SafeError(
+        validation.error?.message ?? 'Configuration validation failed',
+        ErrorCodes.CONFIGURATION_ERROR,
+        { filePath, issues }
+      );
+    }
+
+    return validation.data;
+  }
+
+  /**
+   * Load configuration from environment variables; values that cannot be
+   * parsed are left out and reported by load
    */
   loadFromEnv(): SafeConfig {
+    this.envIssues = [];
     const config: SafeConfig = {
       networks: {},
       apiKeys: {},
@@ -20,11 +89,22 @@ export class ConfigLoader {
     // Parse API keys
     config.apiKeys = this.parseApiKeys(process.env);
 
+    // Parse tool profiles
+    config.profiles = this.parseProfiles(process.env);
+
+    // Parse named signers
+    config.signers = this.parseSigners(process.env);
+
     // Set default network if specified
     if (process.env.SAFE_DEFAULT_NETWORK) {
       config.defaultNetwork = process.env.SAFE_DEFAULT_NETWORK;
     }
 
+    // Select the active tool profile if specified
+    if (process.env.SAFE_MCP_PROFILE) {
+      config.activeProfile = process.env.SAFE_MCP_PROFILE;
+    }
+
     // Clean up empty objects
     if (Object.keys(config.networks).length === 0) {
       delete config.networks;
@@ -32,49 +112,240 @@ export class ConfigLoader {
     if (Object.keys(config.apiKeys).length === 0) {
       delete config.apiKeys;
     }
+    if (Object.keys(config.profiles).length === 0) {
+      delete config.profiles;
+    }
+    if (Object.keys(config.signers).length === 0) {
+      delete config.signers;
+    }
 
     return config;
   }
 
   /**
    * Load configuration from a file path or object
+   *
+   * A file that cannot be read or parsed is a CONFIGURATION_ERROR, so a
+   * mistyped --config path is reported instead of silently ignored.
    */
   async loadFromFile(filePathOrObject: string | object): Promise<SafeConfig> {
-    try {
-      if (typeof filePathOrObject === 'object') {
-        return filePathOrObject as SafeConfig;
-      }
+    if (typeof filePathOrObject === 'object') {
+      return filePathOrObject as SafeConfig;
+    }
 
+    try {
       const content = await fs.readFile(filePathOrObject, 'utf-8');
       return JSON.parse(content) as SafeConfig;
     } catch (error) {
-      // Return empty config if file doesn't exist or can't be parsed
-      return {};
+      throw new SafeError(
+        `Cannot load config file ${filePathOrObject}: ${error instanceof Error ? error.message : String(error)}`,
+        ErrorCodes.CONFIGURATION_ERROR,
+        { filePath: filePathOrObject }
+      );
     }
   }
 
   /**
    * Parse CAIP-2 network configurations from environment variables
+   *
+   * SAFE_RPC_EIP155_<id> holds the RPC URL followed by optional
+   * comma-separated fallbacks. SAFE_TX_SERVICE_EIP155_<id>,
+   * SAFE_EXPLORER_EIP155_<id>, SAFE_RPC_TIMEOUT_EIP155_<id>,
+   * SAFE_RPC_RETRIES_EIP155_<id> and SAFE_CONFIRMATIONS_EIP155_<id> set the
+   * remaining network fields. Numeric values that are not numbers are
+   * recorded as issues; the rest are checked by the validator.
    */
   parseCAIP2Networks(
     env: Record<string, string | undefined>
-  ): Record<string, { rpcUrl: string }> {
-    const networks: Record<string, { rpcUrl: string }> = {};
+  ): Record<string, NetworkConfig> {
+    const networks: Record<string, Partial<NetworkConfig>> = {};
+    const pattern =
+      /^SAFE_(RPC|TX_SERVICE|EXPLORER|RPC_TIMEOUT|RPC_RETRIES|CONFIRMATIONS)_EIP155_(\d+)$/;
+
+    for (const [key, value] of Object.entries(env)) {
+      const match = pattern.exec(key);
+      if (!match || !value) {
+        continue;
+      }
+
+      const networkId = `eip155:${match[2]}`;
+      const network = (networks[networkId] ??= {});
+      switch (match[1]) {
+        case 'RPC': {
+          const [rpcUrl, ...fallbackRpcUrls] = value
+            .split(',')
+            .map((url) => url.trim())
+            .filter((url) => url.length > 0);
+          network.rpcUrl = rpcUrl ?? '';
+          if (fallbackRpcUrls.length > 0) {
+            network.fallbackRpcUrls = fallbackRpcUrls;
+          }
+          break;
+        }
+        case 'TX_SERVICE':
+          network.transactionService = value;
+          break;
+        case 'EXPLORER':
+          network.explorerUrl = value;
+          break;
+        case 'RPC_TIMEOUT':
+          network.timeout = this.parseNumber(value, key, [
+            'networks',
+            networkId,
+            'timeout',
+          ]);
+          break;
+        case 'RPC_RETRIES':
+          network.retries = this.parseNumber(value, key, [
+            'networks',
+            networkId,
+            'retries',
+          ]);
+          break;
+        case 'CONFIRMATIONS':
+          network.confirmations = this.parseNumber(value, key, [
+            'networks',
+            networkId,
+            'confirmations',
+          ]);
+          break;
+      }
+    }
+
+    // Networks without an RPC URL only refine a network defined elsewhere;
+    // the validator rejects them if nothing else provides the URL
+    return networks as Record<string, NetworkConfig>;
+  }
+
+  /**
+   * Parse a numeric environment value; anything else is recorded as an
+   * issue at the config path it would have set, and left out
+   */
+  private parseNumber(
+    value: string,
+    variable: string,
+    path: string[]
+  ): number | undefined {
+    const parsed = Number(value);
+    if (value.trim() !== '' && Number.isFinite(parsed)) {
+      return parsed;
+    }
+    this.envIssues.push({
+      path,
+      message: `${variable} must be a number, got '${value}'`,
+    });
+    return undefined;
+  }
+
+  /**
+   * Parse tool profiles from environment variables
+   *
+   * SAFE_PROFILE_<NAME>_ALLOW, SAFE_PROFILE_<NAME>_DENY and
+   * SAFE_PROFILE_<NAME>_NETWORKS hold comma-separated lists. The profile name
+   * is lower-cased with underscores turned into hyphens, so
+   * SAFE_PROFILE_TREASURY_OPS_ALLOW defines the treasury-ops profile.
+   */
+  parseProfiles(
+    env: Record<string, string | undefined>
+  ): Record<string, ToolProfileConfig> {
+    const profiles: Record<string, ToolProfileConfig> = {};
+    const fieldMapping = {
+      ALLOW: 'allow',
+      DENY: 'deny',
+      NETWORKS: 'networks',
+    } as const;
 
-    // Look for SAFE_RPC_EIP155_* environment variables
     for (const [key, value] of Object.entries(env)) {
-      if (key.startsWith('SAFE_RPC_EIP155_') && value) {
-        // Extract chain ID from environment variable name
-        const chainId = key.replace('SAFE_RPC_EIP155_', '');
-        const networkId = `eip155:${chainId}`;
+      const match = /^SAFE_PROFILE_(.+)_(ALLOW|DENY|NETWORKS)$/.exec(key);
+      if (!match || value === undefined) {
+        continue;
+      }
+
+      const name = match[1]!.toLowerCase().replace(/_/g, '-');
+      const field = fieldMapping[match[2] as keyof typeof fieldMapping];
+      const profile = (profiles[name] ??= {});
+      profile[field] = value
+        .split(',')
+        .map((entry) => entry.trim())
+        .filter((entry) => entry.length > 0);
+    }
 
-        networks[networkId] = {
-          rpcUrl: value,
+    return profiles;
+  }
+
+  /**
+   * Parse named signers from environment variables
+   *
+   * A keystore signer is defined by SAFE_SIGNER_<NAME>_KEYSTORE (path of a
+   * V3 keystore file) plus SAFE_SIGNER_<NAME>_PASSPHRASE_FILE or
+   * SAFE_SIGNER_<NAME>_PASSPHRASE_ENV. A mnemonic signer is defined by
+   * SAFE_SIGNER_<NAME>_MNEMONIC_FILE or SAFE_SIGNER_<NAME>_MNEMONIC_ENV plus
+   * an optional SAFE_SIGNER_<NAME>_INDEX or SAFE_SIGNER_<NAME>_PATH. A remote
+   * signer is defined by SAFE_SIGNER_<NAME>_REMOTE_URL and
+   * SAFE_SIGNER_<NAME>_ADDRESS plus an optional
+   * SAFE_SIGNER_<NAME>_AUTH_TOKEN_FILE or SAFE_SIGNER_<NAME>_AUTH_TOKEN_ENV.
+   * Names follow the same rules as profiles, so
+   * SAFE_SIGNER_OPS_KEY_1_KEYSTORE defines ops-key-1.
+   */
+  parseSigners(
+    env: Record<string, string | undefined>
+  ): Record<string, SignerConfig> {
+    const signers: Record<string, SignerConfig> = {};
+
+    for (const [key, value] of Object.entries(env)) {
+      const match =
+        /^SAFE_SIGNER_(.+)_(KEYSTORE|MNEMONIC_FILE|MNEMONIC_ENV|REMOTE_URL)$/.exec(
+          key
+        );
+      if (!match || !value) {
+        continue;
+      }
+
+      const prefix = `SAFE_SIGNER_${match[1]}`;
+      const name = match[1]!.toLowerCase().replace(/_/g, '-');
+      const passphraseFile = env[`${prefix}_PASSPHRASE_FILE`] || undefined;
+      const passphraseEnv = env[`${prefix}_PASSPHRASE_ENV`] || undefined;
+
+      if (match[2] === 'KEYSTORE') {
+        signers[name] = {
+          type: 'keystore',
+          path: value,
+          passphraseFile,
+          passphraseEnv,
         };
+        continue;
       }
+
+      if (match[2] === 'REMOTE_URL') {
+        signers[name] = {
+          type: 'remote',
+          url: value,
+          address: env[`${prefix}_ADDRESS`] ?? '',
+          authTokenFile: env[`${prefix}_AUTH_TOKEN_FILE`] || undefined,
+          authTokenEnv: env[`${prefix}_AUTH_TOKEN_ENV`] || undefined,
+        };
+        continue;
+      }
+
+      const index = env[`${prefix}_INDEX`];
+      signers[name] = {
+        type: 'mnemonic',
+        mnemonicFile: env[`${prefix}_MNEMONIC_FILE`] || undefined,
+        mnemonicEnv: env[`${prefix}_MNEMONIC_ENV`] || undefined,
+        passphraseFile,
+        passphraseEnv,
+        index: index
+          ? this.parseNumber(index, `${prefix}_INDEX`, [
+              'signers',
+              name,
+              'index',
+            ])
+          : undefined,
+        path: env[`${prefix}_PATH`] || undefined,
+      };
     }
 
-    return networks;
+    return signers;
   }
 
   /**
@@ -102,6 +102,41 @@ export class ConfigMerger {
       }
     }
 
+    // Handle activeProfile
+    if (source.activeProfile !== undefined) {
+      result.activeProfile = source.activeProfile;
+    }
+
+    // Handle profiles (a profile from a higher priority source replaces the
+    // whole profile so allow/deny lists are never mixed between sources)
+    if (source.profiles) {
+      result.profiles = {
+        ...result.profiles,
+        ...this.deepClone({ profiles: source.profiles }).profiles,
+      };
+    }
+
+    // Handle signers (each signer is replaced as a whole)
+    if (source.signers) {
+      result.signers = {
+        ...result.signers,
+        ...this.deepClone({ signers: source.signers }).signers,
+      };
+    }
+
+    // Handle approval (replaced as a whole so tool lists are never mixed)
+    if (source.approval) {
+      result.approval = this.deepClone({ approval: source.approval }).approval;
+    }
+
+    // Handle server (field by field)
+    if (source.server) {
+      result.server = {
+        ...result.server,
+        ...this.deepClone({ server: source.server }).server,
+      };
+    }
+
     // Handle apiKeys
     if (source.apiKeys) {
       if (!result.apiKeys) {
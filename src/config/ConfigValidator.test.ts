@@ -0,0 +1,32 @@
+import { ConfigValidator } from './ConfigValidator.js';
+
+describe('ConfigValidator', () => {
+  const validator = new ConfigValidator();
+
+  it('accepts a configuration with known keys', () => {
+    expect(
+      validator.validateConfig({
+        defaultNetwork: 'eip155:1',
+        networks: { 'eip155:1': { rpcUrl: 'https://rpc.example.com' } },
+      }).success
+    ).toBe(true);
+  });
+
+  it('reports misspelt keys instead of ignoring them', () => {
+    const result = validator.validateConfig({
+      defualtNetwork: 'eip155:1',
+      networks: {
+        'eip155:1': { rpcUrl: 'https://rpc.example.com', timout: 5000 },
+      },
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues).toEqual([
+      {
+        path: ['networks', 'eip155:1'],
+        message: expect.stringContaining("'timout'"),
+      },
+      { path: [], message: expect.stringContaining("'defualtNetwork'") },
+    ]);
+  });
+});
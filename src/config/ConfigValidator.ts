@@ -1,5 +1,7 @@
 import { z } from 'zod';
-import { SafeConfig, ValidationResult } from './types';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { SafeConfig, ToolProfileConfig, ValidationResult } from './types';
+import { APPROVAL_TOOLS } from './NetworkDefaults.js';
 
 /**
  * Zod schema for CAIP-2 network identifier validation
@@ -15,16 +17,58 @@ const EthereumAddressSchema = z.string().regex(/^0x[a-fA-F0-9]{40}$/, {
   message: 'Must be a valid Ethereum address',
 });
 
+/**
+ * Zod schema for the name of a tool that supports approval
+ */
+const ApprovalToolSchema = z.enum(APPROVAL_TOOLS);
+
 /**
  * Zod schema for network configuration
  */
-const NetworkConfigSchema = z.object({
-  rpcUrl: z.string().url('Must be a valid URL'),
-  apiKey: z.string().optional(),
-  timeout: z.number().positive().optional(),
-  retries: z.number().min(0).optional(),
-  transactionService: z.string().url().optional(),
-});
+const NetworkConfigSchema = z
+  .object({
+    rpcUrl: z.string().url('Must be a valid URL'),
+    fallbackRpcUrls: z.array(z.string().url('Must be a valid URL')).optional(),
+    apiKey: z.string().optional(),
+    timeout: z.number().positive().optional(),
+    retries: z.number().int().min(0).optional(),
+    transactionService: z.string().url().optional(),
+    explorerUrl: z.string().url('Must be a valid URL').optional(),
+    confirmations: z.number().int().min(0).optional(),
+    safeVersion: z
+      .enum(['1.4.1', '1.3.0', '1.2.0', '1.1.1', '1.0.0'])
+      .optional(),
+    useL2Singleton: z.boolean().optional(),
+    gasStrategy: z.enum(['provider', 'legacy', 'eip1559']).optional(),
+    requireConfirmation: z.boolean().optional(),
+    requireApproval: z
+      .union([z.boolean(), z.array(ApprovalToolSchema)])
+      .optional(),
+  })
+  .strict();
+
+/**
+ * Zod schema for human approval through MCP elicitation
+ */
+const ApprovalConfigSchema = z
+  .object({
+    tools: z.array(ApprovalToolSchema).optional(),
+    timeout: z.number().positive().optional(),
+  })
+  .strict();
+
+/**
+ * Zod schema for the transport settings
+ */
+const ServerConfigSchema = z
+  .object({
+    transport: z.enum(['stdio', 'http']).optional(),
+    host: z.string().min(1).optional(),
+    port: z.number().int().min(0).max(65535).optional(),
+    allowedHosts: z.array(z.string().min(1)).optional(),
+    authToken: z.string().min(1).optional(),
+  })
+  .strict();
 
 /**
  * Zod schema for API keys configuration
@@ -41,17 +85,119 @@ const ApiKeysConfigSchema = z
     xai: z.string().optional(),
     ollama: z.string().optional(),
   })
+  .strict()
   .optional();
 
 /**
- * Main configuration schema
+ * Zod schema for a named tool profile
  */
-const SafeConfigSchema = z.object({
-  defaultNetwork: CAIP2Schema.optional(),
-  networks: z.record(CAIP2Schema, NetworkConfigSchema).optional(),
-  apiKeys: ApiKeysConfigSchema,
+const ToolProfileSchema = z
+  .object({
+    allow: z.array(z.string().min(1)).optional(),
+    deny: z.array(z.string().min(1)).optional(),
+    networks: z.array(CAIP2Schema).optional(),
+  })
+  .strict();
+
+/**
+ * Zod schema for profile names (e.g., treasury-ops)
+ */
+const ProfileNameSchema = z.string().regex(/^[a-zA-Z0-9][a-zA-Z0-9_-]*$/, {
+  message: 'Profile names may only contain letters, digits, - and _',
+});
+
+/**
+ * Zod schema for signer names (e.g., ops-key-1)
+ */
+const SignerNameSchema = z.string().regex(/^[a-zA-Z0-9][a-zA-Z0-9_-]*$/, {
+  message: 'Signer names may only contain letters, digits, - and _',
 });
 
+/**
+ * Zod schema for a keystore signer
+ */
+const KeystoreSignerSchema = z
+  .object({
+    type: z.literal('keystore'),
+    path: z.string().min(1),
+    passphraseEnv: z.string().min(1).optional(),
+    passphraseFile: z.string().min(1).optional(),
+  })
+  .strict()
+  .refine(
+    (signer) =>
+      signer.passphraseEnv !== undefined || signer.passphraseFile !== undefined,
+    { message: 'Keystore signers need passphraseEnv or passphraseFile' }
+  );
+
+/**
+ * Zod schema for a mnemonic (HD wallet) signer
+ */
+const MnemonicSignerSchema = z
+  .object({
+    type: z.literal('mnemonic'),
+    mnemonicEnv: z.string().min(1).optional(),
+    mnemonicFile: z.string().min(1).optional(),
+    passphraseEnv: z.string().min(1).optional(),
+    passphraseFile: z.string().min(1).optional(),
+    index: z.number().int().min(0).optional(),
+    path: z
+      .string()
+      .regex(/^m(\/\d+'?)+$/, {
+        message: "Must be a derivation path such as m/44'/60'/0'/0/0",
+      })
+      .optional(),
+  })
+  .strict()
+  .refine(
+    (signer) =>
+      signer.mnemonicEnv !== undefined || signer.mnemonicFile !== undefined,
+    { message: 'Mnemonic signers need mnemonicEnv or mnemonicFile' }
+  )
+  .refine((signer) => signer.index === undefined || signer.path === undefined, {
+    message: 'Use either index or path, not both',
+  });
+
+/**
+ * Zod schema for a remote (JSON-RPC signing daemon) signer
+ */
+const RemoteSignerSchema = z
+  .object({
+    type: z.literal('remote'),
+    url: z.string().url('Must be a valid URL'),
+    address: EthereumAddressSchema,
+    authTokenEnv: z.string().min(1).optional(),
+    authTokenFile: z.string().min(1).optional(),
+    timeout: z.number().positive().optional(),
+  })
+  .strict();
+
+/**
+ * Zod schema for a named signer
+ */
+const SignerSchema = z.union([
+  KeystoreSignerSchema,
+  MnemonicSignerSchema,
+  RemoteSignerSchema,
+]);
+
+/**
+ * Main configuration schema; every object rejects keys it does not
+ * define, so a misspelt setting is reported instead of silently ignored
+ */
+const SafeConfigSchema = z
+  .object({
+    defaultNetwork: CAIP2Schema.optional(),
+    networks: z.record(CAIP2Schema, NetworkConfigSchema).optional(),
+    apiKeys: ApiKeysConfigSchema,
+    profiles: z.record(ProfileNameSchema, ToolProfileSchema).optional(),
+    activeProfile: ProfileNameSchema.optional(),
+    signers: z.record(SignerNameSchema, SignerSchema).optional(),
+    approval: ApprovalConfigSchema.optional(),
+    server: ServerConfigSchema.optional(),
+  })
+  .strict();
+
 /**
  * Configuration validator using Zod schemas
  */
@@ -62,8 +208,17 @@ export class ConfigValidator {
   validateConfig(config: unknown): ValidationResult<SafeConfig> {
     try {
       const result = SafeConfigSchema.safeParse(config);
+      const issues = [
+        ...(result.success
+          ? []
+          : result.error.issues.map((issue) => ({
+              path: issue.path.map(String),
+              message: issue.message,
+            }))),
+        ...this.checkReferences(config),
+      ];
 
-      if (result.success) {
+      if (result.success && issues.length === 0) {
         return {
           success: true,
           data: result.data,
@@ -74,10 +229,7 @@ export class ConfigValidator {
         success: false,
         error: {
           message: 'Configuration validation failed',
-          issues: result.error.issues.map((issue) => ({
-            path: issue.path.map(String),
-            message: issue.message,
-          })),
+          issues,
         },
       };
     } catch (error) {
@@ -91,6 +243,77 @@ export class ConfigValidator {
     }
   }
 
+  /**
+   * Cross-field checks: names that refer to other parts of the config must
+   * exist there. Runs on the raw input so these issues are reported together
+   * with schema issues.
+   */
+  private checkReferences(
+    config: unknown
+  ): Array<{ path: string[]; message: string }> {
+    if (!config || typeof config !== 'object') {
+      return [];
+    }
+
+    const issues: Array<{ path: string[]; message: string }> = [];
+    const { defaultNetwork, networks, activeProfile, profiles } =
+      config as Record<string, unknown>;
+    const networkIds = new Set(
+      networks && typeof networks === 'object' ? Object.keys(networks) : []
+    );
+    const profileMap =
+      profiles && typeof profiles === 'object'
+        ? (profiles as Record<string, unknown>)
+        : {};
+
+    if (typeof defaultNetwork === 'string' && !networkIds.has(defaultNetwork)) {
+      issues.push({
+        path: ['defaultNetwork'],
+        message: `Network ${defaultNetwork} is not defined in networks`,
+      });
+    }
+
+    if (typeof activeProfile === 'string' && !(activeProfile in profileMap)) {
+      issues.push({
+        path: ['activeProfile'],
+        message: `Profile ${activeProfile} is not defined in profiles`,
+      });
+    }
+
+    for (const [name, profile] of Object.entries(profileMap)) {
+      const profileNetworks = (profile as ToolProfileConfig | undefined)
+        ?.networks;
+      if (!Array.isArray(profileNetworks)) {
+        continue;
+      }
+      profileNetworks.forEach((networkId, index) => {
+        if (typeof networkId === 'string' && !networkIds.has(networkId)) {
+          issues.push({
+            path: ['profiles', name, 'networks', String(index)],
+            message: `Network ${networkId} is not defined in networks`,
+          });
+        }
+      });
+    }
+
+    return issues;
+  }
+
+  /**
+   * JSON Schema of the configuration file, for editors and CI checks
+   */
+  getJsonSchema(): object {
+    // zod-to-json-schema is typed against the zod/v3 entry point, which is
+    // the same runtime as 'zod' but a distinct set of declarations
+    const schema = SafeConfigSchema as unknown as Parameters<
+      typeof zodToJsonSchema
+    >[0];
+    return zodToJsonSchema(schema, {
+      name: 'SafeConfig',
+      $refStrategy: 'none',
+    });
+  }
+
   /**
    * Validate CAIP-2 network identifier
    */
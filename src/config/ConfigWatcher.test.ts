@@ -0,0 +1,97 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigWatcher } from './ConfigWatcher.js';
+import { SafeConfig } from './types.js';
+
+const initial: SafeConfig = { defaultNetwork: 'eip155:1' };
+
+async function waitFor(check: () => boolean, timeoutMs = 3000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
+
+describe('ConfigWatcher', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('applies a changed configuration', async () => {
+    const onReload = jest.fn();
+    const watcher = new ConfigWatcher(
+      'config.json',
+      () => Promise.resolve({ defaultNetwork: 'eip155:10' }),
+      onReload,
+      initial
+    );
+
+    await expect(watcher.reload()).resolves.toBe(true);
+    expect(onReload).toHaveBeenCalledWith({ defaultNetwork: 'eip155:10' });
+    // The same content again is not a change
+    await expect(watcher.reload()).resolves.toBe(false);
+    expect(onReload).toHaveBeenCalledTimes(1);
+  });
+
+  it('ignores unchanged, invalid and rejected configurations', async () => {
+    const load = jest
+      .fn<Promise<SafeConfig>, []>()
+      .mockResolvedValueOnce(initial)
+      .mockRejectedValueOnce(new Error('Unexpected token'))
+      .mockResolvedValueOnce({ defaultNetwork: 'eip155:10' })
+      .mockResolvedValueOnce({ defaultNetwork: 'eip155:10' });
+    const onReload = jest
+      .fn()
+      .mockImplementationOnce(() => {
+        throw new Error('Unknown network');
+      })
+      .mockImplementationOnce(() => undefined);
+    const watcher = new ConfigWatcher('config.json', load, onReload, initial);
+
+    await expect(watcher.reload()).resolves.toBe(false);
+    await expect(watcher.reload()).resolves.toBe(false);
+    expect(onReload).not.toHaveBeenCalled();
+    // A configuration the listener refuses is offered again next time
+    await expect(watcher.reload()).resolves.toBe(false);
+    await expect(watcher.reload()).resolves.toBe(true);
+    expect(onReload).toHaveBeenCalledTimes(2);
+  });
+
+  it('reloads once after a burst of writes to the file', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'config-watcher-'));
+    const filePath = path.join(dir, 'config.json');
+    await fs.writeFile(filePath, JSON.stringify(initial));
+    const load = jest.fn(
+      async () => JSON.parse(await fs.readFile(filePath, 'utf8')) as SafeConfig
+    );
+    const onReload = jest.fn();
+    const watcher = new ConfigWatcher(filePath, load, onReload, initial);
+    watcher.start();
+
+    try {
+      await fs.writeFile(filePath, JSON.stringify({ defaultNetwork: 'a' }));
+      await fs.writeFile(filePath, JSON.stringify({ defaultNetwork: 'b' }));
+      await fs.writeFile(
+        filePath,
+        JSON.stringify({ defaultNetwork: 'eip155:10' })
+      );
+      // A change to another file in the directory is not a reload
+      await fs.writeFile(path.join(dir, 'other.json'), '{}');
+
+      await waitFor(() => onReload.mock.calls.length > 0);
+      expect(load).toHaveBeenCalledTimes(1);
+      expect(onReload).toHaveBeenCalledWith({ defaultNetwork: 'eip155:10' });
+    } finally {
+      watcher.close();
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,93 @@
+import { watch, FSWatcher } from 'fs';
+import { basename, dirname } from 'path';
+import { SafeConfig } from './types.js';
+import { formatConfigIssues } from './ConfigLoader.js';
+import { redactError } from '../utils/redact.js';
+
+/**
+ * Editors often write a file in several steps; wait for them to settle
+ */
+const RELOAD_DELAY_MS = 250;
+
+/**
+ * Watches the configuration file and hands every valid change to a
+ * listener
+ *
+ * The parent directory is watched rather than the file itself so that
+ * editors and deployment tools that replace the file atomically (write a
+ * temporary file, then rename) are picked up. Invalid changes are logged
+ * and ignored; the previous configuration stays active.
+ */
+export class ConfigWatcher {
+  private watcher: FSWatcher | undefined;
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private current: string;
+
+  constructor(
+    private filePath: string,
+    private load: () => Promise<SafeConfig>,
+    private onReload: (config: SafeConfig) => void,
+    initialConfig: SafeConfig
+  ) {
+    this.current = JSON.stringify(initialConfig);
+  }
+
+  /**
+   * Start watching the file
+   */
+  start(): void {
+    const fileName = basename(this.filePath);
+    this.watcher = watch(dirname(this.filePath), (_event, changed) => {
+      if (changed !== null && changed.toString() !== fileName) {
+        return;
+      }
+      clearTimeout(this.timer);
+      this.timer = setTimeout(() => void this.reload(), RELOAD_DELAY_MS);
+    });
+  }
+
+  /**
+   * Load the file again and apply it when it is valid and changed; returns
+   * whether a new configuration was applied
+   */
+  async reload(): Promise<boolean> {
+    let config: SafeConfig;
+    try {
+      config = await this.load();
+    } catch (error) {
+      console.error(
+        `Ignoring invalid configuration in ${this.filePath}:`,
+        redactError(error)
+      );
+      formatConfigIssues(error).forEach((line) => console.error(line));
+      return false;
+    }
+
+    const serialized = JSON.stringify(config);
+    if (serialized === this.current) {
+      return false;
+    }
+
+    try {
+      this.onReload(config);
+    } catch (error) {
+      console.error(
+        `Configuration in ${this.filePath} was not applied:`,
+        redactError(error)
+      );
+      return false;
+    }
+
+    this.current = serialized;
+    console.error(`Configuration reloaded from ${this.filePath}`);
+    return true;
+  }
+
+  /**
+   * Stop watching the file
+   */
+  close(): void {
+    clearTimeout(this.timer);
+    this.watcher?.close();
+  }
+}
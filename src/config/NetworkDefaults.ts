@@ -0,0 +1,113 @@
+import {
+  GasStrategy,
+  NetworkConfig,
+  SafeConfig,
+  SafeVersion,
+} from './types.js';
+import { DEFAULT_CONFIG } from './defaults.js';
+import { SafeError, ErrorCodes } from '../utils/SafeError.js';
+
+/**
+ * Tools that can ask the user for approval before they act
+ */
+export const APPROVAL_TOOLS = [
+  'safe_execute_transaction',
+  'safe_execute_with_signatures',
+  'safe_sign_transaction',
+  'safe_add_owner',
+  'safe_remove_owner',
+  'safe_change_threshold',
+  'safe_deploy_wallet',
+  'safe_deploy_infrastructure',
+] as const;
+
+export type ApprovalTool = (typeof APPROVAL_TOOLS)[number];
+
+/**
+ * Per-network operational defaults for write tools
+ *
+ * Every getter takes the value the caller passed, if any, and falls back to
+ * the network's configuration, then to the built-in behaviour.
+ */
+export class NetworkDefaults {
+  constructor(private config: SafeConfig = DEFAULT_CONFIG) {}
+
+  /**
+   * Apply a reloaded configuration
+   */
+  updateConfig(config: SafeConfig): void {
+    this.config = config;
+  }
+
+  /**
+   * Safe version for new wallets; undefined leaves the protocol kit default
+   */
+  getSafeVersion(
+    networkId: string,
+    requested?: SafeVersion
+  ): SafeVersion | undefined {
+    return requested ?? this.getNetwork(networkId)?.safeVersion;
+  }
+
+  /**
+   * Whether new wallets use the L2 singleton; undefined leaves the protocol
+   * kit default
+   */
+  useL2Singleton(networkId: string, requested?: boolean): boolean | undefined {
+    return requested ?? this.getNetwork(networkId)?.useL2Singleton;
+  }
+
+  /**
+   * Blocks to wait for after a transaction is mined (at least one)
+   */
+  getConfirmations(networkId: string, requested?: number): number {
+    return Math.max(
+      1,
+      requested ?? this.getNetwork(networkId)?.confirmations ?? 1
+    );
+  }
+
+  /**
+   * How to price transactions sent on the network
+   */
+  getGasStrategy(networkId: string, requested?: GasStrategy): GasStrategy {
+    return requested ?? this.getNetwork(networkId)?.gasStrategy ?? 'provider';
+  }
+
+  /**
+   * Refuse a write on a network that requires confirmation unless the
+   * caller passed confirm: true
+   */
+  assertConfirmed(
+    networkId: string,
+    confirm: boolean | undefined,
+    action: Record<string, unknown>
+  ): void {
+    if (this.getNetwork(networkId)?.requireConfirmation && confirm !== true) {
+      throw new SafeError(
+        `Writes on ${networkId} require confirmation: review the action and call the tool again with confirm: true`,
+        ErrorCodes.CONFIRMATION_REQUIRED,
+        { networkId, action }
+      );
+    }
+  }
+
+  /**
+   * Whether a call to the tool on the network needs the user's approval;
+   * the network's requireApproval setting wins over approval.tools
+   */
+  requiresApproval(networkId: string, tool: ApprovalTool): boolean {
+    const networkSetting = this.getNetwork(networkId)?.requireApproval;
+    if (networkSetting !== undefined) {
+      return (
+        networkSetting === true ||
+        (Array.isArray(networkSetting) && networkSetting.includes(tool))
+      );
+    }
+    return this.config.approval?.tools?.includes(tool) ?? false;
+  }
+
+  private getNetwork(networkId: string): NetworkConfig | undefined {
+    return this.config.networks?.[networkId];
+  }
+}
@@ -0,0 +1,131 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { SecretResolver } from './SecretResolver.js';
+import { SafeConfig } from './types.js';
+import { REDACTED, redactText } from '../utils/redact.js';
+
+describe('SecretResolver', () => {
+  const savedEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...savedEnv };
+  });
+
+  describe('resolve', () => {
+    const resolver = new SecretResolver(200);
+
+    it('reads environment variables', async () => {
+      process.env.RESOLVER_TEST_SECRET = 'env-secret-value';
+
+      await expect(resolver.resolve('env:RESOLVER_TEST_SECRET')).resolves.toBe(
+        'env-secret-value'
+      );
+    });
+
+    it('reads files without their trailing newline', async () => {
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'secret-resolver-'));
+      try {
+        const file = path.join(dir, 'rpc');
+        await fs.writeFile(file, 'file-secret-value\n');
+
+        await expect(resolver.resolve(`file:${file}`)).resolves.toBe(
+          'file-secret-value'
+        );
+        await expect(
+          resolver.resolve(`file:${path.join(dir, 'missing')}`)
+        ).rejects.toThrow(/ENOENT/);
+      } finally {
+        await fs.rm(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('uses the output of commands', async () => {
+      await expect(resolver.resolve('cmd:echo cmd-secret-value')).resolves.toBe(
+        'cmd-secret-value'
+      );
+    });
+
+    it('reports a failing command by its exit code, not its output', async () => {
+      process.env.RESOLVER_TEST_SECRET = 'printed-secret-value';
+
+      const error = await resolver
+        .resolve('cmd:printf "$RESOLVER_TEST_SECRET"; exit 3')
+        .catch((caught: Error) => caught);
+
+      expect(String(error)).toContain('exit code 3');
+      expect(String(error)).not.toContain('printed-secret-value');
+    });
+
+    it('gives up on commands that run too long', async () => {
+      await expect(resolver.resolve('cmd:sleep 5')).rejects.toThrow(
+        'timed out'
+      );
+    });
+
+    it('refuses empty values', async () => {
+      process.env.RESOLVER_TEST_SECRET = '';
+
+      await expect(
+        resolver.resolve('env:RESOLVER_TEST_SECRET')
+      ).rejects.toThrow('resolved to an empty value');
+    });
+  });
+
+  it('resolves fallback RPC URLs and the transaction service and masks them', async () => {
+    process.env.FALLBACK_RPC_URL = 'https://fallback.example.com/fb-key-7731';
+    process.env.TX_SERVICE_URL = 'https://txs.example.com/txs-key-5519';
+    const config: SafeConfig = {
+      networks: {
+        'eip155:1': {
+          rpcUrl: 'https://rpc.example.com',
+          fallbackRpcUrls: [
+            'https://public.example.com',
+            'env:FALLBACK_RPC_URL',
+          ],
+          transactionService: 'env:TX_SERVICE_URL',
+        },
+      },
+    };
+
+    expect(await new SecretResolver().resolveConfig(config)).toEqual([]);
+    expect(config.networks?.['eip155:1']).toMatchObject({
+      fallbackRpcUrls: [
+        'https://public.example.com',
+        'https://fallback.example.com/fb-key-7731',
+      ],
+      transactionService: 'https://txs.example.com/txs-key-5519',
+    });
+    expect(redactText('https://fallback.example.com/fb-key-7731')).toBe(
+      REDACTED
+    );
+    expect(redactText('https://txs.example.com/txs-key-5519')).toBe(REDACTED);
+  });
+
+  it('reports a fallback RPC URL that cannot be resolved by its index', async () => {
+    const config: SafeConfig = {
+      networks: {
+        'eip155:1': {
+          rpcUrl: 'https://rpc.example.com',
+          fallbackRpcUrls: ['env:MISSING_FALLBACK_RPC_URL'],
+        },
+      },
+    };
+
+    expect(await new SecretResolver().resolveConfig(config)).toEqual([
+      {
+        path: ['networks', 'eip155:1', 'fallbackRpcUrls', '0'],
+        message: 'Environment variable MISSING_FALLBACK_RPC_URL is not set',
+      },
+    ]);
+  });
+
+  it('resolves the HTTP auth token', async () => {
+    process.env.HTTP_AUTH_TOKEN = 'http-token-value-4412';
+    const config: SafeConfig = { server: { authToken: 'env:HTTP_AUTH_TOKEN' } };
+
+    expect(await new SecretResolver().resolveConfig(config)).toEqual([]);
+    expect(config.server?.authToken).toBe('http-token-value-4412');
+    expect(redactText('http-token-value-4412')).toBe(REDACTED);
+  });
+});
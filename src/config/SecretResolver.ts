@@ -0,0 +1,184 @@
+import { exec } from 'child_process';
+import * as fs from 'fs/promises';
+import { promisify } from 'util';
+import { SafeConfig } from './types.js';
+import { registerSecret } from '../utils/redact.js';
+
+const execAsync = promisify(exec);
+
+/**
+ * Network fields that may hold a secret reference instead of a value;
+ * each entry of fallbackRpcUrls may hold one too
+ */
+const SECRET_FIELDS = ['rpcUrl', 'apiKey', 'transactionService'] as const;
+
+/**
+ * How long a cmd: reference may run before it is abandoned
+ */
+const COMMAND_TIMEOUT_MS = 10000;
+
+/**
+ * A secret reference that could not be resolved
+ */
+export interface SecretResolutionIssue {
+  path: string[];
+  message: string;
+}
+
+/**
+ * Resolves secret references in network settings and the HTTP auth token
+ *
+ * A value of `env:NAME` is read from an environment variable, `file:/path`
+ * from a file and `cmd:command` from the output of a shell command (e.g.
+ * `cmd:pass show rpc`). Every resolved value is registered for redaction so
+ * it never shows up in logs or error messages, and resolution failures
+ * name only the reference, never a value.
+ */
+export class SecretResolver {
+  constructor(private commandTimeout: number = COMMAND_TIMEOUT_MS) {}
+
+  /**
+   * Resolve all references in place; returns one issue per reference that
+   * could not be resolved
+   */
+  async resolveConfig(config: SafeConfig): Promise<SecretResolutionIssue[]> {
+    const issues: SecretResolutionIssue[] = [];
+
+    for (const [networkId, network] of Object.entries(config.networks ?? {})) {
+      for (const field of SECRET_FIELDS) {
+        const value = network[field];
+        if (value !== undefined) {
+          network[field] = await this.resolveValue(
+            value,
+            ['networks', networkId, field],
+            issues
+          );
+        }
+      }
+
+      if (network.fallbackRpcUrls) {
+        const resolved: string[] = [];
+        for (const [index, url] of network.fallbackRpcUrls.entries()) {
+          resolved.push(
+            await this.resolveValue(
+              url,
+              ['networks', networkId, 'fallbackRpcUrls', String(index)],
+              issues
+            )
+          );
+        }
+        network.fallbackRpcUrls = resolved;
+      }
+    }
+
+    const authToken = config.server?.authToken;
+    if (config.server && authToken !== undefined) {
+      if (!this.isReference(authToken)) {
+        // A token written into the file is a secret as well
+        registerSecret(authToken, { pinned: true });
+      }
+      config.server.authToken = await this.resolveValue(
+        authToken,
+        ['server', 'authToken'],
+        issues
+      );
+    }
+
+    return issues;
+  }
+
+  /**
+   * The resolved value of a reference, registered for redaction; literals
+   * and references that fail to resolve are returned unchanged, the latter
+   * with an issue
+   */
+  private async resolveValue(
+    value: string,
+    path: string[],
+    issues: SecretResolutionIssue[]
+  ): Promise<string> {
+    if (!this.isReference(value)) {
+      return value;
+    }
+
+    try {
+      const resolved = await this.resolve(value);
+      registerSecret(resolved, { pinned: true });
+      return resolved;
+    } catch (error) {
+      issues.push({
+        path,
+        message: error instanceof Error ? error.message : String(error),
+      });
+      return value;
+    }
+  }
+
+  /**
+   * Whether a value is a secret reference rather than a literal
+   */
+  isReference(value: string): boolean {
+    return /^(?:env|file|cmd):/.test(value);
+  }
+
+  /**
+   * Resolve a single reference
+   */
+  async resolve(reference: string): Promise<string> {
+    const separator = reference.indexOf(':');
+    const scheme = reference.slice(0, separator);
+    const target = reference.slice(separator + 1).trim();
+
+    if (target.length === 0) {
+      throw new Error(`Secret reference '${scheme}:' is empty`);
+    }
+
+    let value: string;
+    switch (scheme) {
+      case 'env': {
+        const envValue = process.env[target];
+        if (envValue === undefined) {
+          throw new Error(`Environment variable ${target} is not set`);
+        }
+        value = envValue;
+        break;
+      }
+      case 'file':
+        try {
+          value = await fs.readFile(target, 'utf-8');
+        } catch (error) {
+          throw new Error(
+            `Cannot read secret file ${target}: ${(error as { code?: string }).code ?? 'read failed'}`
+          );
+        }
+        break;
+      case 'cmd':
+        try {
+          value = (await execAsync(target, { timeout: this.commandTimeout }))
+            .stdout;
+        } catch (error) {
+          // The command's output may contain the secret; report the exit
+          // status only
+          const { code, killed } = error as {
+            code?: unknown;
+            killed?: boolean;
+          };
+          throw new Error(
+            `Secret command '${target}' failed (${killed ? 'timed out' : `exit code ${String(code)}`})`
+          );
+        }
+        break;
+      default:
+        throw new Error(`Unknown secret reference scheme '${scheme}'`);
+    }
+
+    // Ignore the trailing newline most editors and commands add
+    value = value.replace(/\r?\n$/, '');
+    if (value.length === 0) {
+      throw new Error(
+        `Secret reference ${scheme}:${target} resolved to an empty value`
+      );
+    }
+    return value;
+  }
+}
@@ -0,0 +1,32 @@
+import { SafeConfig } from './types.js';
+
+/**
+ * Built-in configuration, overridden by the config file, environment and
+ * runtime settings
+ */
+export const DEFAULT_CONFIG: SafeConfig = {
+  networks: {
+    'eip155:1': {
+      rpcUrl: 'https://eth.llamarpc.com',
+      transactionService: 'https://safe-transaction-mainnet.safe.global',
+    },
+    'eip155:137': {
+      rpcUrl: 'https://polygon.llamarpc.com',
+      transactionService: 'https://safe-transaction-polygon.safe.global',
+    },
+    'eip155:42161': {
+      rpcUrl: 'https://arbitrum.llamarpc.com',
+      transactionService: 'https://safe-transaction-arbitrum.safe.global',
+    },
+    'eip155:10': { rpcUrl: 'https://optimism.llamarpc.com' },
+    'eip155:8453': { rpcUrl: 'https://base.llamarpc.com' },
+    'eip155:100': { rpcUrl: 'https://gnosis.llamarpc.com' },
+    'eip155:42220': { rpcUrl: 'https://celo.llamarpc.com' },
+    'eip155:43114': { rpcUrl: 'https://avalanche.llamarpc.com' },
+    'eip155:11155111': {
+      rpcUrl: 'https://sepolia.llamarpc.com',
+      transactionService: 'https://safe-transaction-sepolia.safe.global',
+    },
+    'eip155:31337': { rpcUrl: 'http://127.0.0.1:8545' },
+  },
+};
@@ -1,12 +1,73 @@
+/**
+ * Safe contract versions the protocol kit can deploy and operate
+ */
+export type SafeVersion = '1.4.1' | '1.3.0' | '1.2.0' | '1.1.1' | '1.0.0';
+
+/**
+ * How write tools price the transactions they send: `provider` leaves it to
+ * the node, `legacy` sets gasPrice and `eip1559` sets maxFeePerGas and
+ * maxPriorityFeePerGas from the current fee data
+ */
+export type GasStrategy = 'provider' | 'legacy' | 'eip1559';
+
 /**
  * Network configuration for a specific CAIP-2 network
  */
 export interface NetworkConfig {
   rpcUrl: string;
+  /** RPC URLs tried in order when rpcUrl is unreachable */
+  fallbackRpcUrls?: string[] | undefined;
   apiKey?: string | undefined;
+  /** RPC request timeout in milliseconds */
   timeout?: number | undefined;
+  /** Extra attempts per RPC URL before moving to the next one */
   retries?: number | undefined;
   transactionService?: string | undefined;
+  explorerUrl?: string | undefined;
+  /** Blocks to wait for before a transaction counts as confirmed */
+  confirmations?: number | undefined;
+  /** Safe version used for new wallets */
+  safeVersion?: SafeVersion | undefined;
+  /** Whether new wallets use the L2 singleton (emits events for indexers) */
+  useL2Singleton?: boolean | undefined;
+  gasStrategy?: GasStrategy | undefined;
+  /** Whether write tools need an explicit confirm: true on this network */
+  requireConfirmation?: boolean | undefined;
+  /**
+   * Which tools need the user's approval through MCP elicitation on this
+   * network: true for every tool that supports it, or a list of tool names;
+   * overrides approval.tools
+   */
+  requireApproval?: boolean | string[] | undefined;
+}
+
+/**
+ * How MCP clients reach the server
+ */
+export type TransportKind = 'stdio' | 'http';
+
+/**
+ * Transport settings; read once at startup, and overridden by command line
+ * flags and SAFE_MCP_* environment variables
+ */
+export interface ServerConfig {
+  transport?: TransportKind | undefined;
+  host?: string | undefined;
+  port?: number | undefined;
+  /** Host header values (host:port) the HTTP transport accepts */
+  allowedHosts?: string[] | undefined;
+  /** Bearer token HTTP clients must send; usually a secret reference */
+  authToken?: string | undefined;
+}
+
+/**
+ * Human approval of high-risk tool calls through MCP elicitation
+ */
+export interface ApprovalConfig {
+  /** Tools that need approval on networks without requireApproval */
+  tools?: string[] | undefined;
+  /** How long to wait for the user's answer, in milliseconds */
+  timeout?: number | undefined;
 }
 
 /**
@@ -24,6 +85,63 @@ export interface ApiKeysConfig {
   ollama?: string | undefined;
 }
 
+/**
+ * Named tool profile restricting which tools and networks are available
+ */
+export interface ToolProfileConfig {
+  allow?: string[] | undefined;
+  deny?: string[] | undefined;
+  networks?: string[] | undefined;
+}
+
+/**
+ * Signer backed by an Ethereum V3 keystore file, unlocked with a passphrase
+ * from an environment variable or a file
+ */
+export interface KeystoreSignerConfig {
+  type: 'keystore';
+  path: string;
+  passphraseEnv?: string | undefined;
+  passphraseFile?: string | undefined;
+}
+
+/**
+ * Signer deriving an account from a BIP-39 mnemonic held in an environment
+ * variable or a file, selected by account index or derivation path
+ */
+export interface MnemonicSignerConfig {
+  type: 'mnemonic';
+  mnemonicEnv?: string | undefined;
+  mnemonicFile?: string | undefined;
+  /** Optional BIP-39 passphrase ("25th word") source */
+  passphraseEnv?: string | undefined;
+  passphraseFile?: string | undefined;
+  index?: number | undefined;
+  path?: string | undefined;
+}
+
+/**
+ * Signer that forwards signing requests to an external JSON-RPC signing
+ * daemon such as Clef or Web3Signer
+ */
+export interface RemoteSignerConfig {
+  type: 'remote';
+  url: string;
+  /** Account the daemon signs for */
+  address: string;
+  /** Optional bearer token source for the daemon */
+  authTokenEnv?: string | undefined;
+  authTokenFile?: string | undefined;
+  /** Request timeout in milliseconds */
+  timeout?: number | undefined;
+}
+
+/**
+ * Named signer configuration
+ */
+export type SignerConfig =
+  KeystoreSignerConfig | MnemonicSignerConfig | RemoteSignerConfig;
+
 /**
  * Main configuration interface
  */
@@ -31,6 +149,11 @@ export interface SafeConfig {
   defaultNetwork?: string | undefined;
   networks?: Record<string, NetworkConfig> | undefined;
   apiKeys?: ApiKeysConfig | undefined;
+  profiles?: Record<string, ToolProfileConfig> | undefined;
+  activeProfile?: string | undefined;
+  signers?: Record<string, SignerConfig> | undefined;
+  approval?: ApprovalConfig | undefined;
+  server?: ServerConfig | undefined;
 }
 
 /**
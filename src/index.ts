@@ -13,25 +13,127 @@ import 'dotenv/config';
 
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { SafeMultisigServer } from './server/SafeMultisigServer.js';
+import { HttpTransportServer } from './server/HttpTransportServer.js';
+import { parseCliOptions, resolveTransportOptions } from './cli/CliOptions.js';
+import { ConfigLoader, formatConfigIssues } from './config/ConfigLoader.js';
+import { ConfigWatcher } from './config/ConfigWatcher.js';
+import { AuditLog } from './audit/AuditLog.js';
+import { TransactionPolicy } from './policy/TransactionPolicy.js';
+import { runCommand } from './cli/commands.js';
+import { redactError } from './utils/redact.js';
 
 async function main(): Promise<void> {
   try {
-    // Create server instance
-    const server = new SafeMultisigServer();
+    const options = parseCliOptions();
 
-    // Create stdio transport
-    const transport = new StdioServerTransport();
+    if (options.command) {
+      process.exit(await runCommand(options.command, options.commandArgs));
+    }
 
-    // Connect server to transport
-    await server.connect(transport);
+    // Load defaults, config file, environment and command line overrides
+    const runtimeConfig = options.profile
+      ? { activeProfile: options.profile }
+      : {};
+    const loadConfig = () =>
+      new ConfigLoader().load(options.configPath, runtimeConfig);
+    const config = await loadConfig();
+    let currentConfig = config;
+    let applyConfig: (next: typeof config) => void = () => {};
+    const serverOptions = {
+      readOnly: options.readOnly,
+      config,
+      auditLog: options.auditLogPath
+        ? await AuditLog.open(options.auditLogPath)
+        : undefined,
+      policy: options.policyPath
+        ? await TransactionPolicy.load(options.policyPath)
+        : undefined,
+    };
 
-    // Log server start to stderr (stdout reserved for MCP)
-    console.error('Safe MCP Server started successfully');
+    // Transport settings not given as flags or variables come from the config
+    const transportOptions = resolveTransportOptions(options, config.server);
+
+    if (transportOptions.transport === 'http') {
+      // Shared HTTP server: every client session gets its own server instance
+      const httpServer = new HttpTransportServer(
+        transportOptions,
+        () =>
+          new SafeMultisigServer(true, {
+            ...serverOptions,
+            config: currentConfig,
+          })
+      );
+      await httpServer.start();
+      applyConfig = (next) =>
+        httpServer.getServers().forEach((server) => server.applyConfig(next));
+
+      const { host, port } = httpServer.getAddress();
+      console.error(
+        `Safe MCP Server listening on http://${host}:${port}/mcp (SSE fallback on /sse)` +
+          (transportOptions.authToken
+            ? ' with bearer token authentication'
+            : '')
+      );
+      console.error(
+        `Accepted Host headers: ${httpServer.getAllowedHosts().join(', ')}`
+      );
+    } else {
+      // Create server instance
+      const server = new SafeMultisigServer(true, serverOptions);
+
+      // Create stdio transport
+      const transport = new StdioServerTransport();
+
+      // Connect server to transport
+      await server.connect(transport);
+      applyConfig = (next) => server.applyConfig(next);
+
+      // Log server start to stderr (stdout reserved for MCP)
+      console.error('Safe MCP Server started successfully');
+    }
+
+    if (options.readOnly) {
+      console.error(
+        'Read-only mode: tools that accept private keys are disabled'
+      );
+    }
+
+    if (serverOptions.auditLog) {
+      console.error(`Audit log: ${serverOptions.auditLog.getFilePath()}`);
+    }
+
+    if (serverOptions.policy) {
+      console.error(
+        `Transaction policy: ${options.policyPath}` +
+          (serverOptions.policy.hasDailyLimit()
+            ? ' (daily value limits are counted in memory and start over on restart)'
+            : '')
+      );
+    }
+
+    if (config.activeProfile) {
+      console.error(`Active tool profile: ${config.activeProfile}`);
+    }
+
+    // Apply edits to the config file to every running server
+    if (options.configPath) {
+      new ConfigWatcher(
+        options.configPath,
+        loadConfig,
+        (next) => {
+          applyConfig(next);
+          currentConfig = next;
+        },
+        config
+      ).start();
+      console.error(`Watching config file ${options.configPath} for changes`);
+    }
 
     // Keep the process running to handle requests
     await new Promise(() => {});
   } catch (error) {
-    console.error('Failed to start Safe MCP Server:', error);
+    console.error('Failed to start Safe MCP Server:', redactError(error));
+    formatConfigIssues(error).forEach((line) => console.error(line));
     process.exit(1);
   }
 }
@@ -49,6 +151,6 @@ process.on('SIGTERM', () => {
 
 // Start the server
 main().catch((error) => {
-  console.error('Unhandled error in main:', error);
+  console.error('Unhandled error in main:', redactError(error));
   process.exit(1);
 });
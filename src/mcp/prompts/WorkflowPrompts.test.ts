@@ -0,0 +1,70 @@
+import {
+  ErrorCode,
+  GetPromptResult,
+  McpError,
+} from '@modelcontextprotocol/sdk/types.js';
+import { Interface } from 'ethers';
+import { WorkflowPrompts } from './WorkflowPrompts.js';
+
+const SAFE_ADDRESS = '0x1234567890123456789012345678901234567890';
+const RECIPIENT = '0x000000000000000000000000000000000000dEaD';
+const TOKEN = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+
+function promptText(result: GetPromptResult): string {
+  const [message] = result.messages;
+  return message?.content.type === 'text' ? message.content.text : '';
+}
+
+describe('WorkflowPrompts', () => {
+  const prompts = new WorkflowPrompts();
+
+  it('lists the workflow prompts', () => {
+    expect(prompts.getPrompts().map(({ name }) => name)).toEqual([
+      'safe_create_treasury',
+      'safe_rotate_signer',
+      'safe_review_queue',
+      'safe_prepare_payout',
+    ]);
+  });
+
+  it('walks through treasury creation with the given owners', () => {
+    const result = prompts.getPrompt('safe_create_treasury', {
+      owners: `${SAFE_ADDRESS}, ${RECIPIENT}`,
+      threshold: '2',
+      networkId: 'eip155:1',
+    });
+
+    expect(result.description).toBe('Create a 2-of-2 treasury Safe');
+    expect(promptText(result)).toContain(`- ${RECIPIENT}`);
+    expect(promptText(result)).toContain('safe_deploy_wallet');
+  });
+
+  it('encodes an ERC-20 payout as a token transfer proposal', () => {
+    const result = prompts.getPrompt('safe_prepare_payout', {
+      safeAddress: SAFE_ADDRESS,
+      networkId: 'eip155:1',
+      recipient: RECIPIENT,
+      amount: '1000000',
+      tokenAddress: TOKEN,
+    });
+    const data = new Interface([
+      'function transfer(address to, uint256 amount)',
+    ]).encodeFunctionData('transfer', [RECIPIENT, 1000000n]);
+
+    expect(promptText(result)).toContain(
+      `to ${TOKEN}, value "0", data "${data}"`
+    );
+  });
+
+  it('rejects unknown prompts and missing required arguments', () => {
+    expect(() => prompts.getPrompt('safe_unknown')).toThrow(McpError);
+    expect(() =>
+      prompts.getPrompt('safe_review_queue', { networkId: 'eip155:1' })
+    ).toThrow(
+      expect.objectContaining({
+        code: ErrorCode.InvalidParams,
+        message: expect.stringContaining('safeAddress'),
+      })
+    );
+  });
+});
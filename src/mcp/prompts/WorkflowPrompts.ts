@@ -0,0 +1,279 @@
+import {
+  Prompt,
+  GetPromptResult,
+  McpError,
+  ErrorCode,
+} from '@modelcontextprotocol/sdk/types.js';
+import { Interface } from 'ethers';
+
+type PromptArgs = Record<string, string | undefined>;
+
+const ERC20_INTERFACE = new Interface([
+  'function transfer(address to, uint256 amount) returns (bool)',
+]);
+
+/**
+ * Workflow prompts for Safe MCP Server
+ *
+ * Parameterised prompts that walk the model through the right sequence of
+ * existing tools for common multisig workflows:
+ * - safe_create_treasury: Create an N-of-M treasury Safe
+ * - safe_rotate_signer: Replace a compromised owner
+ * - safe_review_queue: Review pending transactions
+ * - safe_prepare_payout: Prepare a native or ERC-20 payout
+ */
+export class WorkflowPrompts {
+  /**
+   * Get list of available workflow prompts
+   */
+  getPrompts(): Prompt[] {
+    return [
+      {
+        name: 'safe_create_treasury',
+        description:
+          'Create an N-of-M treasury Safe: validate the configuration, predict the address and deploy it.',
+        arguments: [
+          {
+            name: 'owners',
+            description: 'Comma-separated owner addresses',
+            required: true,
+          },
+          {
+            name: 'threshold',
+            description: 'Number of required confirmations (N)',
+            required: true,
+          },
+          {
+            name: 'networkId',
+            description: 'CAIP-2 network identifier (e.g., eip155:1)',
+            required: true,
+          },
+          {
+            name: 'saltNonce',
+            description: 'Optional salt nonce for a deterministic address',
+            required: false,
+          },
+        ],
+      },
+      {
+        name: 'safe_rotate_signer',
+        description:
+          'Rotate a compromised signer: add the replacement owner, then remove the compromised one while keeping the threshold.',
+        arguments: [
+          {
+            name: 'safeAddress',
+            description: 'Safe wallet address',
+            required: true,
+          },
+          {
+            name: 'networkId',
+            description: 'CAIP-2 network identifier (e.g., eip155:1)',
+            required: true,
+          },
+          {
+            name: 'compromisedOwner',
+            description: 'Owner address to remove',
+            required: true,
+          },
+          {
+            name: 'newOwner',
+            description: 'Replacement owner address',
+            required: true,
+          },
+        ],
+      },
+      {
+        name: 'safe_review_queue',
+        description:
+          'Review the pending transaction queue of a Safe and flag anything unusual before owners sign.',
+        arguments: [
+          {
+            name: 'safeAddress',
+            description: 'Safe wallet address',
+            required: true,
+          },
+          {
+            name: 'networkId',
+            description: 'CAIP-2 network identifier (e.g., eip155:1)',
+            required: true,
+          },
+        ],
+      },
+      {
+        name: 'safe_prepare_payout',
+        description:
+          'Prepare a native or ERC-20 token payout from a Safe as a transaction proposal.',
+        arguments: [
+          {
+            name: 'safeAddress',
+            description: 'Safe wallet address',
+            required: true,
+          },
+          {
+            name: 'networkId',
+            description: 'CAIP-2 network identifier (e.g., eip155:1)',
+            required: true,
+          },
+          {
+            name: 'recipient',
+            description: 'Payout recipient address',
+            required: true,
+          },
+          {
+            name: 'amount',
+            description:
+              'Amount in the smallest unit (wei for native, token base units for ERC-20)',
+            required: true,
+          },
+          {
+            name: 'tokenAddress',
+            description: 'ERC-20 token address (omit for a native payout)',
+            required: false,
+          },
+        ],
+      },
+    ];
+  }
+
+  /**
+   * Render a workflow prompt with its arguments
+   */
+  getPrompt(name: string, args: PromptArgs = {}): GetPromptResult {
+    const prompt = this.getPrompts().find((p) => p.name === name);
+    if (!prompt) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+    }
+
+    for (const argument of prompt.arguments ?? []) {
+      if (argument.required && !args[argument.name]) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Prompt ${name} requires argument: ${argument.name}`
+        );
+      }
+    }
+
+    switch (name) {
+      case 'safe_create_treasury':
+        return this.createTreasury(args);
+      case 'safe_rotate_signer':
+        return this.rotateSigner(args);
+      case 'safe_review_queue':
+        return this.reviewQueue(args);
+      default:
+        return this.preparePayout(args);
+    }
+  }
+
+  private createTreasury(args: PromptArgs): GetPromptResult {
+    const owners = (args.owners || '')
+      .split(',')
+      .map((owner) => owner.trim())
+      .filter((owner) => owner.length > 0);
+    const saltNonce = args.saltNonce ? `, saltNonce "${args.saltNonce}"` : '';
+
+    return this.userMessage(
+      `Create a ${args.threshold}-of-${owners.length} treasury Safe`,
+      [
+        `Create a ${args.threshold}-of-${owners.length} treasury Safe on ${args.networkId} with these owners:`,
+        ...owners.map((owner) => `- ${owner}`),
+        '',
+        'Follow these steps and stop to report if any step fails:',
+        `1. Call safe_create_wallet_config with the owners, threshold ${args.threshold} and networkId ${args.networkId}${saltNonce}. Show me every error and warning.`,
+        '2. Call safe_predict_address with the same configuration and tell me the predicted address and whether it is already deployed.',
+        '3. Ask me to confirm the owners, threshold, network and predicted address before deploying.',
+        '4. After I confirm, call safe_deploy_wallet with the same configuration.',
+        '5. Call safe_get_info on the deployed address and verify the owners and threshold match the request.',
+      ].join('\n')
+    );
+  }
+
+  private rotateSigner(args: PromptArgs): GetPromptResult {
+    return this.userMessage(
+      `Rotate compromised signer ${args.compromisedOwner}`,
+      [
+        `Rotate a compromised signer on Safe ${args.safeAddress} (${args.networkId}).`,
+        `Compromised owner: ${args.compromisedOwner}`,
+        `Replacement owner: ${args.newOwner}`,
+        '',
+        'Follow these steps and stop to report if any step fails:',
+        '1. Call safe_get_info and record the current owners and threshold. Confirm the compromised address is an owner and the replacement is not.',
+        '2. Call safe_add_owner to add the replacement owner, keeping the current threshold.',
+        '3. Call safe_remove_owner to remove the compromised owner, keeping the current threshold.',
+        '4. Call safe_get_info again and verify the owner set and threshold. Report the transaction hashes of both changes.',
+        '',
+        'Do not use the compromised owner to sign either transaction.',
+      ].join('\n')
+    );
+  }
+
+  private reviewQueue(args: PromptArgs): GetPromptResult {
+    return this.userMessage(
+      `Review pending transactions for ${args.safeAddress}`,
+      [
+        `Review the pending transaction queue of Safe ${args.safeAddress} on ${args.networkId}.`,
+        '',
+        `1. Call safe_get_info (or read safe://${args.networkId}/${args.safeAddress}) to get owners, threshold and current nonce.`,
+        `2. Read the resource safe://${args.networkId}/${args.safeAddress}/queue to get the pending transactions.`,
+        '3. For each transaction, summarise recipient, value, decoded calldata if recognisable, nonce and confirmations versus the threshold.',
+        '4. Flag anything unusual: DelegateCall operations, unknown recipients, owner or threshold changes, module changes, duplicate or skipped nonces, and large values.',
+        '5. Recommend which transactions are ready to execute and which need more review. Do not sign or execute anything.',
+      ].join('\n')
+    );
+  }
+
+  private preparePayout(args: PromptArgs): GetPromptResult {
+    const isToken = Boolean(args.tokenAddress);
+    let to = args.recipient!;
+    let value = args.amount!;
+    let data = '0x';
+
+    if (isToken) {
+      try {
+        data = ERC20_INTERFACE.encodeFunctionData('transfer', [
+          args.recipient,
+          BigInt(args.amount!),
+        ]);
+      } catch (error) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Invalid payout arguments: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+      to = args.tokenAddress!;
+      value = '0';
+    }
+
+    const description = isToken
+      ? `${args.amount} base units of token ${args.tokenAddress} to ${args.recipient}`
+      : `${args.amount} wei to ${args.recipient}`;
+
+    return this.userMessage(
+      `Prepare payout of ${description}`,
+      [
+        `Prepare a payout of ${description} from Safe ${args.safeAddress} on ${args.networkId}.`,
+        '',
+        '1. Call safe_get_info and check the Safe is deployed. For a native payout, check the balance covers the amount.',
+        `2. Call safe_propose_transaction with safeAddress ${args.safeAddress}, networkId ${args.networkId}, to ${to}, value "${value}", data "${data}" and operation 0.`,
+        '3. Report the safeTxHash, nonce and number of confirmations required so the owners can sign it.',
+        '',
+        'Do not execute the transaction unless I explicitly ask.',
+      ].join('\n')
+    );
+  }
+
+  private userMessage(description: string, text: string): GetPromptResult {
+    return {
+      description,
+      messages: [
+        {
+          role: 'user',
+          content: {
+            type: 'text',
+            text,
+          },
+        },
+      ],
+    };
+  }
+}
@@ -0,0 +1,80 @@
+import { SafeResources } from './SafeResources.js';
+import { ContractRegistry } from '../../network/ContractRegistry.js';
+import { SafeApiService } from '../../safe/SafeApiService.js';
+import { WalletQueryTools } from '../tools/WalletQueryTools.js';
+import { ErrorCodes } from '../../utils/SafeError.js';
+
+const SAFE_ADDRESS = '0x742d35cc6634c0532925a3b844bc9e7595F0fA9B';
+
+describe('SafeResources', () => {
+  let resources: SafeResources;
+  let getSafeInfo: jest.SpyInstance;
+  let getPendingTransactions: jest.SpyInstance;
+
+  beforeEach(() => {
+    const contractRegistry = new ContractRegistry();
+    const walletQueryTools = new WalletQueryTools(contractRegistry);
+    const safeApiService = new SafeApiService(contractRegistry);
+    getSafeInfo = jest
+      .spyOn(walletQueryTools, 'getSafeInfo')
+      .mockImplementation(async (address, networkId) => ({
+        address,
+        owners: [],
+        threshold: 1,
+        nonce: 0,
+        version: '1.4.1',
+        isDeployed: true,
+        networkId,
+        balance: '0',
+        modules: [],
+      }));
+    getPendingTransactions = jest
+      .spyOn(safeApiService, 'getPendingTransactions')
+      .mockResolvedValue([]);
+    resources = new SafeResources(
+      contractRegistry,
+      walletQueryTools,
+      safeApiService
+    );
+  });
+
+  it('advertises the Safe state and queue templates', () => {
+    expect(
+      resources.getResourceTemplates().map(({ uriTemplate }) => uriTemplate)
+    ).toEqual([
+      'safe://{networkId}/{address}',
+      'safe://{networkId}/{address}/queue',
+    ]);
+  });
+
+  it('lists a Safe once, checksummed, after it was read in any case', async () => {
+    expect(resources.listResources()).toEqual([]);
+
+    await resources.readResource(
+      `safe://eip155:1/${SAFE_ADDRESS.toLowerCase()}`
+    );
+    await resources.readResource(`safe://eip155:1/${SAFE_ADDRESS}/queue`);
+
+    expect(getSafeInfo).toHaveBeenCalledWith(SAFE_ADDRESS, 'eip155:1');
+    expect(getPendingTransactions).toHaveBeenCalledWith(
+      SAFE_ADDRESS,
+      'eip155:1'
+    );
+    expect(resources.listResources().map(({ uri }) => uri)).toEqual([
+      `safe://eip155:1/${SAFE_ADDRESS}`,
+      `safe://eip155:1/${SAFE_ADDRESS}/queue`,
+    ]);
+    expect(resources.listResources(() => false)).toEqual([]);
+  });
+
+  it('rejects malformed URIs and unsupported networks', () => {
+    expect(() => resources.parseUri('safe://eip155:1/0x1234')).toThrow(
+      expect.objectContaining({ code: ErrorCodes.INVALID_INPUT })
+    );
+    expect(() =>
+      resources.parseUri(`safe://eip155:999999/${SAFE_ADDRESS}`)
+    ).toThrow(
+      expect.objectContaining({ code: ErrorCodes.NETWORK_NOT_SUPPORTED })
+    );
+  });
+});
@@ -0,0 +1,167 @@
+import {
+  Resource,
+  ResourceTemplate,
+  ReadResourceResult,
+} from '@modelcontextprotocol/sdk/types.js';
+import { getAddress } from 'ethers';
+import { ContractRegistry } from '../../network/ContractRegistry.js';
+import { SafeApiService } from '../../safe/SafeApiService.js';
+import { SafeError, ErrorCodes } from '../../utils/SafeError.js';
+import { WalletQueryTools } from '../tools/WalletQueryTools.js';
+
+/**
+ * Parsed safe:// resource URI
+ */
+export interface SafeResourceUri {
+  networkId: string;
+  address: string;
+  view: 'info' | 'queue';
+}
+
+const SAFE_URI_PATTERN =
+  /^safe:\/\/(eip155:\d+)\/(0x[a-fA-F0-9]{40})(?:\/(queue))?\/?$/;
+
+/**
+ * Description of listed resources: only Safes read in this session are
+ * listed
+ */
+const SESSION_RESOURCE_NOTE =
+  'Read earlier in this session; any other Safe can be read through the safe://{networkId}/{address} templates';
+
+/**
+ * Safe MCP resources
+ *
+ * Exposes Safe state and pending transactions as readable resources:
+ * - safe://{networkId}/{address}: owners, threshold, nonce, modules, balance
+ * - safe://{networkId}/{address}/queue: transactions awaiting execution
+ */
+export class SafeResources {
+  private knownSafes: Map<string, { networkId: string; address: string }> =
+    new Map();
+
+  constructor(
+    private contractRegistry: ContractRegistry,
+    private walletQueryTools: WalletQueryTools,
+    private safeApiService: SafeApiService
+  ) {}
+
+  /**
+   * Get the URI templates for Safe resources
+   */
+  getResourceTemplates(): ResourceTemplate[] {
+    return [
+      {
+        uriTemplate: 'safe://{networkId}/{address}',
+        name: 'Safe state',
+        description:
+          'Owners, threshold, nonce, modules and native balance of a deployed Safe (networkId in CAIP-2 format, e.g. eip155:1)',
+        mimeType: 'application/json',
+      },
+      {
+        uriTemplate: 'safe://{networkId}/{address}/queue',
+        name: 'Safe pending transactions',
+        description:
+          'Transactions proposed to a Safe that are still awaiting confirmations or execution',
+        mimeType: 'application/json',
+      },
+    ];
+  }
+
+  /**
+   * List Safes that have been read during this session, optionally only
+   * those on networks the filter accepts; other Safes are read through the
+   * templates
+   */
+  listResources(
+    isNetworkAllowed: (networkId: string) => boolean = () => true
+  ): Resource[] {
+    return Array.from(this.knownSafes.values())
+      .filter(({ networkId }) => isNetworkAllowed(networkId))
+      .flatMap(({ networkId, address }) => [
+        {
+          uri: `safe://${networkId}/${address}`,
+          name: `Safe ${address} (${networkId})`,
+          description: SESSION_RESOURCE_NOTE,
+          mimeType: 'application/json',
+        },
+        {
+          uri: `safe://${networkId}/${address}/queue`,
+          name: `Safe ${address} pending transactions (${networkId})`,
+          description: SESSION_RESOURCE_NOTE,
+          mimeType: 'application/json',
+        },
+      ]);
+  }
+
+  /**
+   * Read a Safe resource
+   */
+  async readResource(uri: string): Promise<ReadResourceResult> {
+    const parsed = this.parseUri(uri);
+
+    const data =
+      parsed.view === 'queue'
+        ? {
+            safeAddress: parsed.address,
+            networkId: parsed.networkId,
+            pendingTransactions:
+              await this.safeApiService.getPendingTransactions(
+                parsed.address,
+                parsed.networkId
+              ),
+          }
+        : await this.walletQueryTools.getSafeInfo(
+            parsed.address,
+            parsed.networkId
+          );
+
+    this.knownSafes.set(`${parsed.networkId}/${parsed.address}`, {
+      networkId: parsed.networkId,
+      address: parsed.address,
+    });
+
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: 'application/json',
+          text: JSON.stringify(data, null, 2),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Parse and validate a safe:// URI
+   */
+  parseUri(uri: string): SafeResourceUri {
+    const match = SAFE_URI_PATTERN.exec(uri);
+    if (!match) {
+      throw new SafeError(
+        `Invalid Safe resource URI: ${uri}`,
+        ErrorCodes.INVALID_INPUT,
+        {
+          uri,
+          expected:
+            'safe://{networkId}/{address} or safe://{networkId}/{address}/queue',
+        }
+      );
+    }
+
+    const [, networkId, address, view] = match;
+    if (!this.contractRegistry.isNetworkSupported(networkId!)) {
+      throw new SafeError(
+        `Network ${networkId} is not supported`,
+        ErrorCodes.NETWORK_NOT_SUPPORTED,
+        { networkId }
+      );
+    }
+
+    // Checksummed, so one Safe is one resource whatever case it was given in
+    return {
+      networkId: networkId!,
+      address: getAddress(address!.toLowerCase()),
+      view: view === 'queue' ? 'queue' : 'info',
+    };
+  }
+}
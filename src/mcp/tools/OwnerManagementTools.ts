@@ -1,7 +1,135 @@
+import { z } from 'zod';
 import { Tool, CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import { SafeError, ErrorCodes } from '../../utils/SafeError.js';
 import { ContractRegistry } from '../../network/ContractRegistry.js';
 import { ProviderFactory } from '../../blockchain/ProviderFactory.js';
+import { SignerRegistry } from '../../signers/SignerRegistry.js';
+import {
+  PolicyAction,
+  TransactionPolicy,
+} from '../../policy/TransactionPolicy.js';
+import { SafeSigner } from '../../signers/types.js';
+import {
+  describeSimulation,
+  simulateSafeTransaction,
+} from '../../blockchain/TransactionSimulator.js';
+import { SafeConfig } from '../../config/types.js';
+import { DEFAULT_CONFIG } from '../../config/defaults.js';
+import { ApprovalTool, NetworkDefaults } from '../../config/NetworkDefaults.js';
+import {
+  ToolDefinition,
+  callToolDefinition,
+  defineTool,
+  structuredResult,
+  toMcpTool,
+  toolErrorResult,
+} from './ToolDefinition.js';
+import { NO_TOOL_CALL_CONTEXT, ToolCallContext } from './ToolCallContext.js';
+import { requireApproval } from './ToolApproval.js';
+import {
+  AddressSchema,
+  DryRunOutputSchema,
+  NetworkIdSchema,
+  PrivateKeySchema,
+  SignerNameSchema,
+  WriteOptionsSchema,
+  dryRunOutput,
+  withDryRun,
+} from './schemas.js';
+import {
+  abortable,
+  throwIfCancelled,
+  waitForReceipt,
+} from '../../utils/cancellation.js';
+
+/**
+ * Fields shared by all owner management tools
+ */
+const OwnerToolBaseSchema = z
+  .object({
+    safeAddress: AddressSchema.describe(
+      'Safe wallet address (must be a valid checksummed Ethereum address)'
+    ),
+    networkId: NetworkIdSchema,
+    signer: SignerNameSchema.optional().describe(
+      'Name of a configured signer that signs the transaction'
+    ),
+    privateKey: PrivateKeySchema.optional().describe(
+      'Deprecated, use signer. Private key of an existing owner for transaction signing (32-byte hex string)'
+    ),
+  })
+  .merge(WriteOptionsSchema);
+
+const AddOwnerSchema = OwnerToolBaseSchema.extend({
+  ownerAddress: AddressSchema.describe(
+    'New owner address to add (must be a valid checksummed Ethereum address)'
+  ),
+  threshold: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe(
+      'New signature threshold (optional, defaults to current threshold + 1)'
+    ),
+});
+
+const RemoveOwnerSchema = OwnerToolBaseSchema.extend({
+  ownerAddress: AddressSchema.describe(
+    'Owner address to remove (must be a valid checksummed Ethereum address)'
+  ),
+  threshold: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe(
+      'New signature threshold (optional, defaults to current threshold - 1)'
+    ),
+});
+
+const ChangeThresholdSchema = OwnerToolBaseSchema.extend({
+  threshold: z
+    .number()
+    .int()
+    .min(1)
+    .describe(
+      'New signature threshold (must be between 1 and number of owners)'
+    ),
+});
+
+type AddOwnerInput = z.infer<typeof AddOwnerSchema>;
+type RemoveOwnerInput = z.infer<typeof RemoveOwnerSchema>;
+type ChangeThresholdInput = z.infer<typeof ChangeThresholdSchema>;
+
+/**
+ * Receipt fields reported by every owner management tool
+ */
+const OwnerChangeOutputSchema = z.object({
+  transactionHash: z.string(),
+  blockNumber: z.number().int(),
+  gasUsed: z.string().optional(),
+  status: z.enum(['executed', 'failed']),
+  safeAddress: z.string(),
+  newThreshold: z.number().int(),
+  networkId: z.string(),
+  timestamp: z.string(),
+});
+
+const AddOwnerResultSchema = OwnerChangeOutputSchema.extend({
+  operation: z.literal('add_owner'),
+  ownerAddress: z.string(),
+});
+
+const RemoveOwnerResultSchema = OwnerChangeOutputSchema.extend({
+  removedOwner: z.string(),
+  remainingOwners: z.array(z.string()),
+});
+
+const ChangeThresholdResultSchema = OwnerChangeOutputSchema.extend({
+  previousThreshold: z.number().int(),
+  owners: z.array(z.string()),
+});
 
 /**
  * Owner Management Tools for Safe MCP Server
@@ -13,226 +141,93 @@ import { ProviderFactory } from '../../blockchain/ProviderFactory.js';
  */
 export class OwnerManagementTools {
   private providerFactory: ProviderFactory;
+  private networkDefaults: NetworkDefaults;
+
+  constructor(
+    private contractRegistry: ContractRegistry,
+    private signerRegistry: SignerRegistry = new SignerRegistry(),
+    config: SafeConfig = DEFAULT_CONFIG,
+    private policy?: TransactionPolicy
+  ) {
+    this.providerFactory = new ProviderFactory(config);
+    this.networkDefaults = new NetworkDefaults(config);
+  }
 
-  constructor(private contractRegistry: ContractRegistry) {
-    this.providerFactory = new ProviderFactory();
+  /**
+   * Apply a reloaded configuration
+   */
+  updateConfig(config: SafeConfig): void {
+    this.providerFactory.updateConfig(config);
+    this.networkDefaults.updateConfig(config);
   }
 
+  private definitions: ToolDefinition[] = [
+    defineTool({
+      name: 'safe_add_owner',
+      description:
+        'Add a new owner to a Safe wallet. Requires a signer that is an existing owner to execute the transaction.',
+      inputSchema: AddOwnerSchema,
+      outputSchema: withDryRun(AddOwnerResultSchema, DryRunOutputSchema),
+      handler: (args, context) => this.addOwner(args, context),
+    }),
+    defineTool({
+      name: 'safe_remove_owner',
+      description:
+        'Remove an existing owner from a Safe wallet. Requires a signer that is an existing owner to execute the transaction.',
+      inputSchema: RemoveOwnerSchema,
+      outputSchema: withDryRun(RemoveOwnerResultSchema, DryRunOutputSchema),
+      handler: (args, context) => this.removeOwner(args, context),
+    }),
+    defineTool({
+      name: 'safe_change_threshold',
+      description:
+        'Change the signature threshold for a Safe wallet. Requires a signer that is an existing owner to execute the transaction.',
+      inputSchema: ChangeThresholdSchema,
+      outputSchema: withDryRun(ChangeThresholdResultSchema, DryRunOutputSchema),
+      handler: (args, context) => this.changeThreshold(args, context),
+    }),
+  ];
+
   /**
    * Get list of available owner management tools
    */
   getTools(): Tool[] {
-    return [
-      {
-        name: 'safe_add_owner',
-        description:
-          "Add a new owner to a Safe wallet. Requires an existing owner's private key to execute the transaction.",
-        inputSchema: {
-          type: 'object',
-          properties: {
-            safeAddress: {
-              type: 'string',
-              description:
-                'Safe wallet address (must be a valid checksummed Ethereum address)',
-              pattern: '^0x[a-fA-F0-9]{40}$',
-            },
-            ownerAddress: {
-              type: 'string',
-              description:
-                'New owner address to add (must be a valid checksummed Ethereum address)',
-              pattern: '^0x[a-fA-F0-9]{40}$',
-            },
-            threshold: {
-              type: 'number',
-              description:
-                'New signature threshold (optional, defaults to current threshold + 1)',
-              minimum: 1,
-            },
-            networkId: {
-              type: 'string',
-              description:
-                'CAIP-2 network identifier (e.g., eip155:1 for Ethereum mainnet)',
-              pattern: '^eip155:\\d+$',
-            },
-            privateKey: {
-              type: 'string',
-              description:
-                'Private key of an existing owner for transaction signing (32-byte hex string)',
-              pattern: '^0x[a-fA-F0-9]{64}$',
-            },
-          },
-          required: ['safeAddress', 'ownerAddress', 'networkId', 'privateKey'],
-        },
-      },
-      {
-        name: 'safe_remove_owner',
-        description:
-          "Remove an existing owner from a Safe wallet. Requires an existing owner's private key to execute the transaction.",
-        inputSchema: {
-          type: 'object',
-          properties: {
-            safeAddress: {
-              type: 'string',
-              description:
-                'Safe wallet address (must be a valid checksummed Ethereum address)',
-              pattern: '^0x[a-fA-F0-9]{40}$',
-            },
-            ownerAddress: {
-              type: 'string',
-              description:
-                'Owner address to remove (must be a valid checksummed Ethereum address)',
-              pattern: '^0x[a-fA-F0-9]{40}$',
-            },
-            threshold: {
-              type: 'number',
-              description:
-                'New signature threshold (optional, defaults to current threshold - 1)',
-              minimum: 1,
-            },
-            networkId: {
-              type: 'string',
-              description:
-                'CAIP-2 network identifier (e.g., eip155:1 for Ethereum mainnet)',
-              pattern: '^eip155:\\d+$',
-            },
-            privateKey: {
-              type: 'string',
-              description:
-                'Private key of an existing owner for transaction signing (32-byte hex string)',
-              pattern: '^0x[a-fA-F0-9]{64}$',
-            },
-          },
-          required: ['safeAddress', 'ownerAddress', 'networkId', 'privateKey'],
-        },
-      },
-      {
-        name: 'safe_change_threshold',
-        description:
-          "Change the signature threshold for a Safe wallet. Requires an existing owner's private key to execute the transaction.",
-        inputSchema: {
-          type: 'object',
-          properties: {
-            safeAddress: {
-              type: 'string',
-              description:
-                'Safe wallet address (must be a valid checksummed Ethereum address)',
-              pattern: '^0x[a-fA-F0-9]{40}$',
-            },
-            threshold: {
-              type: 'number',
-              description:
-                'New signature threshold (must be between 1 and number of owners)',
-              minimum: 1,
-            },
-            networkId: {
-              type: 'string',
-              description:
-                'CAIP-2 network identifier (e.g., eip155:1 for Ethereum mainnet)',
-              pattern: '^eip155:\\d+$',
-            },
-            privateKey: {
-              type: 'string',
-              description:
-                'Private key of an existing owner for transaction signing (32-byte hex string)',
-              pattern: '^0x[a-fA-F0-9]{64}$',
-            },
-          },
-          required: ['safeAddress', 'threshold', 'networkId', 'privateKey'],
-        },
-      },
-    ];
+    return this.definitions.map(toMcpTool);
   }
 
   /**
    * Handle tool calls for owner management
    */
-  async handleToolCall(name: string, args: any): Promise<CallToolResult> {
+  async handleToolCall(
+    name: string,
+    args: unknown,
+    context: ToolCallContext = NO_TOOL_CALL_CONTEXT
+  ): Promise<CallToolResult> {
     try {
-      switch (name) {
-        case 'safe_add_owner':
-          return await this.addOwner(args);
-        case 'safe_remove_owner':
-          return await this.removeOwner(args);
-        case 'safe_change_threshold':
-          return await this.changeThreshold(args);
-        default:
-          throw new SafeError(
-            `Unknown tool: ${name}`,
-            ErrorCodes.TOOL_NOT_FOUND,
-            { toolName: name }
-          );
-      }
+      return await callToolDefinition(this.definitions, name, args, context);
     } catch (error) {
       if (error instanceof SafeError) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(error.toJSON(), null, 2),
-            },
-          ],
-          isError: true,
-        };
+        return toolErrorResult(error);
       }
 
       const message = error instanceof Error ? error.message : 'Unknown error';
-      const safeError = new SafeError(
-        `Unexpected error: ${message}`,
-        ErrorCodes.SAFE_OPERATION_ERROR
+      return toolErrorResult(
+        new SafeError(
+          `Unexpected error: ${message}`,
+          ErrorCodes.SAFE_OPERATION_ERROR
+        )
       );
-
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(safeError.toJSON(), null, 2),
-          },
-        ],
-        isError: true,
-      };
     }
   }
 
   /**
    * Add a new owner to a Safe wallet using real Safe SDK
    */
-  private async addOwner(args: any): Promise<CallToolResult> {
+  private async addOwner(
+    args: AddOwnerInput,
+    context: ToolCallContext
+  ): Promise<CallToolResult> {
     try {
-      // Validate required fields
-      const requiredFields = [
-        'safeAddress',
-        'ownerAddress',
-        'networkId',
-        'privateKey',
-      ];
-      for (const field of requiredFields) {
-        if (!args[field]) {
-          throw new SafeError(
-            `Add owner validation failed: ${field} is required`,
-            ErrorCodes.VALIDATION_ERROR,
-            { field, value: args[field] }
-          );
-        }
-      }
-
-      // Validate Safe address format
-      if (!this.isValidAddress(args.safeAddress)) {
-        throw new SafeError(
-          'Invalid Safe address format',
-          ErrorCodes.VALIDATION_ERROR,
-          { address: args.safeAddress }
-        );
-      }
-
-      // Validate owner address format
-      if (!this.isValidAddress(args.ownerAddress)) {
-        throw new SafeError(
-          'Invalid owner address format',
-          ErrorCodes.VALIDATION_ERROR,
-          { address: args.ownerAddress }
-        );
-      }
-
       // Validate network
       if (!this.contractRegistry.validateNetwork(args.networkId)) {
         throw new SafeError(
@@ -242,29 +237,22 @@ export class OwnerManagementTools {
         );
       }
 
-      // Validate private key format
-      if (!this.isValidPrivateKey(args.privateKey)) {
-        throw new SafeError(
-          'Invalid private key format',
-          ErrorCodes.VALIDATION_ERROR,
-          { privateKeyLength: args.privateKey?.length }
-        );
-      }
+      // Resolve the signer (configured name or legacy private key)
+      const signer = this.signerRegistry.resolve(args);
 
-      // Validate threshold if provided
-      if (args.threshold !== undefined && args.threshold < 1) {
-        throw new SafeError(
-          'Invalid threshold. Must be at least 1',
-          ErrorCodes.VALIDATION_ERROR,
-          { threshold: args.threshold }
-        );
+      if (!args.dryRun) {
+        this.networkDefaults.assertConfirmed(args.networkId, args.confirm, {
+          tool: 'safe_add_owner',
+          safeAddress: args.safeAddress,
+          ownerAddress: args.ownerAddress,
+          threshold: args.threshold,
+        });
       }
 
-      // Get Safe instance using the provided private key
-      const safe = await this.providerFactory.getSafe(
-        args.safeAddress,
-        args.networkId,
-        args.privateKey
+      // Get Safe instance connected to the signer
+      const safe = await abortable(
+        this.providerFactory.getSafe(args.safeAddress, args.networkId, signer),
+        context.signal
       );
 
       // Get current owners to determine default threshold
@@ -280,12 +268,63 @@ export class OwnerManagementTools {
         threshold: newThreshold,
       });
 
-      // Execute the transaction
-      const executeTxResponse = await safe.executeTransaction(transaction);
-      const receipt = await executeTxResponse.transactionResponse?.wait();
+      const policyAction: PolicyAction = {
+        kind: 'owner_change',
+        networkId: args.networkId,
+        safeAddress: args.safeAddress,
+        ownersBefore: currentOwners.length,
+        ownersAfter: currentOwners.length + 1,
+      };
+      if (args.dryRun) {
+        return await this.dryRunOwnerChange(
+          safe,
+          transaction,
+          signer,
+          policyAction,
+          context
+        );
+      }
+
+      this.policy?.enforce(policyAction);
+
+      await this.approveOwnerChange(
+        context,
+        'safe_add_owner',
+        args.networkId,
+        `Add owner ${args.ownerAddress} to Safe ${args.safeAddress}`,
+        {
+          'New owner': args.ownerAddress,
+          Owners: `${currentOwners.length} → ${currentOwners.length + 1}`,
+          Threshold: `${currentThreshold} → ${newThreshold}`,
+        }
+      );
+
+      const gasOptions = await this.providerFactory.getGasOptions(
+        args.networkId,
+        this.networkDefaults.getGasStrategy(args.networkId, args.gasStrategy)
+      );
+
+      // Last point at which cancelling leaves nothing on chain
+      throwIfCancelled(context.signal);
+
+      // Execute the transaction and wait for its confirmations
+      const executeTxResponse = await safe.executeTransaction(
+        transaction,
+        gasOptions
+      );
+      const receipt = await waitForReceipt(
+        await this.providerFactory.getProvider(args.networkId),
+        executeTxResponse.hash,
+        this.networkDefaults.getConfirmations(
+          args.networkId,
+          args.confirmations
+        ),
+        context.signal,
+        { operation: 'add_owner', networkId: args.networkId }
+      );
 
       // Return real transaction details
-      const response = {
+      const response: z.input<typeof AddOwnerResultSchema> = {
         transactionHash: receipt?.hash || executeTxResponse.hash,
         status: receipt?.status === 1 ? 'executed' : 'failed',
         operation: 'add_owner',
@@ -298,68 +337,30 @@ export class OwnerManagementTools {
         timestamp: new Date().toISOString(),
       };
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(response, null, 2),
-          },
-        ],
-        isError: false,
-      };
+      return structuredResult(
+        AddOwnerResultSchema,
+        `Owner ${args.ownerAddress} ${response.status === 'executed' ? 'added to' : 'could not be added to'} Safe ${args.safeAddress} on ${args.networkId} in transaction ${response.transactionHash}; threshold ${newThreshold}`,
+        response
+      );
     } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Owner addition error: ${message}`,
-          },
-        ],
-        isError: true,
-      };
+      if (error instanceof SafeError) {
+        throw error;
+      }
+      throw new SafeError(
+        `Safe owner addition failed: ${error instanceof Error ? error.message : String(error)}`,
+        ErrorCodes.SAFE_OPERATION_ERROR,
+        { operation: 'add_owner', originalError: String(error) }
+      );
     }
   }
 
   /**
    * Remove an existing owner from a Safe wallet
    */
-  private async removeOwner(args: any): Promise<CallToolResult> {
-    // Validate required fields
-    const requiredFields = [
-      'safeAddress',
-      'ownerAddress',
-      'networkId',
-      'privateKey',
-    ];
-    for (const field of requiredFields) {
-      if (!args[field]) {
-        throw new SafeError(
-          `Remove owner validation failed: ${field} is required`,
-          ErrorCodes.VALIDATION_ERROR,
-          { field, value: args[field] }
-        );
-      }
-    }
-
-    // Validate Safe address format
-    if (!this.isValidAddress(args.safeAddress)) {
-      throw new SafeError(
-        'Invalid Safe address format',
-        ErrorCodes.VALIDATION_ERROR,
-        { address: args.safeAddress }
-      );
-    }
-
-    // Validate owner address format
-    if (!this.isValidAddress(args.ownerAddress)) {
-      throw new SafeError(
-        'Invalid owner address format',
-        ErrorCodes.VALIDATION_ERROR,
-        { address: args.ownerAddress }
-      );
-    }
-
+  private async removeOwner(
+    args: RemoveOwnerInput,
+    context: ToolCallContext
+  ): Promise<CallToolResult> {
     // Validate network
     if (!this.contractRegistry.validateNetwork(args.networkId)) {
       throw new SafeError(
@@ -369,30 +370,23 @@ export class OwnerManagementTools {
       );
     }
 
-    // Validate private key format
-    if (!this.isValidPrivateKey(args.privateKey)) {
-      throw new SafeError(
-        'Invalid private key format',
-        ErrorCodes.VALIDATION_ERROR,
-        { privateKeyLength: args.privateKey?.length }
-      );
-    }
-
-    // Validate threshold if provided
-    if (args.threshold !== undefined && args.threshold < 1) {
-      throw new SafeError(
-        'Invalid threshold. Must be at least 1',
-        ErrorCodes.VALIDATION_ERROR,
-        { threshold: args.threshold }
-      );
-    }
+    // Resolve the signer (configured name or legacy private key)
+    const signer = this.signerRegistry.resolve(args);
 
     try {
-      // Get Safe instance using the provided private key
-      const safe = await this.providerFactory.getSafe(
-        args.safeAddress,
-        args.networkId,
-        args.privateKey
+      if (!args.dryRun) {
+        this.networkDefaults.assertConfirmed(args.networkId, args.confirm, {
+          tool: 'safe_remove_owner',
+          safeAddress: args.safeAddress,
+          ownerAddress: args.ownerAddress,
+          threshold: args.threshold,
+        });
+      }
+
+      // Get Safe instance connected to the signer
+      const safe = await abortable(
+        this.providerFactory.getSafe(args.safeAddress, args.networkId, signer),
+        context.signal
       );
 
       // Get current owners and threshold to validate removal
@@ -438,25 +432,68 @@ export class OwnerManagementTools {
         threshold: newThreshold,
       });
 
-      // Execute the transaction
-      const executeTxResponse = await safe.executeTransaction(transaction);
-      const receipt = await executeTxResponse.transactionResponse?.wait();
-
-      if (!receipt) {
-        throw new SafeError(
-          'Transaction failed: no receipt received',
-          ErrorCodes.SAFE_OPERATION_ERROR,
-          { operation: 'remove_owner' }
+      const policyAction: PolicyAction = {
+        kind: 'owner_change',
+        networkId: args.networkId,
+        safeAddress: args.safeAddress,
+        ownersBefore: currentOwners.length,
+        ownersAfter: currentOwners.length - 1,
+      };
+      if (args.dryRun) {
+        return await this.dryRunOwnerChange(
+          safe,
+          transaction,
+          signer,
+          policyAction,
+          context
         );
       }
 
+      this.policy?.enforce(policyAction);
+
+      await this.approveOwnerChange(
+        context,
+        'safe_remove_owner',
+        args.networkId,
+        `Remove owner ${args.ownerAddress} from Safe ${args.safeAddress}`,
+        {
+          'Removed owner': args.ownerAddress,
+          Owners: `${currentOwners.length} → ${currentOwners.length - 1}`,
+          Threshold: `${currentThreshold} → ${newThreshold}`,
+        }
+      );
+
+      const gasOptions = await this.providerFactory.getGasOptions(
+        args.networkId,
+        this.networkDefaults.getGasStrategy(args.networkId, args.gasStrategy)
+      );
+
+      // Last point at which cancelling leaves nothing on chain
+      throwIfCancelled(context.signal);
+
+      // Execute the transaction and wait for its confirmations
+      const executeTxResponse = await safe.executeTransaction(
+        transaction,
+        gasOptions
+      );
+      const receipt = await waitForReceipt(
+        await this.providerFactory.getProvider(args.networkId),
+        executeTxResponse.hash,
+        this.networkDefaults.getConfirmations(
+          args.networkId,
+          args.confirmations
+        ),
+        context.signal,
+        { operation: 'remove_owner', networkId: args.networkId }
+      );
+
       // Get updated owners and threshold
       const [updatedOwners, updatedThreshold] = await Promise.all([
         safe.getOwners(),
         safe.getThreshold(),
       ]);
 
-      const result = {
+      const result: z.input<typeof RemoveOwnerResultSchema> = {
         transactionHash: receipt.hash,
         blockNumber: receipt.blockNumber,
         gasUsed: receipt.gasUsed?.toString(),
@@ -469,15 +506,11 @@ export class OwnerManagementTools {
         timestamp: new Date().toISOString(),
       };
 
-      return {
-        isError: false,
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(result, null, 2),
-          },
-        ],
-      };
+      return structuredResult(
+        RemoveOwnerResultSchema,
+        `Owner ${args.ownerAddress} removed from Safe ${args.safeAddress} on ${args.networkId} in transaction ${receipt.hash}; ${updatedOwners.length} owner(s) remain with threshold ${updatedThreshold}`,
+        result
+      );
     } catch (error) {
       if (error instanceof SafeError) {
         throw error;
@@ -493,37 +526,10 @@ export class OwnerManagementTools {
   /**
    * Change the signature threshold for a Safe wallet
    */
-  private async changeThreshold(args: any): Promise<CallToolResult> {
-    // Validate required fields (special handling for threshold which can be 0)
-    const requiredFields = ['safeAddress', 'networkId', 'privateKey'];
-    for (const field of requiredFields) {
-      if (!args[field]) {
-        throw new SafeError(
-          `Change threshold validation failed: ${field} is required`,
-          ErrorCodes.VALIDATION_ERROR,
-          { field, value: args[field] }
-        );
-      }
-    }
-
-    // Validate threshold is provided
-    if (args.threshold === undefined || args.threshold === null) {
-      throw new SafeError(
-        'Change threshold validation failed: threshold is required',
-        ErrorCodes.VALIDATION_ERROR,
-        { field: 'threshold', value: args.threshold }
-      );
-    }
-
-    // Validate Safe address format
-    if (!this.isValidAddress(args.safeAddress)) {
-      throw new SafeError(
-        'Invalid Safe address format',
-        ErrorCodes.VALIDATION_ERROR,
-        { address: args.safeAddress }
-      );
-    }
-
+  private async changeThreshold(
+    args: ChangeThresholdInput,
+    context: ToolCallContext
+  ): Promise<CallToolResult> {
     // Validate network
     if (!this.contractRegistry.validateNetwork(args.networkId)) {
       throw new SafeError(
@@ -533,30 +539,22 @@ export class OwnerManagementTools {
       );
     }
 
-    // Validate private key format
-    if (!this.isValidPrivateKey(args.privateKey)) {
-      throw new SafeError(
-        'Invalid private key format',
-        ErrorCodes.VALIDATION_ERROR,
-        { privateKeyLength: args.privateKey?.length }
-      );
-    }
-
-    // Validate threshold
-    if (args.threshold < 1) {
-      throw new SafeError(
-        'Invalid threshold. Must be at least 1',
-        ErrorCodes.VALIDATION_ERROR,
-        { threshold: args.threshold }
-      );
-    }
+    // Resolve the signer (configured name or legacy private key)
+    const signer = this.signerRegistry.resolve(args);
 
     try {
-      // Get Safe instance using the provided private key
-      const safe = await this.providerFactory.getSafe(
-        args.safeAddress,
-        args.networkId,
-        args.privateKey
+      if (!args.dryRun) {
+        this.networkDefaults.assertConfirmed(args.networkId, args.confirm, {
+          tool: 'safe_change_threshold',
+          safeAddress: args.safeAddress,
+          threshold: args.threshold,
+        });
+      }
+
+      // Get Safe instance connected to the signer
+      const safe = await abortable(
+        this.providerFactory.getSafe(args.safeAddress, args.networkId, signer),
+        context.signal
       );
 
       // Get current owners and threshold to validate change
@@ -592,22 +590,63 @@ export class OwnerManagementTools {
       // Create change threshold transaction
       const transaction = await safe.createChangeThresholdTx(args.threshold);
 
-      // Execute the transaction
-      const executeTxResponse = await safe.executeTransaction(transaction);
-      const receipt = await executeTxResponse.transactionResponse?.wait();
-
-      if (!receipt) {
-        throw new SafeError(
-          'Transaction failed: no receipt received',
-          ErrorCodes.SAFE_OPERATION_ERROR,
-          { operation: 'change_threshold' }
+      const policyAction: PolicyAction = {
+        kind: 'owner_change',
+        networkId: args.networkId,
+        safeAddress: args.safeAddress,
+        ownersBefore: currentOwners.length,
+        ownersAfter: currentOwners.length,
+      };
+      if (args.dryRun) {
+        return await this.dryRunOwnerChange(
+          safe,
+          transaction,
+          signer,
+          policyAction,
+          context
         );
       }
 
+      this.policy?.enforce(policyAction);
+
+      await this.approveOwnerChange(
+        context,
+        'safe_change_threshold',
+        args.networkId,
+        `Change the threshold of Safe ${args.safeAddress}`,
+        {
+          Threshold: `${currentThreshold} → ${args.threshold} of ${currentOwners.length} owner(s)`,
+        }
+      );
+
+      const gasOptions = await this.providerFactory.getGasOptions(
+        args.networkId,
+        this.networkDefaults.getGasStrategy(args.networkId, args.gasStrategy)
+      );
+
+      // Last point at which cancelling leaves nothing on chain
+      throwIfCancelled(context.signal);
+
+      // Execute the transaction and wait for its confirmations
+      const executeTxResponse = await safe.executeTransaction(
+        transaction,
+        gasOptions
+      );
+      const receipt = await waitForReceipt(
+        await this.providerFactory.getProvider(args.networkId),
+        executeTxResponse.hash,
+        this.networkDefaults.getConfirmations(
+          args.networkId,
+          args.confirmations
+        ),
+        context.signal,
+        { operation: 'change_threshold', networkId: args.networkId }
+      );
+
       // Get updated threshold to confirm change
       const updatedThreshold = await safe.getThreshold();
 
-      const result = {
+      const result: z.input<typeof ChangeThresholdResultSchema> = {
         transactionHash: receipt.hash,
         blockNumber: receipt.blockNumber,
         gasUsed: receipt.gasUsed?.toString(),
@@ -620,15 +659,11 @@ export class OwnerManagementTools {
         timestamp: new Date().toISOString(),
       };
 
-      return {
-        isError: false,
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(result, null, 2),
-          },
-        ],
-      };
+      return structuredResult(
+        ChangeThresholdResultSchema,
+        `Threshold of Safe ${args.safeAddress} on ${args.networkId} changed from ${currentThreshold} to ${updatedThreshold} in transaction ${receipt.hash}`,
+        result
+      );
     } catch (error) {
       if (error instanceof SafeError) {
         throw error;
@@ -642,16 +677,59 @@ export class OwnerManagementTools {
   }
 
   /**
-   * Validate Ethereum address format
+   * Simulate an owner change instead of executing it; policy violations are
+   * reported instead of thrown
    */
-  private isValidAddress(address: string): boolean {
-    return /^0x[a-fA-F0-9]{40}$/.test(address);
+  private async dryRunOwnerChange(
+    safe: any,
+    transaction: any,
+    signer: SafeSigner,
+    policyAction: PolicyAction,
+    context: ToolCallContext
+  ): Promise<CallToolResult> {
+    const simulation = await abortable(
+      simulateSafeTransaction(
+        await this.providerFactory.getProvider(policyAction.networkId),
+        safe,
+        transaction,
+        await signer.getAddress()
+      ),
+      context.signal
+    );
+
+    const result = dryRunOutput(
+      policyAction.networkId,
+      simulation,
+      this.policy?.evaluate(policyAction)
+    );
+
+    return structuredResult(
+      DryRunOutputSchema,
+      `Dry run of Safe transaction ${simulation.safeTxHash} on ${policyAction.networkId}: ${describeSimulation(result)}`,
+      result
+    );
   }
 
   /**
-   * Validate private key format
+   * Ask the user to approve an owner change when the network requires it
    */
-  private isValidPrivateKey(privateKey: string): boolean {
-    return /^0x[a-fA-F0-9]{64}$/.test(privateKey);
+  private async approveOwnerChange(
+    context: ToolCallContext,
+    tool: ApprovalTool,
+    networkId: string,
+    summary: string,
+    details: Record<string, string>
+  ): Promise<void> {
+    if (!this.networkDefaults.requiresApproval(networkId, tool)) {
+      return;
+    }
+
+    await requireApproval(context, {
+      tool,
+      networkId,
+      networkName: this.contractRegistry.getNetworkInfo(networkId).name,
+      summary,
+      details,
+    });
   }
 }
@@ -0,0 +1,98 @@
+import { z } from 'zod';
+import { Tool, CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { SafeError, ErrorCodes } from '../../utils/SafeError.js';
+import { SignerRegistry } from '../../signers/SignerRegistry.js';
+import {
+  ToolDefinition,
+  callToolDefinition,
+  defineTool,
+  structuredResult,
+  toMcpTool,
+  toolErrorResult,
+} from './ToolDefinition.js';
+import { NO_TOOL_CALL_CONTEXT, ToolCallContext } from './ToolCallContext.js';
+
+const SignerListSchema = z.object({
+  signers: z.array(
+    z.object({
+      name: z.string(),
+      type: z.string(),
+      address: z.string().optional(),
+      derivationPath: z.string().optional(),
+      error: z
+        .string()
+        .optional()
+        .describe('Why the address could not be determined'),
+    })
+  ),
+});
+
+/**
+ * Signer Tools for Safe MCP Server
+ *
+ * Provides tools for inspecting the configured signers:
+ * - safe_list_signers: List signer names, types and addresses
+ */
+export class SignerTools {
+  constructor(private signerRegistry: SignerRegistry) {}
+
+  private definitions: ToolDefinition[] = [
+    defineTool({
+      name: 'safe_list_signers',
+      description:
+        'List the configured signers (keystore, mnemonic-derived and remote) with their addresses. Pass a signer name to write tools to sign with it.',
+      inputSchema: z.object({}),
+      outputSchema: SignerListSchema,
+      handler: () => this.listSigners(),
+    }),
+  ];
+
+  /**
+   * Get list of available signer tools
+   */
+  getTools(): Tool[] {
+    return this.definitions.map(toMcpTool);
+  }
+
+  /**
+   * Handle tool calls for signers
+   */
+  async handleToolCall(
+    name: string,
+    args: unknown,
+    context: ToolCallContext = NO_TOOL_CALL_CONTEXT
+  ): Promise<CallToolResult> {
+    try {
+      return await callToolDefinition(this.definitions, name, args, context);
+    } catch (error) {
+      return toolErrorResult(
+        error instanceof SafeError
+          ? error
+          : new SafeError(
+              `Unexpected error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+              ErrorCodes.SAFE_OPERATION_ERROR
+            )
+      );
+    }
+  }
+
+  /**
+   * List configured signers and their addresses
+   */
+  private async listSigners(): Promise<CallToolResult> {
+    const signers = await this.signerRegistry.listSigners();
+
+    return structuredResult(
+      SignerListSchema,
+      signers.length > 0
+        ? `${signers.length} signer(s) configured: ${signers
+            .map(
+              (signer) =>
+                `${signer.name} (${signer.type}${signer.address ? `, ${signer.address}` : ''})`
+            )
+            .join(', ')}`
+        : 'No signers configured',
+      { signers }
+    );
+  }
+}
@@ -0,0 +1,114 @@
+import { ElicitResult } from '@modelcontextprotocol/sdk/types.js';
+import { ApprovalRequest, requireApproval } from './ToolApproval.js';
+import { ElicitForm, createToolCallContext } from './ToolCallContext.js';
+import { ErrorCodes } from '../../utils/SafeError.js';
+
+const request: ApprovalRequest = {
+  tool: 'safe_execute_transaction',
+  networkId: 'eip155:1',
+  networkName: 'Ethereum Mainnet',
+  summary: 'Execute transaction 0xabc from Safe 0x123',
+  details: { Value: '0 wei' },
+};
+
+function contextAnswering(result: ElicitResult | Promise<ElicitResult>): {
+  elicitForm: jest.Mock<Promise<ElicitResult>, Parameters<ElicitForm>>;
+  controller: AbortController;
+  context: ReturnType<typeof createToolCallContext>;
+} {
+  const elicitForm = jest.fn<Promise<ElicitResult>, Parameters<ElicitForm>>(
+    () => Promise.resolve(result)
+  );
+  const controller = new AbortController();
+  const context = createToolCallContext(
+    undefined,
+    async () => {},
+    controller.signal,
+    elicitForm
+  );
+  return { elicitForm, controller, context };
+}
+
+describe('requireApproval', () => {
+  it('asks the user with the formatted request and proceeds on approval', async () => {
+    const { elicitForm, context } = contextAnswering({
+      action: 'accept',
+      content: { approve: true },
+    });
+
+    await expect(requireApproval(context, request)).resolves.toBeUndefined();
+    expect(elicitForm).toHaveBeenCalledWith(
+      expect.objectContaining({
+        mode: 'form',
+        message: [
+          'Approve safe_execute_transaction on Ethereum Mainnet (eip155:1)?',
+          '',
+          'Execute transaction 0xabc from Safe 0x123',
+          '',
+          'Value: 0 wei',
+        ].join('\n'),
+      }),
+      expect.objectContaining({ signal: expect.any(AbortSignal) })
+    );
+  });
+
+  it.each<[string, ElicitResult, string]>([
+    ['declines', { action: 'decline' }, 'declined'],
+    ['cancels', { action: 'cancel' }, 'cancelled'],
+    [
+      'accepts without ticking the box',
+      { action: 'accept', content: { approve: false } },
+      'declined',
+    ],
+  ])('is denied when the user %s', async (_case, result, answer) => {
+    const { context } = contextAnswering(result);
+
+    await expect(requireApproval(context, request)).rejects.toMatchObject({
+      code: ErrorCodes.APPROVAL_DENIED,
+      details: {
+        tool: 'safe_execute_transaction',
+        networkId: 'eip155:1',
+        answer,
+      },
+    });
+  });
+
+  it('is unavailable when the client cannot show forms', async () => {
+    const context = createToolCallContext(
+      undefined,
+      async () => {},
+      new AbortController().signal,
+      undefined
+    );
+
+    await expect(requireApproval(context, request)).rejects.toMatchObject({
+      code: ErrorCodes.APPROVAL_UNAVAILABLE,
+    });
+  });
+
+  it('reports a cancelled call while waiting for the answer', async () => {
+    const { controller, context } = contextAnswering(
+      new Promise<ElicitResult>(() => {})
+    );
+
+    const approval = requireApproval(context, request);
+    controller.abort();
+
+    await expect(approval).rejects.toMatchObject({
+      code: ErrorCodes.CANCELLED,
+    });
+  });
+
+  it('is denied when the elicitation request fails', async () => {
+    const { context } = contextAnswering(
+      Promise.reject(new Error('Request timed out'))
+    );
+
+    await expect(requireApproval(context, request)).rejects.toMatchObject({
+      code: ErrorCodes.APPROVAL_DENIED,
+      message:
+        'No approval received for safe_execute_transaction: Request timed out',
+      details: { answer: 'error' },
+    });
+  });
+});
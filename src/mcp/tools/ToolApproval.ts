@@ -0,0 +1,160 @@
+import { Interface, formatEther, getAddress } from 'ethers';
+import { SafeError, ErrorCodes } from '../../utils/SafeError.js';
+import { ApprovalTool } from '../../config/NetworkDefaults.js';
+import { ApprovalAnswer, ToolCallContext } from './ToolCallContext.js';
+
+/**
+ * A high-risk action shown to the user for approval
+ */
+export interface ApprovalRequest {
+  tool: ApprovalTool;
+  networkId: string;
+  /** Display name of the network, e.g. Ethereum Mainnet */
+  networkName: string;
+  /** One line saying what will happen */
+  summary: string;
+  /** Decoded details, shown in insertion order */
+  details: Record<string, string>;
+}
+
+/**
+ * Calls decoded in approval summaries: token transfers and the Safe's own
+ * owner, module and guard management
+ */
+const KNOWN_CALLS = new Interface([
+  'function transfer(address to, uint256 amount)',
+  'function approve(address spender, uint256 amount)',
+  'function transferFrom(address from, address to, uint256 amount)',
+  'function addOwnerWithThreshold(address owner, uint256 threshold)',
+  'function removeOwner(address prevOwner, address owner, uint256 threshold)',
+  'function swapOwner(address prevOwner, address oldOwner, address newOwner)',
+  'function changeThreshold(uint256 threshold)',
+  'function enableModule(address module)',
+  'function disableModule(address prevModule, address module)',
+  'function setGuard(address guard)',
+  'function setFallbackHandler(address handler)',
+  'function multiSend(bytes transactions)',
+]);
+
+/**
+ * Ask the user to approve an action; throws APPROVAL_DENIED unless they
+ * do, or APPROVAL_UNAVAILABLE when the client cannot ask them
+ */
+export async function requireApproval(
+  context: ToolCallContext,
+  request: ApprovalRequest
+): Promise<void> {
+  const errorDetails = {
+    tool: request.tool,
+    networkId: request.networkId,
+    action: request.summary,
+  };
+
+  let answer: ApprovalAnswer;
+  try {
+    answer = await context.requestApproval(formatApprovalMessage(request));
+  } catch (error) {
+    if (error instanceof SafeError) {
+      throw error;
+    }
+    throw new SafeError(
+      `No approval received for ${request.tool}: ${error instanceof Error ? error.message : String(error)}`,
+      ErrorCodes.APPROVAL_DENIED,
+      { ...errorDetails, answer: 'error' }
+    );
+  }
+
+  if (answer === 'approved') {
+    return;
+  }
+  if (answer === 'unsupported') {
+    throw new SafeError(
+      `${request.tool} on ${request.networkId} requires the user's approval, but the client does not support elicitation`,
+      ErrorCodes.APPROVAL_UNAVAILABLE,
+      errorDetails
+    );
+  }
+  throw new SafeError(
+    `The user did not approve ${request.tool} on ${request.networkId}`,
+    ErrorCodes.APPROVAL_DENIED,
+    { ...errorDetails, answer }
+  );
+}
+
+/**
+ * Text of the approval request shown by the client
+ */
+export function formatApprovalMessage(request: ApprovalRequest): string {
+  const network =
+    request.networkName === request.networkId
+      ? request.networkId
+      : `${request.networkName} (${request.networkId})`;
+
+  return [
+    `Approve ${request.tool} on ${network}?`,
+    '',
+    request.summary,
+    '',
+    ...Object.entries(request.details).map(
+      ([label, value]) => `${label}: ${value}`
+    ),
+  ].join('\n');
+}
+
+/**
+ * Native token amount in wei, shown in whole tokens and in wei
+ */
+export function describeValue(value: string): string {
+  try {
+    return `${formatEther(value)} native token (${value} wei)`;
+  } catch {
+    return `${value} wei`;
+  }
+}
+
+/**
+ * Call data decoded into a function call when it is a known call, otherwise
+ * its selector and size
+ */
+export function describeCallData(data: string | undefined): string {
+  if (!data || data === '0x') {
+    return 'none (plain transfer)';
+  }
+
+  const call = safeParseTransaction(data);
+  if (!call) {
+    return `unknown function ${data.slice(0, 10)} (${(data.length - 2) / 2} bytes)`;
+  }
+
+  const args = call.fragment.inputs.map((input, index) => {
+    const value: unknown = call.args[index];
+    const shown =
+      input.type === 'bytes'
+        ? `<${(String(value).length - 2) / 2} bytes>`
+        : input.type === 'address'
+          ? getAddress(String(value))
+          : String(value);
+    return `${input.name}: ${shown}`;
+  });
+  return `${call.name}(${args.join(', ')})`;
+}
+
+/**
+ * Safe operation type; delegate calls run the target's code with the Safe's
+ * storage and funds, so they are called out
+ */
+export function describeOperation(operation: number): string {
+  return operation === 1
+    ? "DELEGATECALL (target code runs with the Safe's storage and funds)"
+    : 'CALL';
+}
+
+function safeParseTransaction(
+  data: string
+): ReturnType<Interface['parseTransaction']> {
+  try {
+    return KNOWN_CALLS.parseTransaction({ data });
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,154 @@
+import {
+  ElicitRequestFormParams,
+  ElicitResult,
+  ProgressToken,
+  ServerNotification,
+} from '@modelcontextprotocol/sdk/types.js';
+import { RequestOptions } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { abortable } from '../../utils/cancellation.js';
+
+/**
+ * How long to wait for the user to answer an approval request when the
+ * configuration does not say otherwise
+ */
+export const DEFAULT_APPROVAL_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * The user's answer to an approval request; 'unsupported' when the client
+ * cannot show elicitation forms
+ */
+export type ApprovalAnswer =
+  'approved' | 'declined' | 'cancelled' | 'unsupported';
+
+/**
+ * Sends a form elicitation request to the client that made the tool call
+ */
+export type ElicitForm = (
+  params: ElicitRequestFormParams,
+  options: RequestOptions
+) => Promise<ElicitResult>;
+
+/**
+ * Per-call facilities handed to tool handlers alongside their arguments
+ */
+export interface ToolCallContext {
+  /** Aborted when the client cancels the request or disconnects */
+  signal: AbortSignal;
+  /**
+   * Send a progress notification; a no-op unless the client asked for
+   * progress. Never throws, so handlers need not guard the call.
+   */
+  reportProgress(
+    progress: number,
+    total: number | undefined,
+    message: string
+  ): Promise<void>;
+  /**
+   * Ask the user, through MCP elicitation, to approve the action described
+   * by the message. Rejects with a CANCELLED SafeError when the call is
+   * cancelled while waiting for the answer.
+   */
+  requestApproval(message: string): Promise<ApprovalAnswer>;
+}
+
+/**
+ * Context for calls made outside an MCP request: never cancelled, no
+ * progress reporting and nobody to ask for approval
+ */
+export const NO_TOOL_CALL_CONTEXT: ToolCallContext = {
+  signal: new AbortController().signal,
+  reportProgress: async () => {},
+  requestApproval: async () => 'unsupported',
+};
+
+/**
+ * Form shown with an approval request: a single approve checkbox
+ */
+const APPROVAL_FORM: ElicitRequestFormParams['requestedSchema'] = {
+  type: 'object',
+  properties: {
+    approve: {
+      type: 'boolean',
+      title: 'Approve',
+      description: 'Carry out the action described above',
+      default: false,
+    },
+  },
+  required: ['approve'],
+};
+
+/**
+ * Build the context for a tools/call request from its cancellation signal,
+ * progress token and, when the client supports form elicitation, a way to
+ * ask the user
+ *
+ * Progress is only sent when the request carried a progress token, and
+ * values that do not increase are dropped because MCP requires progress to
+ * grow with every notification.
+ */
+export function createToolCallContext(
+  progressToken: ProgressToken | undefined,
+  sendNotification: (notification: ServerNotification) => Promise<void>,
+  signal: AbortSignal,
+  elicitForm: ElicitForm | undefined
+): ToolCallContext {
+  return {
+    signal,
+    reportProgress:
+      progressToken === undefined
+        ? NO_TOOL_CALL_CONTEXT.reportProgress
+        : createProgressReporter(progressToken, sendNotification),
+    requestApproval: elicitForm
+      ? (message) => elicitApproval(elicitForm, message, signal)
+      : NO_TOOL_CALL_CONTEXT.requestApproval,
+  };
+}
+
+function createProgressReporter(
+  progressToken: ProgressToken,
+  sendNotification: (notification: ServerNotification) => Promise<void>
+): ToolCallContext['reportProgress'] {
+  let lastProgress = -Infinity;
+  return async (progress, total, message) => {
+    if (progress <= lastProgress) {
+      return;
+    }
+    lastProgress = progress;
+
+    await sendNotification({
+      method: 'notifications/progress',
+      params: {
+        progressToken,
+        progress,
+        ...(total !== undefined ? { total } : {}),
+        message,
+      },
+    }).catch(() => {
+      // A disconnected client must not fail the tool call
+    });
+  };
+}
+
+/**
+ * Only an accepted form with the box ticked counts as approval
+ */
+async function elicitApproval(
+  elicitForm: ElicitForm,
+  message: string,
+  signal: AbortSignal
+): Promise<ApprovalAnswer> {
+  const result = await abortable(
+    elicitForm(
+      { mode: 'form', message, requestedSchema: APPROVAL_FORM },
+      {
+        signal,
+      }
+    ),
+    signal
+  );
+
+  if (result.action === 'accept') {
+    return result.content?.approve === true ? 'approved' : 'declined';
+  }
+  return result.action === 'decline' ? 'declined' : 'cancelled';
+}
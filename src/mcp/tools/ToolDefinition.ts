@@ -0,0 +1,164 @@
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { Tool, CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { SafeError, ErrorCodes } from '../../utils/SafeError.js';
+import { NO_TOOL_CALL_CONTEXT, ToolCallContext } from './ToolCallContext.js';
+
+/**
+ * Schema of structured tool results: an object, or a union of objects for
+ * tools with several result shapes
+ */
+export type OutputSchema =
+  z.AnyZodObject | z.ZodUnion<[z.AnyZodObject, ...z.AnyZodObject[]]>;
+
+/**
+ * An MCP tool declared by a single Zod schema
+ *
+ * The schema generates the advertised JSON `inputSchema` and parses the call
+ * arguments, so the handler receives typed, validated input and the two can
+ * never drift apart. The optional output schema is advertised as
+ * `outputSchema` and describes the `structuredContent` of successful results.
+ */
+export interface ToolDefinition<Schema extends z.ZodTypeAny = z.ZodTypeAny> {
+  name: string;
+  description: string;
+  inputSchema: Schema;
+  outputSchema?: OutputSchema;
+  handler(
+    args: z.output<Schema>,
+    context: ToolCallContext
+  ): Promise<CallToolResult>;
+}
+
+/**
+ * Declare a tool; infers the handler argument type from the schema
+ */
+export function defineTool<Schema extends z.ZodTypeAny>(
+  definition: ToolDefinition<Schema>
+): ToolDefinition<Schema> {
+  return definition;
+}
+
+/**
+ * MCP tool listing entry with the JSON Schema generated from the Zod schema
+ */
+export function toMcpTool(definition: ToolDefinition): Tool {
+  const tool: Tool = {
+    name: definition.name,
+    description: definition.description,
+    inputSchema: toJsonSchema(definition.inputSchema) as Tool['inputSchema'],
+  };
+  if (definition.outputSchema) {
+    // MCP requires an object schema at the top, also for unions
+    tool.outputSchema = {
+      type: 'object',
+      ...toJsonSchema(definition.outputSchema),
+    } as Tool['outputSchema'];
+  }
+  return tool;
+}
+
+/**
+ * Inline JSON Schema for a Zod schema, without the $schema marker
+ */
+function toJsonSchema(schema: z.ZodTypeAny): Record<string, unknown> {
+  // zod-to-json-schema is typed against the zod/v3 entry point, which is the
+  // same runtime as 'zod' but a distinct set of declarations
+  const { $schema: _schema, ...jsonSchema } = zodToJsonSchema(
+    schema as unknown as Parameters<typeof zodToJsonSchema>[0],
+    { $refStrategy: 'none' }
+  ) as Record<string, unknown>;
+  return jsonSchema;
+}
+
+/**
+ * Parse tool arguments; throws a VALIDATION_ERROR listing every issue
+ */
+export function parseToolArgs<Schema extends z.ZodTypeAny>(
+  definition: ToolDefinition<Schema>,
+  args: unknown
+): z.output<Schema> {
+  const result = definition.inputSchema.safeParse(args ?? {});
+  if (!result.success) {
+    throw new SafeError(
+      `Invalid arguments for ${definition.name}: ${result.error.issues
+        .map((issue) => `${issue.path.join('.') || 'input'}: ${issue.message}`)
+        .join('; ')}`,
+      ErrorCodes.VALIDATION_ERROR,
+      {
+        toolName: definition.name,
+        issues: result.error.issues.map((issue) => ({
+          path: issue.path.map(String),
+          message: issue.message,
+        })),
+      }
+    );
+  }
+  return result.data;
+}
+
+/**
+ * Run a call against a set of tool definitions
+ *
+ * Unknown tools and invalid arguments are answered with a SafeError result;
+ * errors thrown by the handler itself propagate to the caller.
+ */
+export async function callToolDefinition(
+  definitions: ToolDefinition[],
+  name: string,
+  args: unknown,
+  context: ToolCallContext = NO_TOOL_CALL_CONTEXT
+): Promise<CallToolResult> {
+  const definition = definitions.find((tool) => tool.name === name);
+  if (!definition) {
+    return toolErrorResult(
+      new SafeError(`Unknown tool: ${name}`, ErrorCodes.TOOL_NOT_FOUND, {
+        toolName: name,
+      })
+    );
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = parseToolArgs(definition, args);
+  } catch (error) {
+    return toolErrorResult(error as SafeError);
+  }
+  return await definition.handler(parsed, context);
+}
+
+/**
+ * Successful tool result: a short human-readable summary as text plus the
+ * data, typed by the tool's output schema, as structured content
+ */
+export function structuredResult<Schema extends OutputSchema>(
+  _outputSchema: Schema,
+  summary: string,
+  data: z.input<Schema>
+): CallToolResult {
+  return {
+    content: [
+      {
+        type: 'text',
+        text: summary,
+      },
+    ],
+    structuredContent: data,
+    isError: false,
+  };
+}
+
+/**
+ * Tool result carrying a SafeError
+ */
+export function toolErrorResult(error: SafeError): CallToolResult {
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify(error.toJSON(), null, 2),
+      },
+    ],
+    isError: true,
+  };
+}
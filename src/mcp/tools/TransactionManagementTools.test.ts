@@ -0,0 +1,106 @@
+import { TransactionManagementTools } from './TransactionManagementTools.js';
+import { ToolCallContext } from './ToolCallContext.js';
+import { ContractRegistry } from '../../network/ContractRegistry.js';
+import { ProviderFactory } from '../../blockchain/ProviderFactory.js';
+import { ErrorCodes } from '../../utils/SafeError.js';
+
+const SAFE_ADDRESS = '0x1234567890123456789012345678901234567890';
+const RECIPIENT = '0x000000000000000000000000000000000000dEaD';
+const PRIVATE_KEY =
+  '0x4c0883a69102937d6231471b5dbb6204fe5129617082792ae468d01a3f362318';
+const TX_HASH = `0x${'ab'.repeat(32)}`;
+
+function callContext(signal: AbortSignal): ToolCallContext {
+  return {
+    signal,
+    reportProgress: async () => {},
+    requestApproval: async () => 'unsupported',
+  };
+}
+
+function errorOf(result: { content: unknown[] }): {
+  code: string;
+  message: string;
+  details?: Record<string, unknown>;
+} {
+  const [content] = result.content as [{ text: string }];
+  return JSON.parse(content.text).error;
+}
+
+describe('TransactionManagementTools cancellation', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('reports a proposal cancelled while the Safe loads as CANCELLED', async () => {
+    jest
+      .spyOn(ProviderFactory.prototype, 'getSafe')
+      .mockReturnValue(new Promise(() => {}));
+    const controller = new AbortController();
+    const tools = new TransactionManagementTools(new ContractRegistry());
+
+    const pending = tools.handleToolCall(
+      'safe_propose_transaction',
+      {
+        safeAddress: SAFE_ADDRESS,
+        to: RECIPIENT,
+        value: '0',
+        data: '0x',
+        networkId: 'eip155:1',
+      },
+      callContext(controller.signal)
+    );
+    controller.abort();
+    const result = await pending;
+
+    expect(result.isError).toBe(true);
+    expect(errorOf(result)).toMatchObject({
+      code: ErrorCodes.CANCELLED,
+      message: 'Cancelled before any transaction was broadcast',
+    });
+  });
+
+  it('keeps the broadcast hash when cancelled while waiting for the receipt', async () => {
+    const controller = new AbortController();
+    const safe = {
+      getNonce: async () => 3,
+      createTransaction: async () => ({}),
+      getTransactionHash: async () => '0x01',
+      executeTransaction: async () => ({ hash: TX_HASH }),
+    };
+    const getTransactionReceipt = jest.fn(async () => {
+      // The client cancels while the transaction is being mined
+      controller.abort();
+      return null;
+    });
+    jest.spyOn(ProviderFactory.prototype, 'getSafe').mockResolvedValue(safe);
+    jest
+      .spyOn(ProviderFactory.prototype, 'getGasOptions')
+      .mockResolvedValue({});
+    jest
+      .spyOn(ProviderFactory.prototype, 'getProvider')
+      .mockResolvedValue({ getTransactionReceipt } as never);
+    const tools = new TransactionManagementTools(new ContractRegistry());
+
+    const result = await tools.handleToolCall(
+      'safe_execute_transaction',
+      {
+        safeAddress: SAFE_ADDRESS,
+        to: RECIPIENT,
+        value: '0',
+        data: '0x',
+        networkId: 'eip155:1',
+        privateKey: PRIVATE_KEY,
+        confirm: true,
+      },
+      callContext(controller.signal)
+    );
+
+    expect(errorOf(result)).toMatchObject({
+      code: ErrorCodes.CANCELLED,
+      message: `Cancelled after transaction ${TX_HASH} was broadcast; it may still be mined`,
+      details: { safeTxHash: '0x01', transactionHash: TX_HASH },
+    });
+    expect(getTransactionReceipt).toHaveBeenCalledTimes(1);
+  });
+});
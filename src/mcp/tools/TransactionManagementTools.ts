@@ -1,7 +1,261 @@
+import { z } from 'zod';
+import { Interface, ZeroAddress, verifyTypedData } from 'ethers';
+import type Safe from '@safe-global/protocol-kit';
+import {
+  EthSafeSignature,
+  EthSafeTransaction,
+} from '@safe-global/protocol-kit';
+import type { SafeTransaction } from '@safe-global/safe-core-sdk-types';
 import { Tool, CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import { SafeError, ErrorCodes } from '../../utils/SafeError.js';
 import { ContractRegistry } from '../../network/ContractRegistry.js';
 import { ProviderFactory } from '../../blockchain/ProviderFactory.js';
+import { SignerRegistry } from '../../signers/SignerRegistry.js';
+import {
+  PolicyAction,
+  TransactionPolicy,
+} from '../../policy/TransactionPolicy.js';
+import { SafeSigner } from '../../signers/types.js';
+import {
+  SafeTransactionFields,
+  getSafeTxTypedData,
+  hashSafeTypedData,
+} from '../../blockchain/SafeTypedData.js';
+import {
+  describeSimulation,
+  simulateSafeTransaction,
+  simulateSignedSafeTransaction,
+} from '../../blockchain/TransactionSimulator.js';
+import {
+  CheckedSignature,
+  SIGNATURE_TYPES,
+  checkSignatures,
+} from '../../blockchain/SafeSignatures.js';
+import { SafeConfig } from '../../config/types.js';
+import { DEFAULT_CONFIG } from '../../config/defaults.js';
+import { NetworkDefaults } from '../../config/NetworkDefaults.js';
+import {
+  ToolDefinition,
+  callToolDefinition,
+  defineTool,
+  structuredResult,
+  toMcpTool,
+  toolErrorResult,
+} from './ToolDefinition.js';
+import { NO_TOOL_CALL_CONTEXT, ToolCallContext } from './ToolCallContext.js';
+import {
+  describeCallData,
+  describeOperation,
+  describeValue,
+  requireApproval,
+} from './ToolApproval.js';
+import {
+  AddressSchema,
+  DryRunOutputSchema,
+  HexDataSchema,
+  NetworkIdSchema,
+  OperationSchema,
+  PrivateKeySchema,
+  SafeVersionSchema,
+  SignerNameSchema,
+  WeiValueSchema,
+  WriteOptionsSchema,
+  dryRunOutput,
+  withDryRun,
+} from './schemas.js';
+import {
+  abortable,
+  throwIfCancelled,
+  waitForReceipt,
+} from '../../utils/cancellation.js';
+
+/**
+ * Fields of a Safe transaction shared by proposal and execution
+ */
+const SafeTransactionInputSchema = z.object({
+  safeAddress: AddressSchema.describe(
+    'Safe wallet address (must be a valid checksummed Ethereum address)'
+  ),
+  to: AddressSchema.describe(
+    'Transaction recipient address (must be a valid checksummed Ethereum address)'
+  ),
+  value: WeiValueSchema.describe(
+    'Transaction value in wei (string representation of number)'
+  ),
+  data: HexDataSchema.describe(
+    'Transaction data as hex string (use 0x for empty data)'
+  ),
+  networkId: NetworkIdSchema,
+  operation: OperationSchema.optional(),
+  safeTxGas: z
+    .string()
+    .optional()
+    .describe('Gas limit for Safe transaction execution'),
+  baseGas: z.string().optional().describe('Base gas for transaction'),
+  gasPrice: z.string().optional().describe('Gas price for transaction'),
+  gasToken: AddressSchema.optional().describe(
+    'Token address for gas payment (0x0 for ETH)'
+  ),
+  refundReceiver: AddressSchema.optional().describe(
+    'Address to receive gas refund (0x0 for tx origin)'
+  ),
+  nonce: z.number().int().min(0).optional().describe('Transaction nonce'),
+});
+
+const ProposeTransactionSchema = SafeTransactionInputSchema;
+
+const ExecuteTransactionSchema = SafeTransactionInputSchema.extend({
+  signer: SignerNameSchema.optional().describe(
+    'Name of a configured signer that signs the transaction'
+  ),
+  privateKey: PrivateKeySchema.optional().describe(
+    'Deprecated, use signer. Private key for transaction signing (32-byte hex string)'
+  ),
+}).merge(WriteOptionsSchema);
+
+const SignTransactionSchema = SafeTransactionInputSchema.extend({
+  signer: SignerNameSchema.optional().describe(
+    'Name of a configured signer that signs the transaction'
+  ),
+  privateKey: PrivateKeySchema.optional().describe(
+    'Deprecated, use signer. Private key for transaction signing (32-byte hex string)'
+  ),
+  safeVersion: SafeVersionSchema.optional().describe(
+    'Safe contract version; read from the Safe when omitted. Pass it together with nonce to sign without RPC access'
+  ),
+});
+
+const OwnerSignatureSchema = z.object({
+  signer: AddressSchema.describe('Owner the signature belongs to'),
+  type: z
+    .enum(SIGNATURE_TYPES)
+    .describe(
+      'eoa: EIP-712 signature of the safeTxHash; eth_sign: eth_sign/personal_sign signature of the safeTxHash; approved_hash: the owner called approveHash or is the executor; contract: EIP-1271 signature of a contract owner'
+    ),
+  data: HexDataSchema.optional().describe(
+    'Signature bytes; not needed for approved_hash'
+  ),
+});
+
+const ExecuteWithSignaturesSchema = z
+  .object({
+    safeAddress: AddressSchema.describe(
+      'Safe wallet address (must be a valid checksummed Ethereum address)'
+    ),
+    networkId: NetworkIdSchema,
+    transaction: z
+      .object({
+        to: AddressSchema,
+        value: WeiValueSchema,
+        data: HexDataSchema,
+        operation: OperationSchema,
+        safeTxGas: WeiValueSchema,
+        baseGas: WeiValueSchema,
+        gasPrice: WeiValueSchema,
+        gasToken: AddressSchema,
+        refundReceiver: AddressSchema,
+        nonce: z.number().int().min(0),
+      })
+      .describe(
+        'The SafeTx fields the owners signed, e.g. the transaction returned by safe_sign_transaction'
+      ),
+    signatures: z
+      .array(OwnerSignatureSchema)
+      .min(1)
+      .describe('Owner signatures, in any order'),
+    signer: SignerNameSchema.optional().describe(
+      'Name of a configured signer that sends execTransaction; it does not need to be an owner'
+    ),
+    privateKey: PrivateKeySchema.optional().describe(
+      'Deprecated, use signer. Private key of the executor account (32-byte hex string)'
+    ),
+  })
+  .merge(WriteOptionsSchema);
+
+type ProposeTransactionInput = z.infer<typeof ProposeTransactionSchema>;
+type ExecuteTransactionInput = z.infer<typeof ExecuteTransactionSchema>;
+type SignTransactionInput = z.infer<typeof SignTransactionSchema>;
+type ExecuteWithSignaturesInput = z.infer<typeof ExecuteWithSignaturesSchema>;
+
+/**
+ * Fields reported for both proposed and executed transactions
+ */
+const SafeTransactionOutputSchema = z.object({
+  safeTxHash: z.string().describe('EIP-712 hash of the Safe transaction'),
+  safeAddress: z.string(),
+  to: z.string(),
+  value: z.string().describe('Value in wei'),
+  data: z.string(),
+  networkId: z.string(),
+  operation: z.number().int(),
+  nonce: z.number().int(),
+  timestamp: z.string(),
+});
+
+const ProposalResultSchema = SafeTransactionOutputSchema.extend({
+  status: z.literal('proposed'),
+  signatures: z.array(z.string()),
+  confirmationsRequired: z
+    .number()
+    .int()
+    .describe('Owner signatures needed to execute'),
+});
+
+const ExecutionResultSchema = SafeTransactionOutputSchema.extend({
+  status: z.literal('executed'),
+  transactionHash: z.string(),
+  blockNumber: z.number().int(),
+  gasUsed: z.string().optional(),
+});
+
+const SignedExecutionResultSchema = ExecutionResultSchema.extend({
+  executor: z.string().describe('Account that sent execTransaction'),
+  signers: z
+    .array(z.object({ signer: z.string(), type: z.string() }))
+    .describe('Owners whose signatures were submitted'),
+});
+
+const SignatureResultSchema = z.object({
+  safeTxHash: z.string().describe('EIP-712 hash of the Safe transaction'),
+  signature: z
+    .string()
+    .describe('EIP-712 signature over the safeTxHash, 65 bytes'),
+  signer: z.string().describe('Address recovered from the signature'),
+  isOwner: z
+    .boolean()
+    .optional()
+    .describe(
+      'Whether the signer owns the Safe; absent when it could not be read'
+    ),
+  safeAddress: z.string(),
+  networkId: z.string(),
+  chainId: z.number().int(),
+  safeVersion: z.string(),
+  transaction: z
+    .object({
+      to: z.string(),
+      value: z.string(),
+      data: z.string(),
+      operation: z.number().int(),
+      safeTxGas: z.string(),
+      baseGas: z.string(),
+      gasPrice: z.string(),
+      gasToken: z.string(),
+      refundReceiver: z.string(),
+      nonce: z.number().int(),
+    })
+    .describe('The signed SafeTx fields'),
+});
+
+/**
+ * Safe contract reads used to sign without the protocol kit
+ */
+const SAFE_READS = new Interface([
+  'function VERSION() view returns (string)',
+  'function nonce() view returns (uint256)',
+  'function isOwner(address owner) view returns (bool)',
+  'function getOwners() view returns (address[])',
+]);
 
 /**
  * Transaction Management Tools for Safe MCP Server
@@ -9,259 +263,105 @@ import { ProviderFactory } from '../../blockchain/ProviderFactory.js';
  * Provides tools for proposing and executing Safe multisig transactions:
  * - safe_propose_transaction: Create a transaction proposal
  * - safe_execute_transaction: Execute a transaction directly
+ * - safe_sign_transaction: Sign a transaction's EIP-712 hash as one owner
+ * - safe_execute_with_signatures: Execute with signatures collected elsewhere
  */
 export class TransactionManagementTools {
   private providerFactory: ProviderFactory;
+  private networkDefaults: NetworkDefaults;
 
-  constructor(private contractRegistry: ContractRegistry) {
-    this.providerFactory = new ProviderFactory();
+  constructor(
+    private contractRegistry: ContractRegistry,
+    private signerRegistry: SignerRegistry = new SignerRegistry(),
+    config: SafeConfig = DEFAULT_CONFIG,
+    private policy?: TransactionPolicy
+  ) {
+    this.providerFactory = new ProviderFactory(config);
+    this.networkDefaults = new NetworkDefaults(config);
   }
 
+  /**
+   * Apply a reloaded configuration
+   */
+  updateConfig(config: SafeConfig): void {
+    this.providerFactory.updateConfig(config);
+    this.networkDefaults.updateConfig(config);
+  }
+
+  private definitions: ToolDefinition[] = [
+    defineTool({
+      name: 'safe_propose_transaction',
+      description:
+        'Propose a new transaction to a Safe wallet. Creates a transaction proposal that can be signed and executed by Safe owners.',
+      inputSchema: ProposeTransactionSchema,
+      outputSchema: ProposalResultSchema,
+      handler: (args, context) => this.proposeTransaction(args, context),
+    }),
+    defineTool({
+      name: 'safe_execute_transaction',
+      description:
+        'Execute a Safe transaction directly with a private key. Bypasses the proposal/signing flow for immediate execution.',
+      inputSchema: ExecuteTransactionSchema,
+      outputSchema: withDryRun(ExecutionResultSchema, DryRunOutputSchema),
+      handler: (args, context) => this.executeTransaction(args, context),
+    }),
+    defineTool({
+      name: 'safe_sign_transaction',
+      description:
+        "Sign a Safe transaction's EIP-712 SafeTx hash with a configured signer, without sending anything. Returns the signature, the recovered signer and whether it owns the Safe.",
+      inputSchema: SignTransactionSchema,
+      outputSchema: SignatureResultSchema,
+      handler: (args, context) => this.signTransaction(args, context),
+    }),
+    defineTool({
+      name: 'safe_execute_with_signatures',
+      description:
+        'Execute a Safe transaction with signatures collected from its owners (EOA, eth_sign, approved hash or EIP-1271 contract). Checks them against the current owners and threshold and sends execTransaction from any executor account.',
+      inputSchema: ExecuteWithSignaturesSchema,
+      outputSchema: withDryRun(SignedExecutionResultSchema, DryRunOutputSchema),
+      handler: (args, context) => this.executeWithSignatures(args, context),
+    }),
+  ];
+
   /**
    * Get list of available transaction management tools
    */
   getTools(): Tool[] {
-    return [
-      {
-        name: 'safe_propose_transaction',
-        description:
-          'Propose a new transaction to a Safe wallet. Creates a transaction proposal that can be signed and executed by Safe owners.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            safeAddress: {
-              type: 'string',
-              description:
-                'Safe wallet address (must be a valid checksummed Ethereum address)',
-              pattern: '^0x[a-fA-F0-9]{40}$',
-            },
-            to: {
-              type: 'string',
-              description:
-                'Transaction recipient address (must be a valid checksummed Ethereum address)',
-              pattern: '^0x[a-fA-F0-9]{40}$',
-            },
-            value: {
-              type: 'string',
-              description:
-                'Transaction value in wei (string representation of number)',
-            },
-            data: {
-              type: 'string',
-              description:
-                'Transaction data as hex string (use 0x for empty data)',
-              pattern: '^0x([a-fA-F0-9]{2})*$',
-            },
-            networkId: {
-              type: 'string',
-              description:
-                'CAIP-2 network identifier (e.g., eip155:1 for Ethereum mainnet)',
-              pattern: '^eip155:\\d+$',
-            },
-            operation: {
-              type: 'number',
-              description: 'Operation type: 0 for Call, 1 for DelegateCall',
-              enum: [0, 1],
-            },
-            safeTxGas: {
-              type: 'string',
-              description: 'Gas limit for Safe transaction execution',
-            },
-            baseGas: {
-              type: 'string',
-              description: 'Base gas for transaction',
-            },
-            gasPrice: {
-              type: 'string',
-              description: 'Gas price for transaction',
-            },
-            gasToken: {
-              type: 'string',
-              description: 'Token address for gas payment (0x0 for ETH)',
-              pattern: '^0x[a-fA-F0-9]{40}$',
-            },
-            refundReceiver: {
-              type: 'string',
-              description: 'Address to receive gas refund (0x0 for tx origin)',
-              pattern: '^0x[a-fA-F0-9]{40}$',
-            },
-            nonce: {
-              type: 'number',
-              description: 'Transaction nonce',
-            },
-          },
-          required: ['safeAddress', 'to', 'value', 'data', 'networkId'],
-        },
-      },
-      {
-        name: 'safe_execute_transaction',
-        description:
-          'Execute a Safe transaction directly with a private key. Bypasses the proposal/signing flow for immediate execution.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            safeAddress: {
-              type: 'string',
-              description:
-                'Safe wallet address (must be a valid checksummed Ethereum address)',
-              pattern: '^0x[a-fA-F0-9]{40}$',
-            },
-            to: {
-              type: 'string',
-              description:
-                'Transaction recipient address (must be a valid checksummed Ethereum address)',
-              pattern: '^0x[a-fA-F0-9]{40}$',
-            },
-            value: {
-              type: 'string',
-              description:
-                'Transaction value in wei (string representation of number)',
-            },
-            data: {
-              type: 'string',
-              description:
-                'Transaction data as hex string (use 0x for empty data)',
-              pattern: '^0x([a-fA-F0-9]{2})*$',
-            },
-            networkId: {
-              type: 'string',
-              description:
-                'CAIP-2 network identifier (e.g., eip155:1 for Ethereum mainnet)',
-              pattern: '^eip155:\\d+$',
-            },
-            privateKey: {
-              type: 'string',
-              description:
-                'Private key for transaction signing (32-byte hex string)',
-              pattern: '^0x[a-fA-F0-9]{64}$',
-            },
-            operation: {
-              type: 'number',
-              description: 'Operation type: 0 for Call, 1 for DelegateCall',
-              enum: [0, 1],
-            },
-            safeTxGas: {
-              type: 'string',
-              description: 'Gas limit for Safe transaction execution',
-            },
-            baseGas: {
-              type: 'string',
-              description: 'Base gas for transaction',
-            },
-            gasPrice: {
-              type: 'string',
-              description: 'Gas price for transaction',
-            },
-            gasToken: {
-              type: 'string',
-              description: 'Token address for gas payment (0x0 for ETH)',
-              pattern: '^0x[a-fA-F0-9]{40}$',
-            },
-            refundReceiver: {
-              type: 'string',
-              description: 'Address to receive gas refund (0x0 for tx origin)',
-              pattern: '^0x[a-fA-F0-9]{40}$',
-            },
-            nonce: {
-              type: 'number',
-              description: 'Transaction nonce',
-            },
-          },
-          required: [
-            'safeAddress',
-            'to',
-            'value',
-            'data',
-            'networkId',
-            'privateKey',
-          ],
-        },
-      },
-    ];
+    return this.definitions.map(toMcpTool);
   }
 
   /**
    * Handle tool calls for transaction management
    */
-  async handleToolCall(name: string, args: any): Promise<CallToolResult> {
+  async handleToolCall(
+    name: string,
+    args: unknown,
+    context: ToolCallContext = NO_TOOL_CALL_CONTEXT
+  ): Promise<CallToolResult> {
     try {
-      switch (name) {
-        case 'safe_propose_transaction':
-          return await this.proposeTransaction(args);
-        case 'safe_execute_transaction':
-          return await this.executeTransaction(args);
-        default:
-          throw new SafeError(
-            `Unknown tool: ${name}`,
-            ErrorCodes.TOOL_NOT_FOUND,
-            { toolName: name }
-          );
-      }
+      return await callToolDefinition(this.definitions, name, args, context);
     } catch (error) {
       if (error instanceof SafeError) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(error.toJSON(), null, 2),
-            },
-          ],
-          isError: true,
-        };
+        return toolErrorResult(error);
       }
 
       const message = error instanceof Error ? error.message : 'Unknown error';
-      const safeError = new SafeError(
-        `Unexpected error: ${message}`,
-        ErrorCodes.SAFE_OPERATION_ERROR
+      return toolErrorResult(
+        new SafeError(
+          `Unexpected error: ${message}`,
+          ErrorCodes.SAFE_OPERATION_ERROR
+        )
       );
-
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(safeError.toJSON(), null, 2),
-          },
-        ],
-        isError: true,
-      };
     }
   }
 
   /**
    * Propose a new Safe transaction
    */
-  private async proposeTransaction(args: any): Promise<CallToolResult> {
-    // Validate required fields
-    const requiredFields = ['safeAddress', 'to', 'value', 'data', 'networkId'];
-    for (const field of requiredFields) {
-      if (!args[field]) {
-        throw new SafeError(
-          `Transaction proposal validation failed: ${field} is required`,
-          ErrorCodes.VALIDATION_ERROR,
-          { field, value: args[field] }
-        );
-      }
-    }
-
-    // Validate Safe address format
-    if (!this.isValidAddress(args.safeAddress)) {
-      throw new SafeError(
-        'Invalid Safe address format',
-        ErrorCodes.VALIDATION_ERROR,
-        { address: args.safeAddress }
-      );
-    }
-
-    // Validate recipient address format
-    if (!this.isValidAddress(args.to)) {
-      throw new SafeError(
-        'Invalid recipient address format',
-        ErrorCodes.VALIDATION_ERROR,
-        { address: args.to }
-      );
-    }
-
+  private async proposeTransaction(
+    args: ProposeTransactionInput,
+    context: ToolCallContext
+  ): Promise<CallToolResult> {
     // Validate network
     if (!this.contractRegistry.validateNetwork(args.networkId)) {
       throw new SafeError(
@@ -271,35 +371,15 @@ export class TransactionManagementTools {
       );
     }
 
-    // Validate value format
-    if (!this.isValidValue(args.value)) {
-      throw new SafeError('Invalid value format', ErrorCodes.VALIDATION_ERROR, {
-        value: args.value,
-      });
-    }
-
-    // Validate data format
-    if (!this.isValidData(args.data)) {
-      throw new SafeError('Invalid data format', ErrorCodes.VALIDATION_ERROR, {
-        data: args.data,
-      });
-    }
-
-    // Validate operation if provided
-    if (args.operation !== undefined && ![0, 1].includes(args.operation)) {
-      throw new SafeError(
-        'Invalid operation type. Must be 0 (Call) or 1 (DelegateCall)',
-        ErrorCodes.VALIDATION_ERROR,
-        { operation: args.operation }
-      );
-    }
-
     try {
       // Get Safe instance for creating transaction proposal
-      const safe = await this.providerFactory.getSafe(
-        args.safeAddress,
-        args.networkId
-        // Note: No private key for proposal - just creating the transaction object
+      const safe = await abortable(
+        this.providerFactory.getSafe(
+          args.safeAddress,
+          args.networkId
+          // Note: No private key for proposal - just creating the transaction object
+        ),
+        context.signal
       );
 
       // Create transaction proposal using Safe SDK
@@ -314,7 +394,7 @@ export class TransactionManagementTools {
         gasToken: args.gasToken || '0x0000000000000000000000000000000000000000',
         refundReceiver:
           args.refundReceiver || '0x0000000000000000000000000000000000000000',
-        nonce: args.nonce || (await safe.getNonce()),
+        nonce: args.nonce ?? (await safe.getNonce()),
       };
 
       // Create Safe transaction (this generates the safeTxHash)
@@ -323,7 +403,7 @@ export class TransactionManagementTools {
       });
       const safeTxHash = await safe.getTransactionHash(safeTransaction);
 
-      const result = {
+      const result: z.input<typeof ProposalResultSchema> = {
         safeTxHash: safeTxHash,
         status: 'proposed',
         safeAddress: args.safeAddress,
@@ -338,16 +418,15 @@ export class TransactionManagementTools {
         timestamp: new Date().toISOString(),
       };
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(result, null, 2),
-          },
-        ],
-        isError: false,
-      };
+      return structuredResult(
+        ProposalResultSchema,
+        `Proposed Safe transaction ${safeTxHash} (nonce ${result.nonce}) on ${args.networkId}: ${args.value} wei to ${args.to}, ${result.confirmationsRequired} confirmation(s) required`,
+        result
+      );
     } catch (error) {
+      if (error instanceof SafeError) {
+        throw error;
+      }
       throw new SafeError(
         `Safe transaction proposal failed: ${error instanceof Error ? error.message : String(error)}`,
         ErrorCodes.SAFE_OPERATION_ERROR,
@@ -359,53 +438,179 @@ export class TransactionManagementTools {
   /**
    * Execute a Safe transaction directly
    */
-  private async executeTransaction(args: any): Promise<CallToolResult> {
-    // Validate required fields
-    const requiredFields = [
-      'safeAddress',
-      'to',
-      'value',
-      'data',
-      'networkId',
-      'privateKey',
-    ];
-    for (const field of requiredFields) {
-      if (!args[field]) {
-        throw new SafeError(
-          `Transaction execution validation failed: ${field} is required`,
-          ErrorCodes.VALIDATION_ERROR,
-          { field, value: args[field] }
-        );
-      }
-    }
+  private async executeTransaction(
+    args: ExecuteTransactionInput,
+    context: ToolCallContext
+  ): Promise<CallToolResult> {
+    // Resolve the signer (configured name or legacy private key)
+    const signer = this.signerRegistry.resolve(args);
 
-    // Validate private key format
-    if (!this.isValidPrivateKey(args.privateKey)) {
+    // Validate network
+    if (!this.contractRegistry.validateNetwork(args.networkId)) {
       throw new SafeError(
-        'Invalid private key format',
+        'Invalid or unsupported network',
         ErrorCodes.VALIDATION_ERROR,
-        { privateKeyLength: args.privateKey?.length }
+        { networkId: args.networkId }
       );
     }
 
-    // Validate Safe address format
-    if (!this.isValidAddress(args.safeAddress)) {
-      throw new SafeError(
-        'Invalid Safe address format',
-        ErrorCodes.VALIDATION_ERROR,
-        { address: args.safeAddress }
-      );
+    const policyAction = await this.withOwnerCount(
+      {
+        kind: 'transaction',
+        networkId: args.networkId,
+        safeAddress: args.safeAddress,
+        to: args.to,
+        value: args.value,
+        data: args.data,
+        operation: args.operation || 0,
+      },
+      context
+    );
+
+    if (args.dryRun) {
+      return await this.dryRunTransaction(args, signer, policyAction, context);
     }
 
-    // Validate recipient address format
-    if (!this.isValidAddress(args.to)) {
+    this.networkDefaults.assertConfirmed(args.networkId, args.confirm, {
+      tool: 'safe_execute_transaction',
+      safeAddress: args.safeAddress,
+      to: args.to,
+      value: args.value,
+      data: args.data,
+      operation: args.operation || 0,
+    });
+
+    // Checked before anything is signed; the value counts towards the daily
+    // limit until we know nothing was broadcast
+    const releaseSpend = this.policy?.enforce(policyAction) ?? (() => {});
+    let broadcast = false;
+
+    try {
+      // Get Safe instance connected to the signer
+      const safe = await abortable(
+        this.providerFactory.getSafe(args.safeAddress, args.networkId, signer),
+        context.signal
+      );
+      const { safeTransaction, safeTransactionData, safeTxHash } =
+        await this.createSafeTransaction(safe, args);
+
+      if (
+        this.networkDefaults.requiresApproval(
+          args.networkId,
+          'safe_execute_transaction'
+        )
+      ) {
+        await requireApproval(context, {
+          tool: 'safe_execute_transaction',
+          networkId: args.networkId,
+          networkName: this.contractRegistry.getNetworkInfo(args.networkId)
+            .name,
+          summary: `Execute Safe transaction ${safeTxHash} from Safe ${args.safeAddress}`,
+          details: {
+            Recipient: args.to,
+            Value: describeValue(args.value),
+            Call: describeCallData(args.data),
+            Operation: describeOperation(safeTransactionData.operation),
+            Nonce: String(safeTransactionData.nonce),
+          },
+        });
+      }
+
+      const gasOptions = await this.providerFactory.getGasOptions(
+        args.networkId,
+        this.networkDefaults.getGasStrategy(args.networkId, args.gasStrategy)
+      );
+
+      // Last point at which cancelling leaves nothing on chain
+      throwIfCancelled(context.signal, { safeTxHash });
+
+      // Execute the transaction directly, priced and confirmed per network
+      const executeTxResponse = await safe.executeTransaction(
+        safeTransaction,
+        gasOptions
+      );
+      broadcast = true;
+      const receipt = await waitForReceipt(
+        await this.providerFactory.getProvider(args.networkId),
+        executeTxResponse.hash,
+        this.networkDefaults.getConfirmations(
+          args.networkId,
+          args.confirmations
+        ),
+        context.signal,
+        { safeTxHash, networkId: args.networkId }
+      );
+
+      const result: z.input<typeof ExecutionResultSchema> = {
+        transactionHash: receipt.hash,
+        safeTxHash,
+        blockNumber: receipt.blockNumber,
+        gasUsed: receipt.gasUsed?.toString(),
+        status: 'executed',
+        safeAddress: args.safeAddress,
+        to: args.to,
+        value: args.value,
+        data: args.data,
+        networkId: args.networkId,
+        operation: args.operation || 0,
+        nonce: safeTransactionData.nonce,
+        timestamp: new Date().toISOString(),
+      };
+
+      return structuredResult(
+        ExecutionResultSchema,
+        `Executed Safe transaction ${result.safeTxHash} on ${args.networkId} in transaction ${receipt.hash} (block ${receipt.blockNumber})`,
+        result
+      );
+    } catch (error) {
+      if (!broadcast) {
+        releaseSpend();
+      }
+      if (error instanceof SafeError) {
+        throw error;
+      }
       throw new SafeError(
-        'Invalid recipient address format',
-        ErrorCodes.VALIDATION_ERROR,
-        { address: args.to }
+        `Safe transaction execution failed: ${error instanceof Error ? error.message : String(error)}`,
+        ErrorCodes.SAFE_OPERATION_ERROR,
+        { operation: 'execute_transaction', originalError: String(error) }
       );
     }
+  }
+
+  /**
+   * Add the Safe's current number of owners to a transaction that changes
+   * its owners, so the policy can hold it to minOwners
+   */
+  private async withOwnerCount(
+    action: Extract<PolicyAction, { kind: 'transaction' }>,
+    context: ToolCallContext
+  ): Promise<PolicyAction> {
+    if (!this.policy?.changesOwners(action)) {
+      return action;
+    }
+
+    const provider = await this.providerFactory.getProvider(action.networkId);
+    const returned = await abortable(
+      provider.call({
+        to: action.safeAddress,
+        data: SAFE_READS.encodeFunctionData('getOwners'),
+      }),
+      context.signal
+    );
+    const [owners] = SAFE_READS.decodeFunctionResult('getOwners', returned);
+    return { ...action, owners: (owners as string[]).length };
+  }
 
+  /**
+   * Sign the EIP-712 hash of a Safe transaction as one owner
+   *
+   * The hash is computed locally for the Safe's version and chain, so with
+   * safeVersion and nonce given only the owner check needs the RPC.
+   */
+  private async signTransaction(
+    args: SignTransactionInput,
+    context: ToolCallContext
+  ): Promise<CallToolResult> {
     // Validate network
     if (!this.contractRegistry.validateNetwork(args.networkId)) {
       throw new SafeError(
@@ -415,134 +620,510 @@ export class TransactionManagementTools {
       );
     }
 
-    // Validate value format
-    if (!this.isValidValue(args.value)) {
-      throw new SafeError('Invalid value format', ErrorCodes.VALIDATION_ERROR, {
-        value: args.value,
-      });
+    // Resolve the signer (configured name or legacy private key)
+    const signer = this.signerRegistry.resolve(args);
+    const chainId = this.contractRegistry.getNetworkInfo(
+      args.networkId
+    ).chainId;
+    const readSafe = async <T>(
+      method: string,
+      ...methodArgs: unknown[]
+    ): Promise<T> => {
+      const provider = await this.providerFactory.getProvider(args.networkId);
+      const returned = await abortable(
+        provider.call({
+          to: args.safeAddress,
+          data: SAFE_READS.encodeFunctionData(method, methodArgs),
+        }),
+        context.signal
+      );
+      return SAFE_READS.decodeFunctionResult(method, returned)[0] as T;
+    };
+
+    let safeVersion: string;
+    let nonce: number;
+    try {
+      safeVersion = args.safeVersion ?? (await readSafe<string>('VERSION'));
+      nonce = args.nonce ?? Number(await readSafe<bigint>('nonce'));
+    } catch (error) {
+      if (error instanceof SafeError && error.code === ErrorCodes.CANCELLED) {
+        throw error;
+      }
+      throw new SafeError(
+        `Cannot read the version and nonce of Safe ${args.safeAddress}; pass safeVersion and nonce to sign offline: ${error instanceof Error ? error.message : String(error)}`,
+        ErrorCodes.NETWORK_ERROR,
+        { safeAddress: args.safeAddress, networkId: args.networkId }
+      );
     }
 
-    // Validate data format
-    if (!this.isValidData(args.data)) {
-      throw new SafeError('Invalid data format', ErrorCodes.VALIDATION_ERROR, {
-        data: args.data,
+    const transaction: SafeTransactionFields = {
+      to: args.to,
+      value: args.value,
+      data: args.data,
+      operation: args.operation || 0,
+      safeTxGas: args.safeTxGas || '0',
+      baseGas: args.baseGas || '0',
+      gasPrice: args.gasPrice || '0',
+      gasToken: args.gasToken || ZeroAddress,
+      refundReceiver: args.refundReceiver || ZeroAddress,
+      nonce,
+    };
+    const typedData = getSafeTxTypedData(
+      chainId,
+      args.safeAddress,
+      safeVersion,
+      transaction
+    );
+    const safeTxHash = hashSafeTypedData(typedData);
+
+    // A signature can be executed by anyone once the threshold is met, so
+    // it is held to the same policy and approval as an execution
+    this.policy?.check(
+      await this.withOwnerCount(
+        {
+          kind: 'transaction',
+          networkId: args.networkId,
+          safeAddress: args.safeAddress,
+          to: transaction.to,
+          value: transaction.value,
+          data: transaction.data,
+          operation: transaction.operation,
+        },
+        context
+      )
+    );
+
+    if (
+      this.networkDefaults.requiresApproval(
+        args.networkId,
+        'safe_sign_transaction'
+      )
+    ) {
+      await requireApproval(context, {
+        tool: 'safe_sign_transaction',
+        networkId: args.networkId,
+        networkName: this.contractRegistry.getNetworkInfo(args.networkId).name,
+        summary: `Sign Safe transaction ${safeTxHash} for Safe ${args.safeAddress} as signer '${signer.name}'`,
+        details: {
+          Recipient: transaction.to,
+          Value: describeValue(transaction.value),
+          Call: describeCallData(transaction.data),
+          Operation: describeOperation(transaction.operation),
+          Nonce: String(nonce),
+        },
       });
     }
 
-    // Validate operation if provided
-    if (args.operation !== undefined && ![0, 1].includes(args.operation)) {
+    throwIfCancelled(context.signal, { safeTxHash });
+    const signature = await signer.signTypedData(
+      typedData.domain,
+      typedData.types,
+      typedData.message
+    );
+
+    const recovered = verifyTypedData(
+      typedData.domain,
+      typedData.types,
+      typedData.message,
+      signature
+    );
+    const signerAddress = await signer.getAddress();
+    if (recovered.toLowerCase() !== signerAddress.toLowerCase()) {
       throw new SafeError(
-        'Invalid operation type. Must be 0 (Call) or 1 (DelegateCall)',
+        `Signature of signer '${signer.name}' recovers to ${recovered} instead of ${signerAddress}`,
+        ErrorCodes.SIGNER_ERROR,
+        { signer: signer.name, expected: signerAddress, recovered, safeTxHash }
+      );
+    }
+
+    // The signature stays valid without the owner check, so a failed read
+    // only leaves it out
+    let isOwner: boolean | undefined;
+    try {
+      isOwner = await readSafe<boolean>('isOwner', recovered);
+    } catch (error) {
+      if (error instanceof SafeError && error.code === ErrorCodes.CANCELLED) {
+        throw error;
+      }
+      isOwner = undefined;
+    }
+
+    const result: z.input<typeof SignatureResultSchema> = {
+      safeTxHash,
+      signature,
+      signer: recovered,
+      isOwner,
+      safeAddress: args.safeAddress,
+      networkId: args.networkId,
+      chainId,
+      safeVersion,
+      transaction,
+    };
+
+    const ownership =
+      isOwner === undefined
+        ? 'owner status unknown'
+        : isOwner
+          ? 'an owner'
+          : 'NOT an owner';
+    return structuredResult(
+      SignatureResultSchema,
+      `Signed Safe transaction ${safeTxHash} (nonce ${nonce}) as ${recovered}, ${ownership} of Safe ${args.safeAddress} on ${args.networkId}`,
+      result
+    );
+  }
+
+  /**
+   * Execute a Safe transaction with signatures collected elsewhere
+   */
+  private async executeWithSignatures(
+    args: ExecuteWithSignaturesInput,
+    context: ToolCallContext
+  ): Promise<CallToolResult> {
+    // Validate network
+    if (!this.contractRegistry.validateNetwork(args.networkId)) {
+      throw new SafeError(
+        'Invalid or unsupported network',
         ErrorCodes.VALIDATION_ERROR,
-        { operation: args.operation }
+        { networkId: args.networkId }
       );
     }
 
+    // Resolve the executor (configured name or legacy private key)
+    const signer = this.signerRegistry.resolve(args);
+    const executor = await signer.getAddress();
+    const { transaction } = args;
+    const policyAction = await this.withOwnerCount(
+      {
+        kind: 'transaction',
+        networkId: args.networkId,
+        safeAddress: args.safeAddress,
+        to: transaction.to,
+        value: transaction.value,
+        data: transaction.data,
+        operation: transaction.operation,
+      },
+      context
+    );
+
+    let releaseSpend = (): void => {};
+    let broadcast = false;
+
     try {
-      // Get Safe instance using the provided private key
-      const safe = await this.providerFactory.getSafe(
-        args.safeAddress,
-        args.networkId,
-        args.privateKey
+      const safe = await abortable(
+        this.providerFactory.getSafe(args.safeAddress, args.networkId, signer),
+        context.signal
       );
+      const { safeTransaction, safeTxHash, signatures } =
+        await this.collectSignatures(safe, args, executor, context);
+      const signers = signatures.map(({ signer, type }) => ({ signer, type }));
 
-      // Create transaction data
-      const safeTransactionData = {
-        to: args.to,
-        value: args.value,
-        data: args.data,
-        operation: args.operation || 0,
-        safeTxGas: args.safeTxGas || '0',
-        baseGas: args.baseGas || '0',
-        gasPrice: args.gasPrice || '0',
-        gasToken: args.gasToken || '0x0000000000000000000000000000000000000000',
-        refundReceiver:
-          args.refundReceiver || '0x0000000000000000000000000000000000000000',
-        nonce: args.nonce || (await safe.getNonce()),
-      };
+      if (args.dryRun) {
+        const simulation = await abortable(
+          simulateSignedSafeTransaction(
+            await this.providerFactory.getProvider(args.networkId),
+            safe,
+            safeTransaction,
+            executor
+          ),
+          context.signal
+        );
+        const result = dryRunOutput(
+          args.networkId,
+          simulation,
+          this.policy?.evaluate(policyAction)
+        );
+        return structuredResult(
+          DryRunOutputSchema,
+          `Dry run of Safe transaction ${safeTxHash} on ${args.networkId} with ${signers.length} signature(s): ${describeSimulation(result)}`,
+          result
+        );
+      }
 
-      // Create Safe transaction
-      const safeTransaction = await safe.createTransaction({
-        transactions: [safeTransactionData],
+      this.networkDefaults.assertConfirmed(args.networkId, args.confirm, {
+        tool: 'safe_execute_with_signatures',
+        safeAddress: args.safeAddress,
+        safeTxHash,
+        to: transaction.to,
+        value: transaction.value,
+        data: transaction.data,
+        operation: transaction.operation,
       });
 
-      // Execute the transaction directly
-      const executeTxResponse = await safe.executeTransaction(safeTransaction);
-      const receipt = await executeTxResponse.transactionResponse?.wait();
+      // Checked before anything is sent; the value counts towards the daily
+      // limit until we know nothing was broadcast
+      releaseSpend = this.policy?.enforce(policyAction) ?? releaseSpend;
 
-      if (!receipt) {
-        throw new SafeError(
-          'Transaction failed: no receipt received',
-          ErrorCodes.SAFE_OPERATION_ERROR,
-          { operation: 'execute_transaction' }
-        );
+      if (
+        this.networkDefaults.requiresApproval(
+          args.networkId,
+          'safe_execute_with_signatures'
+        )
+      ) {
+        await requireApproval(context, {
+          tool: 'safe_execute_with_signatures',
+          networkId: args.networkId,
+          networkName: this.contractRegistry.getNetworkInfo(args.networkId)
+            .name,
+          summary: `Execute Safe transaction ${safeTxHash} from Safe ${args.safeAddress} as ${executor}`,
+          details: {
+            Recipient: transaction.to,
+            Value: describeValue(transaction.value),
+            Call: describeCallData(transaction.data),
+            Operation: describeOperation(transaction.operation),
+            Nonce: String(transaction.nonce),
+            Signers: signers
+              .map(({ signer, type }) => `${signer} (${type})`)
+              .join(', '),
+          },
+        });
       }
 
-      const result = {
+      const gasOptions = await this.providerFactory.getGasOptions(
+        args.networkId,
+        this.networkDefaults.getGasStrategy(args.networkId, args.gasStrategy)
+      );
+
+      // Last point at which cancelling leaves nothing on chain
+      throwIfCancelled(context.signal, { safeTxHash });
+
+      const executeTxResponse = await safe.executeTransaction(
+        safeTransaction,
+        gasOptions
+      );
+      broadcast = true;
+      const receipt = await waitForReceipt(
+        await this.providerFactory.getProvider(args.networkId),
+        executeTxResponse.hash,
+        this.networkDefaults.getConfirmations(
+          args.networkId,
+          args.confirmations
+        ),
+        context.signal,
+        { safeTxHash, networkId: args.networkId }
+      );
+
+      const result: z.input<typeof SignedExecutionResultSchema> = {
         transactionHash: receipt.hash,
-        safeTxHash: await safe.getTransactionHash(safeTransaction),
+        safeTxHash,
         blockNumber: receipt.blockNumber,
         gasUsed: receipt.gasUsed?.toString(),
         status: 'executed',
         safeAddress: args.safeAddress,
-        to: args.to,
-        value: args.value,
-        data: args.data,
+        to: transaction.to,
+        value: transaction.value,
+        data: transaction.data,
         networkId: args.networkId,
-        operation: args.operation || 0,
-        nonce: safeTransactionData.nonce,
+        operation: transaction.operation,
+        nonce: transaction.nonce,
+        executor,
+        signers,
         timestamp: new Date().toISOString(),
       };
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(result, null, 2),
-          },
-        ],
-        isError: false,
-      };
+      return structuredResult(
+        SignedExecutionResultSchema,
+        `Executed Safe transaction ${safeTxHash} on ${args.networkId} with ${signers.length} signature(s) in transaction ${receipt.hash} (block ${receipt.blockNumber})`,
+        result
+      );
     } catch (error) {
+      if (!broadcast) {
+        releaseSpend();
+      }
+      if (error instanceof SafeError) {
+        throw error;
+      }
       throw new SafeError(
         `Safe transaction execution failed: ${error instanceof Error ? error.message : String(error)}`,
         ErrorCodes.SAFE_OPERATION_ERROR,
-        { operation: 'execute_transaction', originalError: String(error) }
+        {
+          operation: 'execute_with_signatures',
+          originalError: String(error),
+        }
       );
     }
   }
 
   /**
-   * Validate Ethereum address format
+   * Check the supplied signatures against the Safe's owners, threshold and
+   * nonce, and attach them to the Safe transaction. The protocol kit sorts
+   * them by owner and packs contract signatures after the static part.
    */
-  private isValidAddress(address: string): boolean {
-    return /^0x[a-fA-F0-9]{40}$/.test(address);
-  }
+  private async collectSignatures(
+    safe: Safe,
+    args: ExecuteWithSignaturesInput,
+    executor: string,
+    context: ToolCallContext
+  ): Promise<{
+    safeTransaction: EthSafeTransaction;
+    safeTxHash: string;
+    signatures: CheckedSignature[];
+  }> {
+    const { transaction } = args;
+    const [owners, threshold, nonce, safeVersion]: [
+      string[],
+      number,
+      number,
+      string,
+    ] = await abortable(
+      Promise.all([
+        safe.getOwners(),
+        safe.getThreshold(),
+        safe.getNonce(),
+        safe.getContractVersion(),
+      ]),
+      context.signal
+    );
 
-  /**
-   * Validate value format (numeric string)
-   */
-  private isValidValue(value: string): boolean {
-    try {
-      BigInt(value);
-      return true;
-    } catch {
-      return false;
+    if (transaction.nonce !== nonce) {
+      throw new SafeError(
+        transaction.nonce < nonce
+          ? `Nonce ${transaction.nonce} was already used; the Safe is at nonce ${nonce}`
+          : `Nonce ${transaction.nonce} is ahead of the Safe's nonce ${nonce}; execute the earlier transactions first`,
+        ErrorCodes.VALIDATION_ERROR,
+        {
+          safeAddress: args.safeAddress,
+          nonce: transaction.nonce,
+          safeNonce: nonce,
+        }
+      );
+    }
+
+    const typedData = getSafeTxTypedData(
+      this.contractRegistry.getNetworkInfo(args.networkId).chainId,
+      args.safeAddress,
+      safeVersion,
+      transaction
+    );
+    const safeTxHash = hashSafeTypedData(typedData);
+    const approvedBy: string[] = await abortable(
+      safe.getOwnersWhoApprovedTx(safeTxHash),
+      context.signal
+    );
+
+    const { valid, problems } = await abortable(
+      checkSignatures(
+        await this.providerFactory.getProvider(args.networkId),
+        { typedData, safeTxHash, owners, approvedBy, executor },
+        args.signatures
+      ),
+      context.signal
+    );
+    if (problems.length > 0) {
+      throw new SafeError(
+        `Invalid signatures for Safe transaction ${safeTxHash}: ${problems.map((problem) => `${problem.signer} (${problem.type}): ${problem.reason}`).join('; ')}`,
+        ErrorCodes.VALIDATION_ERROR,
+        { safeTxHash, problems }
+      );
     }
+    if (valid.length < threshold) {
+      throw new SafeError(
+        `Safe ${args.safeAddress} needs ${threshold} owner signature(s), got ${valid.length}`,
+        ErrorCodes.VALIDATION_ERROR,
+        {
+          safeTxHash,
+          threshold,
+          signers: valid.map((signature) => signature.signer),
+        }
+      );
+    }
+
+    const safeTransaction = new EthSafeTransaction(transaction);
+    for (const signature of valid) {
+      safeTransaction.addSignature(
+        new EthSafeSignature(
+          signature.signer,
+          signature.data,
+          signature.isContractSignature
+        )
+      );
+    }
+
+    return { safeTransaction, safeTxHash, signatures: valid };
   }
 
   /**
-   * Validate data format (hex string)
+   * Build the Safe transaction for the execution arguments
    */
-  private isValidData(data: string): boolean {
-    return /^0x([a-fA-F0-9]{2})*$/.test(data);
+  private async createSafeTransaction(
+    safe: Safe,
+    args: ExecuteTransactionInput
+  ): Promise<{
+    safeTransaction: SafeTransaction;
+    safeTransactionData: { operation: number; nonce: number };
+    safeTxHash: string;
+  }> {
+    const safeTransactionData = {
+      to: args.to,
+      value: args.value,
+      data: args.data,
+      operation: args.operation || 0,
+      safeTxGas: args.safeTxGas || '0',
+      baseGas: args.baseGas || '0',
+      gasPrice: args.gasPrice || '0',
+      gasToken: args.gasToken || '0x0000000000000000000000000000000000000000',
+      refundReceiver:
+        args.refundReceiver || '0x0000000000000000000000000000000000000000',
+      nonce: args.nonce ?? (await safe.getNonce()),
+    };
+
+    const safeTransaction = await safe.createTransaction({
+      transactions: [safeTransactionData],
+    });
+    return {
+      safeTransaction,
+      safeTransactionData,
+      safeTxHash: await safe.getTransactionHash(safeTransaction),
+    };
   }
 
   /**
-   * Validate private key format
+   * Build and simulate the execution without broadcasting it; policy
+   * violations are reported instead of thrown
    */
-  private isValidPrivateKey(privateKey: string): boolean {
-    return /^0x[a-fA-F0-9]{64}$/.test(privateKey);
+  private async dryRunTransaction(
+    args: ExecuteTransactionInput,
+    signer: SafeSigner,
+    policyAction: PolicyAction,
+    context: ToolCallContext
+  ): Promise<CallToolResult> {
+    try {
+      const safe = await abortable(
+        this.providerFactory.getSafe(args.safeAddress, args.networkId, signer),
+        context.signal
+      );
+      const { safeTransaction } = await this.createSafeTransaction(safe, args);
+      const simulation = await abortable(
+        simulateSafeTransaction(
+          await this.providerFactory.getProvider(args.networkId),
+          safe,
+          safeTransaction,
+          await signer.getAddress()
+        ),
+        context.signal
+      );
+
+      const result = dryRunOutput(
+        args.networkId,
+        simulation,
+        this.policy?.evaluate(policyAction)
+      );
+
+      return structuredResult(
+        DryRunOutputSchema,
+        `Dry run of Safe transaction ${simulation.safeTxHash} on ${args.networkId}: ${describeSimulation(result)}`,
+        result
+      );
+    } catch (error) {
+      if (error instanceof SafeError) {
+        throw error;
+      }
+      throw new SafeError(
+        `Safe transaction simulation failed: ${error instanceof Error ? error.message : String(error)}`,
+        ErrorCodes.SAFE_OPERATION_ERROR,
+        { operation: 'execute_transaction', originalError: String(error) }
+      );
+    }
   }
 
   /**
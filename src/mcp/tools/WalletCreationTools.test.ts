@@ -0,0 +1,50 @@
+import { WalletCreationTools } from './WalletCreationTools.js';
+import { ContractRegistry } from '../../network/ContractRegistry.js';
+import { ErrorCodes } from '../../utils/SafeError.js';
+
+const OWNER = '0x1234567890123456789012345678901234567890';
+
+function errorOf(result: { content: unknown[] }): {
+  code: string;
+  message: string;
+  details?: Record<string, unknown>;
+} {
+  const [content] = result.content as [{ text: string }];
+  return JSON.parse(content.text).error;
+}
+
+describe('WalletCreationTools errors', () => {
+  const tools = new WalletCreationTools(new ContractRegistry());
+
+  it('reports an invalid wallet configuration as a VALIDATION_ERROR', async () => {
+    const result = await tools.handleToolCall('safe_predict_address', {
+      owners: [OWNER],
+      threshold: 2,
+      networkId: 'eip155:1',
+    });
+
+    expect(result.isError).toBe(true);
+    expect(errorOf(result)).toMatchObject({
+      code: ErrorCodes.VALIDATION_ERROR,
+      details: {
+        isValid: false,
+        errors: ['Threshold cannot be greater than number of owners'],
+      },
+    });
+  });
+
+  it('keeps the code of a signer resolution error', async () => {
+    const result = await tools.handleToolCall('safe_deploy_wallet', {
+      owners: [OWNER],
+      threshold: 1,
+      networkId: 'eip155:1',
+      signer: 'vault',
+    });
+
+    expect(result.isError).toBe(true);
+    expect(errorOf(result)).toMatchObject({
+      code: ErrorCodes.VALIDATION_ERROR,
+      details: { signer: 'vault' },
+    });
+  });
+});
@@ -1,21 +1,160 @@
+import { z } from 'zod';
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import { ContractRegistry } from '../../network/ContractRegistry.js';
-import { SafeError } from '../../utils/SafeError.js';
-import { ProviderFactory } from '../../blockchain/ProviderFactory.js';
+import { SafeError, ErrorCodes } from '../../utils/SafeError.js';
+import {
+  abortable,
+  throwIfCancelled,
+  waitForReceipt,
+} from '../../utils/cancellation.js';
+import {
+  ProviderFactory,
+  SafeFactoryOptions,
+} from '../../blockchain/ProviderFactory.js';
+import {
+  describeSimulation,
+  simulateTransaction,
+} from '../../blockchain/TransactionSimulator.js';
 import { SafeAccountConfig } from '@safe-global/protocol-kit';
+import { SignerRegistry } from '../../signers/SignerRegistry.js';
+import { TransactionPolicy } from '../../policy/TransactionPolicy.js';
+import { PrivateKeySigner } from '../../signers/PrivateKeySigner.js';
+import { SafeSigner } from '../../signers/types.js';
+import { GasStrategy, SafeConfig, SafeVersion } from '../../config/types.js';
+import { DEFAULT_CONFIG } from '../../config/defaults.js';
+import { NetworkDefaults } from '../../config/NetworkDefaults.js';
+import {
+  ToolDefinition,
+  callToolDefinition,
+  defineTool,
+  structuredResult,
+  toMcpTool,
+  toolErrorResult,
+} from './ToolDefinition.js';
+import { NO_TOOL_CALL_CONTEXT, ToolCallContext } from './ToolCallContext.js';
+import { requireApproval } from './ToolApproval.js';
+import {
+  AddressSchema,
+  DryRunOutputSchema,
+  NetworkIdSchema,
+  PrivateKeySchema,
+  SafeVersionSchema,
+  SignerNameSchema,
+  WeiValueSchema,
+  WriteOptionsSchema,
+  dryRunOutput,
+  withDryRun,
+} from './schemas.js';
+
+/**
+ * Safe wallet parameters shared by configuration, prediction and deployment
+ */
+const WalletConfigSchema = z.object({
+  owners: z
+    .array(AddressSchema)
+    .min(1)
+    .describe(
+      'Array of owner addresses (must be valid checksummed Ethereum addresses)'
+    ),
+  threshold: z
+    .number()
+    .int()
+    .min(1)
+    .describe(
+      'Number of required confirmations (must be between 1 and number of owners)'
+    ),
+  networkId: NetworkIdSchema,
+  saltNonce: z
+    .string()
+    .optional()
+    .describe('Optional salt nonce for deterministic address generation'),
+  fallbackHandler: AddressSchema.optional().describe(
+    'Optional fallback handler contract address'
+  ),
+  modules: z
+    .array(AddressSchema)
+    .optional()
+    .describe('Optional array of module addresses to enable'),
+  guard: AddressSchema.optional().describe('Optional guard contract address'),
+  paymentToken: AddressSchema.optional().describe(
+    'Optional payment token address for deployment costs'
+  ),
+  payment: WeiValueSchema.optional().describe(
+    'Optional payment amount for deployment costs'
+  ),
+  paymentReceiver: AddressSchema.optional().describe(
+    'Optional payment receiver address'
+  ),
+});
+
+const PredictAddressSchema = WalletConfigSchema.extend({
+  safeVersion: SafeVersionSchema.optional().describe(
+    "Safe contract version (defaults to the network's safeVersion)"
+  ),
+  useL2Singleton: z
+    .boolean()
+    .optional()
+    .describe(
+      "Use the L2 singleton that emits events for indexers (defaults to the network's useL2Singleton)"
+    ),
+});
+
+const DeployWalletSchema = PredictAddressSchema.extend({
+  signer: SignerNameSchema.optional().describe(
+    'Name of a configured signer that sends the deployment transaction'
+  ),
+  privateKey: PrivateKeySchema.optional().describe(
+    'Deprecated, use signer. Private key for deployment transaction signing (32-byte hex string)'
+  ),
+}).merge(WriteOptionsSchema);
+
+type DeployWalletInput = z.infer<typeof DeployWalletSchema>;
+
+const ConfigValidationResultSchema = z.object({
+  isValid: z.boolean(),
+  configuration: PredictAddressSchema.optional().describe(
+    'The validated configuration, present when valid'
+  ),
+  errors: z.array(z.string()),
+  warnings: z.array(z.string()),
+});
+
+const AddressPredictionResultSchema = z.object({
+  address: z.string().describe('Predicted Safe address'),
+  isDeployed: z.boolean(),
+  networkId: z.string(),
+  configuration: PredictAddressSchema,
+  saltNonce: z.string().optional(),
+});
+
+const WalletDeploymentResultSchema = z.object({
+  address: z.string(),
+  transactionHash: z.string(),
+  isDeployed: z.boolean(),
+  networkId: z.string(),
+  configuration: PredictAddressSchema,
+  gasUsed: z.string().optional(),
+});
+
+const DeploymentDryRunSchema = DryRunOutputSchema.extend({
+  address: z.string().describe('Predicted Safe address'),
+  isDeployed: z.boolean(),
+});
 
 export interface WalletConfig {
   owners: string[];
   threshold: number;
   networkId: string;
-  saltNonce?: string;
-  fallbackHandler?: string;
-  modules?: string[];
-  guard?: string;
-  paymentToken?: string;
-  payment?: string;
-  paymentReceiver?: string;
+  saltNonce?: string | undefined;
+  fallbackHandler?: string | undefined;
+  modules?: string[] | undefined;
+  guard?: string | undefined;
+  paymentToken?: string | undefined;
+  payment?: string | undefined;
+  paymentReceiver?: string | undefined;
+  safeVersion?: SafeVersion | undefined;
+  useL2Singleton?: boolean | undefined;
 }
 
 export interface ConfigValidationResult {
@@ -34,7 +173,9 @@ export interface AddressPredictionResult {
 }
 
 export interface WalletDeploymentConfig extends WalletConfig {
-  privateKey: string;
+  signer: SafeSigner;
+  gasStrategy?: GasStrategy | undefined;
+  confirmations?: number | undefined;
 }
 
 export interface WalletDeploymentResult {
@@ -43,465 +184,349 @@ export interface WalletDeploymentResult {
   isDeployed: boolean;
   networkId: string;
   configuration: WalletConfig;
-  gasUsed?: string;
+  gasUsed?: string | undefined;
 }
 
 export class WalletCreationTools {
   private contractRegistry: ContractRegistry;
   private providerFactory: ProviderFactory;
-
-  constructor(contractRegistry: ContractRegistry) {
+  private signerRegistry: SignerRegistry;
+  private networkDefaults: NetworkDefaults;
+  private policy: TransactionPolicy | undefined;
+
+  constructor(
+    contractRegistry: ContractRegistry,
+    signerRegistry: SignerRegistry = new SignerRegistry(),
+    config: SafeConfig = DEFAULT_CONFIG,
+    policy?: TransactionPolicy
+  ) {
     this.contractRegistry = contractRegistry;
-    this.providerFactory = new ProviderFactory();
+    this.providerFactory = new ProviderFactory(config);
+    this.signerRegistry = signerRegistry;
+    this.networkDefaults = new NetworkDefaults(config);
+    this.policy = policy;
   }
 
+  /**
+   * Apply a reloaded configuration
+   */
+  updateConfig(config: SafeConfig): void {
+    this.providerFactory.updateConfig(config);
+    this.networkDefaults.updateConfig(config);
+  }
+
+  private definitions: ToolDefinition[] = [
+    defineTool({
+      name: 'safe_create_wallet_config',
+      description:
+        'Validate and configure Safe wallet parameters before deployment. Validates owner addresses, threshold settings, network compatibility, and optional configurations like fallback handlers, modules, and guards.',
+      inputSchema: WalletConfigSchema,
+      outputSchema: ConfigValidationResultSchema,
+      handler: (args) => this.handleCreateWalletConfig(args),
+    }),
+    defineTool({
+      name: 'safe_predict_address',
+      description:
+        'Predict the address of a Safe wallet before deployment using the provided configuration. Returns the predicted address and deployment status.',
+      inputSchema: PredictAddressSchema,
+      outputSchema: AddressPredictionResultSchema,
+      handler: (args) => this.handlePredictAddress(args),
+    }),
+    defineTool({
+      name: 'safe_deploy_wallet',
+      description:
+        'Deploy a new Safe wallet with the provided configuration. Requires a signer for the deployment transaction.',
+      inputSchema: DeployWalletSchema,
+      outputSchema: withDryRun(
+        WalletDeploymentResultSchema,
+        DeploymentDryRunSchema
+      ),
+      handler: (args, context) => this.handleDeployWallet(args, context),
+    }),
+  ];
+
   getTools(): Tool[] {
-    return [
-      {
-        name: 'safe_create_wallet_config',
-        description:
-          'Validate and configure Safe wallet parameters before deployment. Validates owner addresses, threshold settings, network compatibility, and optional configurations like fallback handlers, modules, and guards.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            owners: {
-              type: 'array',
-              items: { type: 'string' },
-              description:
-                'Array of owner addresses (must be valid checksummed Ethereum addresses)',
-              minItems: 1,
-            },
-            threshold: {
-              type: 'number',
-              description:
-                'Number of required confirmations (must be between 1 and number of owners)',
-              minimum: 1,
-            },
-            networkId: {
-              type: 'string',
-              description:
-                'CAIP-2 network identifier (e.g., eip155:1 for Ethereum mainnet)',
-              pattern: '^eip155:\\d+$',
-            },
-            saltNonce: {
-              type: 'string',
-              description:
-                'Optional salt nonce for deterministic address generation',
-            },
-            fallbackHandler: {
-              type: 'string',
-              description: 'Optional fallback handler contract address',
-            },
-            modules: {
-              type: 'array',
-              items: { type: 'string' },
-              description: 'Optional array of module addresses to enable',
-            },
-            guard: {
-              type: 'string',
-              description: 'Optional guard contract address',
-            },
-            paymentToken: {
-              type: 'string',
-              description:
-                'Optional payment token address for deployment costs',
-            },
-            payment: {
-              type: 'string',
-              description: 'Optional payment amount for deployment costs',
-            },
-            paymentReceiver: {
-              type: 'string',
-              description: 'Optional payment receiver address',
-            },
-          },
-          required: ['owners', 'threshold', 'networkId'],
-        },
-      },
-      {
-        name: 'safe_predict_address',
-        description:
-          'Predict the address of a Safe wallet before deployment using the provided configuration. Returns the predicted address and deployment status.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            owners: {
-              type: 'array',
-              items: { type: 'string' },
-              description:
-                'Array of owner addresses (must be valid checksummed Ethereum addresses)',
-              minItems: 1,
-            },
-            threshold: {
-              type: 'number',
-              description:
-                'Number of required confirmations (must be between 1 and number of owners)',
-              minimum: 1,
-            },
-            networkId: {
-              type: 'string',
-              description:
-                'CAIP-2 network identifier (e.g., eip155:1 for Ethereum mainnet)',
-              pattern: '^eip155:\\d+$',
-            },
-            saltNonce: {
-              type: 'string',
-              description:
-                'Optional salt nonce for deterministic address generation',
-            },
-            fallbackHandler: {
-              type: 'string',
-              description: 'Optional fallback handler contract address',
-            },
-            modules: {
-              type: 'array',
-              items: { type: 'string' },
-              description: 'Optional array of module addresses to enable',
-            },
-            guard: {
-              type: 'string',
-              description: 'Optional guard contract address',
-            },
-            paymentToken: {
-              type: 'string',
-              description:
-                'Optional payment token address for deployment costs',
-            },
-            payment: {
-              type: 'string',
-              description: 'Optional payment amount for deployment costs',
-            },
-            paymentReceiver: {
-              type: 'string',
-              description: 'Optional payment receiver address',
-            },
-          },
-          required: ['owners', 'threshold', 'networkId'],
-        },
-      },
-      {
-        name: 'safe_deploy_wallet',
-        description:
-          'Deploy a new Safe wallet with the provided configuration. Requires a private key for deployment transaction signing.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            owners: {
-              type: 'array',
-              items: { type: 'string' },
-              description:
-                'Array of owner addresses (must be valid checksummed Ethereum addresses)',
-              minItems: 1,
-            },
-            threshold: {
-              type: 'number',
-              description:
-                'Number of required confirmations (must be between 1 and number of owners)',
-              minimum: 1,
-            },
-            networkId: {
-              type: 'string',
-              description:
-                'CAIP-2 network identifier (e.g., eip155:1 for Ethereum mainnet)',
-              pattern: '^eip155:\\d+$',
-            },
-            privateKey: {
-              type: 'string',
-              description:
-                'Private key for deployment transaction signing (32-byte hex string)',
-              pattern: '^0x[a-fA-F0-9]{64}$',
-            },
-            saltNonce: {
-              type: 'string',
-              description:
-                'Optional salt nonce for deterministic address generation',
-            },
-            fallbackHandler: {
-              type: 'string',
-              description: 'Optional fallback handler contract address',
-            },
-            modules: {
-              type: 'array',
-              items: { type: 'string' },
-              description: 'Optional array of module addresses to enable',
-            },
-            guard: {
-              type: 'string',
-              description: 'Optional guard contract address',
-            },
-            paymentToken: {
-              type: 'string',
-              description:
-                'Optional payment token address for deployment costs',
-            },
-            payment: {
-              type: 'string',
-              description: 'Optional payment amount for deployment costs',
-            },
-            paymentReceiver: {
-              type: 'string',
-              description: 'Optional payment receiver address',
-            },
-          },
-          required: ['owners', 'threshold', 'networkId', 'privateKey'],
-        },
-      },
-    ];
+    return this.definitions.map(toMcpTool);
   }
 
   async handleToolCall(
     name: string,
-    arguments_: unknown
+    arguments_: unknown,
+    context: ToolCallContext = NO_TOOL_CALL_CONTEXT
   ): Promise<CallToolResult> {
     try {
-      switch (name) {
-        case 'safe_create_wallet_config':
-          return await this.handleCreateWalletConfig(arguments_);
-        case 'safe_predict_address':
-          return await this.handlePredictAddress(arguments_);
-        case 'safe_deploy_wallet':
-          return await this.handleDeployWallet(arguments_);
-        default:
-          return {
-            isError: true,
-            content: [
-              {
-                type: 'text',
-                text: `Unknown tool: ${name}`,
-              },
-            ],
-          };
-      }
+      return await callToolDefinition(
+        this.definitions,
+        name,
+        arguments_,
+        context
+      );
     } catch (error) {
-      return {
-        isError: true,
-        content: [
-          {
-            type: 'text',
-            text: `Tool execution error: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-      };
+      if (error instanceof SafeError) {
+        return toolErrorResult(error);
+      }
+
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return toolErrorResult(
+        new SafeError(
+          `Unexpected error: ${message}`,
+          ErrorCodes.SAFE_OPERATION_ERROR
+        )
+      );
     }
   }
 
   private async handleCreateWalletConfig(
-    arguments_: unknown
+    args: WalletConfig
   ): Promise<CallToolResult> {
-    try {
-      const result = this.validateWalletConfig(arguments_);
-
-      // If validation fails, return as error
-      if (!result.isValid) {
-        return {
-          isError: true,
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(result, null, 2),
-            },
-          ],
-        };
-      }
+    const result = this.validateWalletConfig(args);
+    const summary = result.isValid
+      ? `Wallet configuration is valid: ${args.threshold} of ${args.owners.length} owners on ${args.networkId}`
+      : `Wallet configuration is invalid: ${result.errors.join('; ')}`;
 
-      return {
-        isError: false,
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(result, null, 2),
-          },
-        ],
-      };
-    } catch (error) {
-      return {
-        isError: true,
-        content: [
-          {
-            type: 'text',
-            text: `Configuration validation error: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-      };
-    }
+    return {
+      ...structuredResult(
+        ConfigValidationResultSchema,
+        result.warnings.length > 0
+          ? `${summary}. Warnings: ${result.warnings.join('; ')}`
+          : summary,
+        result
+      ),
+      // An invalid configuration is reported as an error
+      isError: !result.isValid,
+    };
   }
 
   private async handlePredictAddress(
-    arguments_: unknown
+    args: WalletConfig
   ): Promise<CallToolResult> {
     try {
       // First validate the configuration
-      const validationResult = this.validateWalletConfig(arguments_);
+      const validationResult = this.validateWalletConfig(args);
 
-      // If validation fails, return as error
       if (!validationResult.isValid) {
-        return {
-          isError: true,
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(validationResult, null, 2),
-            },
-          ],
-        };
+        throw new SafeError(
+          `Invalid wallet configuration: ${validationResult.errors.join('; ')}`,
+          ErrorCodes.VALIDATION_ERROR,
+          { ...validationResult }
+        );
       }
 
       // Generate predicted address using Safe SDK
-      const config = validationResult.configuration!;
-      const predictionResult = await this.predictSafeAddress(config);
-
-      return {
-        isError: false,
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(predictionResult, null, 2),
-          },
-        ],
-      };
+      const predictionResult = await this.predictSafeAddress(args);
+
+      return structuredResult(
+        AddressPredictionResultSchema,
+        `Predicted Safe address on ${args.networkId}: ${predictionResult.address} (${predictionResult.isDeployed ? 'already deployed' : 'not deployed yet'})`,
+        predictionResult
+      );
     } catch (error) {
-      return {
-        isError: true,
-        content: [
-          {
-            type: 'text',
-            text: `Address prediction error: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-      };
+      if (error instanceof SafeError) {
+        throw error;
+      }
+      throw new SafeError(
+        `Safe address prediction failed: ${error instanceof Error ? error.message : String(error)}`,
+        ErrorCodes.SAFE_OPERATION_ERROR,
+        { operation: 'predict_address', originalError: String(error) }
+      );
     }
   }
 
   private async handleDeployWallet(
-    arguments_: unknown
+    args: DeployWalletInput,
+    context: ToolCallContext
   ): Promise<CallToolResult> {
     try {
-      // Validate input has private key
-      if (!arguments_ || typeof arguments_ !== 'object') {
-        return {
-          isError: true,
-          content: [
-            {
-              type: 'text',
-              text: 'Invalid input: deployment configuration object is required',
-            },
-          ],
-        };
-      }
+      // Resolve the signer (configured name or legacy private key)
+      const signer = this.signerRegistry.resolve(args);
+
+      // First validate the wallet configuration (excluding signer and
+      // execution fields)
+      const {
+        signer: _signerName,
+        privateKey: _privateKey,
+        gasStrategy,
+        confirmations,
+        confirm,
+        dryRun,
+        ...walletConfig
+      } = args;
+      const validationResult = this.validateWalletConfig(walletConfig);
 
-      const input = arguments_ as any;
-      if (!input.privateKey) {
-        return {
-          isError: true,
-          content: [
-            {
-              type: 'text',
-              text: 'Private key is required for wallet deployment',
-            },
-          ],
-        };
+      if (!validationResult.isValid) {
+        throw new SafeError(
+          `Invalid wallet configuration: ${validationResult.errors.join('; ')}`,
+          ErrorCodes.VALIDATION_ERROR,
+          { ...validationResult }
+        );
       }
 
-      // Validate private key format (should be 0x + 64 hex characters)
-      if (!/^0x[a-fA-F0-9]{64}$/.test(input.privateKey)) {
-        return {
-          isError: true,
-          content: [
-            {
-              type: 'text',
-              text: 'Invalid private key format. Must be a 64-character hex string with 0x prefix',
-            },
-          ],
-        };
+      if (dryRun) {
+        return await this.dryRunDeployment(walletConfig, signer, context);
       }
 
-      // First validate the wallet configuration (excluding private key)
-      const { privateKey, ...walletConfig } = input;
-      const validationResult = this.validateWalletConfig(walletConfig);
-
-      // If validation fails, return as error
-      if (!validationResult.isValid) {
-        return {
-          isError: true,
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(validationResult, null, 2),
-            },
-          ],
-        };
+      this.networkDefaults.assertConfirmed(walletConfig.networkId, confirm, {
+        tool: 'safe_deploy_wallet',
+        ...walletConfig,
+      });
+
+      this.policy?.enforce({
+        kind: 'deployment',
+        networkId: walletConfig.networkId,
+        owners: walletConfig.owners.length,
+      });
+
+      if (
+        this.networkDefaults.requiresApproval(
+          walletConfig.networkId,
+          'safe_deploy_wallet'
+        )
+      ) {
+        await requireApproval(context, {
+          tool: 'safe_deploy_wallet',
+          networkId: walletConfig.networkId,
+          networkName: this.contractRegistry.getNetworkInfo(
+            walletConfig.networkId
+          ).name,
+          summary: `Deploy a ${walletConfig.threshold}-of-${walletConfig.owners.length} Safe`,
+          details: {
+            Owners: walletConfig.owners.join(', '),
+            Threshold: String(walletConfig.threshold),
+            'Salt nonce': walletConfig.saltNonce ?? 'default',
+            ...(walletConfig.modules?.length
+              ? { Modules: walletConfig.modules.join(', ') }
+              : {}),
+            ...(walletConfig.fallbackHandler
+              ? { 'Fallback handler': walletConfig.fallbackHandler }
+              : {}),
+          },
+        });
       }
 
       // Deploy the wallet using Safe SDK
       const deploymentConfig: WalletDeploymentConfig = {
-        ...validationResult.configuration!,
-        privateKey,
-      };
-      const deploymentResult = await this.deploySafeWallet(deploymentConfig);
-
-      return {
-        isError: false,
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(deploymentResult, null, 2),
-          },
-        ],
+        ...walletConfig,
+        signer,
+        gasStrategy,
+        confirmations,
       };
+      const deploymentResult = await this.deploySafeWallet(
+        deploymentConfig,
+        context
+      );
+
+      return structuredResult(
+        WalletDeploymentResultSchema,
+        `Safe ${deploymentResult.address} ${deploymentResult.isDeployed ? 'deployed' : 'not found after deployment'} on ${deploymentResult.networkId} in transaction ${deploymentResult.transactionHash || 'unknown'}`,
+        deploymentResult
+      );
     } catch (error) {
-      return {
-        isError: true,
-        content: [
-          {
-            type: 'text',
-            text: `Wallet deployment error: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-      };
+      // A cancelled, unapproved or refused deployment keeps its code and
+      // any broadcast hash
+      if (error instanceof SafeError) {
+        throw error;
+      }
+      throw new SafeError(
+        `Safe deployment failed: ${error instanceof Error ? error.message : String(error)}`,
+        ErrorCodes.SAFE_OPERATION_ERROR,
+        { operation: 'deploy_wallet', originalError: String(error) }
+      );
     }
   }
 
+  /**
+   * Deploy the Safe and wait for the configured confirmations, reporting
+   * submission, confirmation and verification as progress
+   */
   private async deploySafeWallet(
-    config: WalletDeploymentConfig
+    config: WalletDeploymentConfig,
+    context: ToolCallContext = NO_TOOL_CALL_CONTEXT
   ): Promise<WalletDeploymentResult> {
-    const defaultFallback = this.contractRegistry.getFallbackHandlerAddress(
-      config.networkId
+    const safeAccountConfig = this.getSafeAccountConfig(config);
+
+    const { signal } = context;
+    const factory = await abortable(
+      this.providerFactory.getSafeFactory(
+        config.networkId,
+        config.signer,
+        undefined,
+        this.getFactoryOptions(config)
+      ),
+      signal
     );
-
-    const safeAccountConfig: SafeAccountConfig = {
-      owners: config.owners,
-      threshold: config.threshold,
-      fallbackHandler:
-        config.fallbackHandler ||
-        defaultFallback ||
-        '0x0000000000000000000000000000000000000000',
-      paymentToken: config.paymentToken,
-      payment: config.payment ? BigInt(config.payment) : undefined,
-      paymentReceiver: config.paymentReceiver,
-    } as any;
-
-    const factory = await this.providerFactory.getSafeFactory(
+    const gasOptions = await this.providerFactory.getGasOptions(
       config.networkId,
-      config.privateKey
+      this.networkDefaults.getGasStrategy(config.networkId, config.gasStrategy)
     );
 
-    // Deploy Safe
-    const safe = await factory.deploySafe({
-      safeAccountConfig,
-      saltNonce: config.saltNonce,
-    } as any);
+    // Last point at which cancelling leaves nothing on chain
+    throwIfCancelled(signal);
+
+    // Deploy Safe; the SDK waits for mining itself, so a cancellation stops
+    // awaiting it and reports the hash once it is known
+    let transactionHash = '';
+    const cancellationDetails = () => ({
+      networkId: config.networkId,
+      ...(transactionHash ? { transactionHash } : {}),
+    });
+    const safe = await abortable(
+      factory.deploySafe({
+        safeAccountConfig,
+        ...(config.saltNonce !== undefined
+          ? { saltNonce: config.saltNonce }
+          : {}),
+        options: gasOptions,
+        callback: (txHash: string) => {
+          transactionHash = txHash;
+          void context.reportProgress(
+            1,
+            3,
+            `Deployment transaction submitted (${txHash})`
+          );
+        },
+      }),
+      signal,
+      cancellationDetails
+    );
     const address = await safe.getAddress();
 
-    // Verify deployment and try to estimate gas from code deployment
+    // Wait for the configured confirmations, then verify deployment
     const provider = await this.providerFactory.getProvider(config.networkId);
+    const confirmations = this.networkDefaults.getConfirmations(
+      config.networkId,
+      config.confirmations
+    );
+    if (transactionHash) {
+      await waitForReceipt(provider, transactionHash, confirmations, signal, {
+        networkId: config.networkId,
+        address,
+      });
+      await context.reportProgress(
+        2,
+        3,
+        `Deployment transaction confirmed (${confirmations} confirmation(s) received)`
+      );
+    }
     const code = await provider.getCode(address);
     const isDeployed = code !== '0x';
+    await context.reportProgress(
+      3,
+      3,
+      isDeployed
+        ? `Safe deployed at ${address}`
+        : `No contract found at ${address} after deployment`
+    );
 
-    const { privateKey, ...configuration } = config;
+    const {
+      signer,
+      gasStrategy,
+      confirmations: _confirmations,
+      ...configuration
+    } = config;
 
     return {
       address,
-      transactionHash: '',
+      transactionHash,
       isDeployed,
       networkId: config.networkId,
       configuration,
@@ -512,30 +537,21 @@ export class WalletCreationTools {
   private async predictSafeAddress(
     config: WalletConfig
   ): Promise<AddressPredictionResult> {
-    const defaultFallback = this.contractRegistry.getFallbackHandlerAddress(
-      config.networkId
-    );
-
-    const safeAccountConfig: SafeAccountConfig = {
-      owners: config.owners,
-      threshold: config.threshold,
-      fallbackHandler:
-        config.fallbackHandler ||
-        defaultFallback ||
-        '0x0000000000000000000000000000000000000000',
-      paymentToken: config.paymentToken,
-      payment: config.payment ? BigInt(config.payment) : undefined,
-      paymentReceiver: config.paymentReceiver,
-    } as any;
+    const safeAccountConfig = this.getSafeAccountConfig(config);
 
     // Some Safe SDK versions require a signer for SafeFactory. Use a throwaway key for prediction.
-    const dummyPrivateKey = '0x' + '1'.repeat(64);
+    const dummySigner = new PrivateKeySigner(
+      'prediction',
+      '0x' + '1'.repeat(64)
+    );
     const factory = await this.providerFactory.getSafeFactory(
       config.networkId,
-      dummyPrivateKey
+      dummySigner,
+      undefined,
+      this.getFactoryOptions(config)
     );
 
-    const address = await (factory as any).predictSafeAddress(
+    const address = await factory.predictSafeAddress(
       safeAccountConfig,
       config.saltNonce
     );
@@ -552,6 +568,107 @@ export class WalletCreationTools {
     };
   }
 
+  /**
+   * Build and simulate the deployment from the signer's account without
+   * sending it; policy violations are reported instead of thrown
+   */
+  private async dryRunDeployment(
+    config: WalletConfig,
+    signer: SafeSigner,
+    context: ToolCallContext
+  ): Promise<CallToolResult> {
+    const safe = await abortable(
+      this.providerFactory.getPredictedSafe(
+        config.networkId,
+        signer,
+        this.getSafeAccountConfig(config),
+        config.saltNonce,
+        this.getFactoryOptions(config)
+      ),
+      context.signal
+    );
+    const address: string = await safe.getAddress();
+    const transaction = await safe.createSafeDeploymentTransaction();
+
+    const provider = await this.providerFactory.getProvider(config.networkId);
+    const isDeployed = (await provider.getCode(address)) !== '0x';
+    const request = {
+      from: await signer.getAddress(),
+      to: transaction.to as string,
+      value: String(transaction.value),
+      data: transaction.data as string,
+    };
+    // Creating the proxy again would revert; say why instead
+    const simulation = isDeployed
+      ? { success: false, revertReason: `Safe ${address} is already deployed` }
+      : await abortable(simulateTransaction(provider, request), context.signal);
+
+    const result: z.input<typeof DeploymentDryRunSchema> = {
+      ...dryRunOutput(
+        config.networkId,
+        { ...request, ...simulation },
+        this.policy?.evaluate({
+          kind: 'deployment',
+          networkId: config.networkId,
+          owners: config.owners.length,
+        })
+      ),
+      address,
+      isDeployed,
+    };
+
+    return structuredResult(
+      DeploymentDryRunSchema,
+      `Dry run of the deployment of Safe ${address} on ${config.networkId}: ${describeSimulation(result)}`,
+      result
+    );
+  }
+
+  /**
+   * Owners, threshold and setup options of a new Safe, with the network's
+   * fallback handler by default
+   */
+  private getSafeAccountConfig(config: WalletConfig): SafeAccountConfig {
+    const defaultFallback = this.contractRegistry.getFallbackHandlerAddress(
+      config.networkId
+    );
+
+    return {
+      owners: config.owners,
+      threshold: config.threshold,
+      fallbackHandler:
+        config.fallbackHandler ||
+        defaultFallback ||
+        '0x0000000000000000000000000000000000000000',
+      ...(config.paymentToken ? { paymentToken: config.paymentToken } : {}),
+      // The SDK types payment as a number but ABI-encodes any integer; a
+      // bigint keeps amounts above 2^53 wei exact
+      ...(config.payment
+        ? { payment: BigInt(config.payment) as unknown as number }
+        : {}),
+      ...(config.paymentReceiver
+        ? { paymentReceiver: config.paymentReceiver }
+        : {}),
+    };
+  }
+
+  /**
+   * Safe version and singleton for a new wallet, falling back to the
+   * network's defaults
+   */
+  private getFactoryOptions(config: WalletConfig): SafeFactoryOptions {
+    return {
+      safeVersion: this.networkDefaults.getSafeVersion(
+        config.networkId,
+        config.safeVersion
+      ),
+      useL2Singleton: this.networkDefaults.useL2Singleton(
+        config.networkId,
+        config.useL2Singleton
+      ),
+    };
+  }
+
   private async checkIfDeployed(
     address: string,
     networkId: string
@@ -561,145 +678,41 @@ export class WalletCreationTools {
     return code !== '0x';
   }
 
-  private validateWalletConfig(input: unknown): ConfigValidationResult {
+  /**
+   * Check the rules the input schema cannot express and collect security
+   * warnings
+   */
+  private validateWalletConfig(config: WalletConfig): ConfigValidationResult {
     const errors: string[] = [];
     const warnings: string[] = [];
 
-    // Handle null/undefined input
-    if (!input || typeof input !== 'object') {
-      return {
-        isValid: false,
-        errors: ['Invalid input: configuration object is required'],
-        warnings: [],
-      };
-    }
-
-    const config = input as Partial<WalletConfig>;
-
-    // Validate required fields
-    if (!config.owners) {
-      errors.push('Required field missing: owners');
-    }
-    if (config.threshold === undefined || config.threshold === null) {
-      errors.push('Required field missing: threshold');
-    }
-    if (!config.networkId) {
-      errors.push('Required field missing: networkId');
-    }
-
-    // Return early if required fields are missing
-    if (errors.length > 0) {
-      return {
-        isValid: false,
-        errors,
-        warnings,
-      };
-    }
-
     // Validate threshold
-    if (config.threshold !== undefined) {
-      if (config.threshold <= 0) {
-        errors.push('Threshold must be greater than 0');
-      }
-      if (config.owners && config.threshold > config.owners.length) {
-        errors.push('Threshold cannot be greater than number of owners');
-      }
-    }
-
-    // Validate owner addresses
-    if (config.owners) {
-      if (!Array.isArray(config.owners)) {
-        errors.push('Owners must be an array');
-      } else if (config.owners.length === 0) {
-        errors.push('At least one owner is required');
-      } else {
-        config.owners.forEach((owner, index) => {
-          if (
-            typeof owner !== 'string' ||
-            !this.contractRegistry.validateSafeAddress(owner)
-          ) {
-            errors.push(`Invalid owner address at index ${index}: ${owner}`);
-          }
-        });
-
-        // Check for duplicate owners
-        const uniqueOwners = new Set(config.owners);
-        if (uniqueOwners.size !== config.owners.length) {
-          errors.push('Duplicate owner addresses are not allowed');
-        }
-
-        // Security warning for single owner
-        if (config.owners.length === 1) {
-          warnings.push(
-            'Single owner configuration reduces security - consider using multiple owners'
-          );
-        }
-      }
-    }
-
-    // Validate network
-    if (config.networkId) {
-      if (!this.contractRegistry.isNetworkSupported(config.networkId)) {
-        errors.push(`Network ${config.networkId} is not supported`);
-      }
-    }
-
-    // Validate optional fallback handler
-    if (config.fallbackHandler) {
-      if (!this.contractRegistry.validateSafeAddress(config.fallbackHandler)) {
-        errors.push('Invalid fallback handler address');
-      }
-    }
-
-    // Validate optional modules
-    if (config.modules) {
-      if (!Array.isArray(config.modules)) {
-        errors.push('Modules must be an array');
-      } else {
-        config.modules.forEach((module, index) => {
-          if (
-            typeof module !== 'string' ||
-            !this.contractRegistry.validateSafeAddress(module)
-          ) {
-            errors.push(`Invalid module address at index ${index}: ${module}`);
-          }
-        });
-      }
-    }
-
-    // Validate optional guard
-    if (config.guard) {
-      if (!this.contractRegistry.validateSafeAddress(config.guard)) {
-        errors.push('Invalid guard address');
-      }
+    if (config.threshold > config.owners.length) {
+      errors.push('Threshold cannot be greater than number of owners');
     }
 
-    // Validate optional payment configuration
-    if (config.paymentToken) {
-      if (!this.contractRegistry.validateSafeAddress(config.paymentToken)) {
-        errors.push('Invalid payment token address');
-      }
+    // Check for duplicate owners
+    const uniqueOwners = new Set(
+      config.owners.map((owner) => owner.toLowerCase())
+    );
+    if (uniqueOwners.size !== config.owners.length) {
+      errors.push('Duplicate owner addresses are not allowed');
     }
 
-    if (config.paymentReceiver) {
-      if (!this.contractRegistry.validateSafeAddress(config.paymentReceiver)) {
-        errors.push('Invalid payment receiver address');
-      }
+    // Security warning for single owner
+    if (config.owners.length === 1) {
+      warnings.push(
+        'Single owner configuration reduces security - consider using multiple owners'
+      );
     }
 
-    if (config.payment) {
-      try {
-        const paymentAmount = BigInt(config.payment);
-        if (paymentAmount < 0) {
-          errors.push('Payment amount must be non-negative');
-        }
-      } catch {
-        errors.push('Invalid payment amount format');
-      }
+    // Validate network
+    if (!this.contractRegistry.isNetworkSupported(config.networkId)) {
+      errors.push(`Network ${config.networkId} is not supported`);
     }
 
     // Additional security warnings
-    if (config.threshold === 1 && config.owners && config.owners.length > 1) {
+    if (config.threshold === 1 && config.owners.length > 1) {
       warnings.push(
         'Low threshold (1) with multiple owners - consider increasing threshold for better security'
       );
@@ -721,7 +734,7 @@ export class WalletCreationTools {
 
     return {
       isValid,
-      configuration: isValid ? (config as WalletConfig) : undefined,
+      configuration: isValid ? config : undefined,
       errors,
       warnings,
     };
@@ -1,8 +1,21 @@
+import { z } from 'zod';
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import { ContractRegistry } from '../../network/ContractRegistry.js';
 import { ProviderFactory } from '../../blockchain/ProviderFactory.js';
-import { SafeError } from '../../utils/SafeError.js';
+import { ErrorCodes, SafeError } from '../../utils/SafeError.js';
+import { SafeConfig } from '../../config/types.js';
+import { DEFAULT_CONFIG } from '../../config/defaults.js';
+import {
+  ToolDefinition,
+  callToolDefinition,
+  defineTool,
+  structuredResult,
+  toMcpTool,
+  toolErrorResult,
+} from './ToolDefinition.js';
+import { NO_TOOL_CALL_CONTEXT, ToolCallContext } from './ToolCallContext.js';
+import { AddressSchema, NetworkIdSchema } from './schemas.js';
 
 export interface SafeInfo {
   address: string;
@@ -18,174 +31,113 @@ export interface SafeInfo {
   fallbackHandler?: string | undefined;
 }
 
+const SafeInfoSchema = z.object({
+  address: z.string(),
+  owners: z.array(z.string()),
+  threshold: z.number().int(),
+  nonce: z.number().int(),
+  version: z.string(),
+  isDeployed: z.boolean(),
+  networkId: z.string(),
+  balance: z.string().describe('Native balance in wei'),
+  modules: z.array(z.string()),
+  guard: z.string().optional(),
+  fallbackHandler: z.string().optional(),
+});
+
 export class WalletQueryTools {
   private contractRegistry: ContractRegistry;
   private providerFactory: ProviderFactory;
 
-  constructor(contractRegistry: ContractRegistry) {
+  constructor(
+    contractRegistry: ContractRegistry,
+    config: SafeConfig = DEFAULT_CONFIG
+  ) {
     this.contractRegistry = contractRegistry;
-    this.providerFactory = new ProviderFactory();
+    this.providerFactory = new ProviderFactory(config);
+  }
+
+  /**
+   * Apply a reloaded configuration
+   */
+  updateConfig(config: SafeConfig): void {
+    this.providerFactory.updateConfig(config);
   }
 
+  private definitions: ToolDefinition[] = [
+    defineTool({
+      name: 'safe_get_info',
+      description:
+        'Get comprehensive information about a Safe wallet including owners, threshold, balance, modules, and deployment status.',
+      inputSchema: z.object({
+        address: AddressSchema.describe(
+          'Safe wallet address (must be a valid checksummed Ethereum address)'
+        ),
+        networkId: NetworkIdSchema,
+      }),
+      outputSchema: SafeInfoSchema,
+      handler: (args) => this.handleGetSafeInfo(args),
+    }),
+  ];
+
   getTools(): Tool[] {
-    return [
-      {
-        name: 'safe_get_info',
-        description:
-          'Get comprehensive information about a Safe wallet including owners, threshold, balance, modules, and deployment status.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            address: {
-              type: 'string',
-              description:
-                'Safe wallet address (must be a valid checksummed Ethereum address)',
-              pattern: '^0x[a-fA-F0-9]{40}$',
-            },
-            networkId: {
-              type: 'string',
-              description:
-                'CAIP-2 network identifier (e.g., eip155:1 for Ethereum mainnet)',
-              pattern: '^eip155:\\d+$',
-            },
-          },
-          required: ['address', 'networkId'],
-        },
-      },
-    ];
+    return this.definitions.map(toMcpTool);
   }
 
   async handleToolCall(
     name: string,
-    arguments_: unknown
+    arguments_: unknown,
+    context: ToolCallContext = NO_TOOL_CALL_CONTEXT
   ): Promise<CallToolResult> {
     try {
-      switch (name) {
-        case 'safe_get_info':
-          return await this.handleGetSafeInfo(arguments_);
-        default:
-          return {
-            isError: true,
-            content: [
-              {
-                type: 'text',
-                text: `Unknown tool: ${name}`,
-              },
-            ],
-          };
-      }
+      return await callToolDefinition(
+        this.definitions,
+        name,
+        arguments_,
+        context
+      );
     } catch (error) {
-      return {
-        isError: true,
-        content: [
-          {
-            type: 'text',
-            text: `Tool execution error: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-      };
-    }
-  }
-
-  private async handleGetSafeInfo(
-    arguments_: unknown
-  ): Promise<CallToolResult> {
-    try {
-      // Validate input
-      if (!arguments_ || typeof arguments_ !== 'object') {
-        return {
-          isError: true,
-          content: [
-            {
-              type: 'text',
-              text: 'Invalid input: query configuration object is required',
-            },
-          ],
-        };
-      }
-
-      const input = arguments_ as any;
-
-      // Validate required fields
-      if (!input.address) {
-        return {
-          isError: true,
-          content: [
-            {
-              type: 'text',
-              text: 'Required field missing: address',
-            },
-          ],
-        };
+      if (error instanceof SafeError) {
+        return toolErrorResult(error);
       }
 
-      if (!input.networkId) {
-        return {
-          isError: true,
-          content: [
-            {
-              type: 'text',
-              text: 'Required field missing: networkId',
-            },
-          ],
-        };
-      }
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return toolErrorResult(
+        new SafeError(
+          `Safe info query failed: ${message}`,
+          ErrorCodes.SAFE_OPERATION_ERROR
+        )
+      );
+    }
+  }
 
-      // Validate address format
-      if (!this.contractRegistry.validateSafeAddress(input.address)) {
-        return {
-          isError: true,
-          content: [
-            {
-              type: 'text',
-              text: 'Invalid Safe address format',
-            },
-          ],
-        };
-      }
+  private async handleGetSafeInfo(args: {
+    address: string;
+    networkId: string;
+  }): Promise<CallToolResult> {
+    // Validate network support
+    if (!this.contractRegistry.isNetworkSupported(args.networkId)) {
+      throw new SafeError(
+        `Network ${args.networkId} is not supported`,
+        ErrorCodes.NETWORK_NOT_SUPPORTED,
+        { networkId: args.networkId }
+      );
+    }
 
-      // Validate network support
-      if (!this.contractRegistry.isNetworkSupported(input.networkId)) {
-        return {
-          isError: true,
-          content: [
-            {
-              type: 'text',
-              text: `Network ${input.networkId} is not supported`,
-            },
-          ],
-        };
-      }
+    // Get Safe information using Safe SDK
+    const safeInfo = await this.getSafeInfo(args.address, args.networkId);
 
-      // Get Safe information using Safe SDK
-      const safeInfo = await this.getSafeInfo(input.address, input.networkId);
-
-      return {
-        isError: false,
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(safeInfo, null, 2),
-          },
-        ],
-      };
-    } catch (error) {
-      return {
-        isError: true,
-        content: [
-          {
-            type: 'text',
-            text: `Safe info query error: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-      };
-    }
+    return structuredResult(
+      SafeInfoSchema,
+      `Safe ${safeInfo.address} on ${safeInfo.networkId} (v${safeInfo.version}): ${safeInfo.threshold} of ${safeInfo.owners.length} owners, nonce ${safeInfo.nonce}, balance ${safeInfo.balance} wei`,
+      safeInfo
+    );
   }
 
-  private async getSafeInfo(
-    address: string,
-    networkId: string
-  ): Promise<SafeInfo> {
+  /**
+   * Read on-chain state for a deployed Safe
+   */
+  async getSafeInfo(address: string, networkId: string): Promise<SafeInfo> {
     const provider = await this.providerFactory.getProvider(networkId);
     const code = await provider.getCode(address);
 
@@ -197,11 +149,12 @@ export class WalletQueryTools {
     }
 
     const safe = await this.providerFactory.getSafe(address, networkId);
-    const [owners, threshold, nonce, version] = await Promise.all([
+    const [owners, threshold, nonce, version, modules] = await Promise.all([
       safe.getOwners(),
       safe.getThreshold(),
       safe.getNonce(),
       safe.getContractVersion(),
+      safe.getModules(),
     ]);
 
     const balanceWei = await provider.getBalance(address);
@@ -217,7 +170,7 @@ export class WalletQueryTools {
       isDeployed: true,
       networkId,
       balance,
-      modules: [],
+      modules,
       guard: undefined,
       fallbackHandler: undefined,
     };
@@ -0,0 +1,156 @@
+import { z } from 'zod';
+import { isAddress } from 'ethers';
+import { SafeTransactionSimulation } from '../../blockchain/TransactionSimulator.js';
+import { PolicyViolation } from '../../policy/TransactionPolicy.js';
+
+/**
+ * Shared Zod building blocks for tool input and output schemas
+ */
+
+const ADDRESS_PATTERN = /^0x[a-fA-F0-9]{40}$/;
+
+/**
+ * Ethereum address; mixed-case input must carry a valid EIP-55 checksum
+ */
+export const AddressSchema = z
+  .string()
+  .regex(ADDRESS_PATTERN, 'Must be a valid Ethereum address')
+  .refine(
+    (address) => !ADDRESS_PATTERN.test(address) || isAddress(address),
+    'Invalid address checksum'
+  );
+
+export const NetworkIdSchema = z
+  .string()
+  .regex(/^eip155:\d+$/, 'Must be a valid CAIP-2 identifier (e.g., eip155:1)')
+  .describe('CAIP-2 network identifier (e.g., eip155:1 for Ethereum mainnet)');
+
+/**
+ * Amount in wei as a decimal or hex string
+ */
+export const WeiValueSchema = z
+  .string()
+  .regex(/^(?:\d+|0x[a-fA-F0-9]+)$/, 'Must be an amount in wei');
+
+export const HexDataSchema = z
+  .string()
+  .regex(/^0x([a-fA-F0-9]{2})*$/, 'Must be a hex string (0x for empty data)');
+
+export const PrivateKeySchema = z
+  .string()
+  .regex(/^0x[a-fA-F0-9]{64}$/, 'Must be a 32-byte hex private key');
+
+export const SignerNameSchema = z.string().min(1);
+
+export const OperationSchema = z
+  .union([z.literal(0), z.literal(1)])
+  .describe('Operation type: 0 for Call, 1 for DelegateCall');
+
+export const SafeVersionSchema = z.enum([
+  '1.4.1',
+  '1.3.0',
+  '1.2.0',
+  '1.1.1',
+  '1.0.0',
+]);
+
+export const GasStrategySchema = z.enum(['provider', 'legacy', 'eip1559']);
+
+export const DryRunSchema = z
+  .boolean()
+  .optional()
+  .describe(
+    'Set to true to build and simulate the transaction (eth_call and gas estimate) without broadcasting it'
+  );
+
+/**
+ * Options shared by tools that send a transaction
+ */
+export const WriteOptionsSchema = z.object({
+  gasStrategy: GasStrategySchema.optional().describe(
+    "How to price the transaction (defaults to the network's gasStrategy)"
+  ),
+  confirmations: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe(
+      "Blocks to wait for after the transaction is mined (defaults to the network's confirmations)"
+    ),
+  confirm: z
+    .boolean()
+    .optional()
+    .describe(
+      'Set to true to confirm the write on networks that require confirmation'
+    ),
+  dryRun: DryRunSchema,
+});
+
+/**
+ * Expected outcome of a transaction found by simulating it
+ */
+export const SimulationOutputSchema = z.object({
+  success: z
+    .boolean()
+    .describe('Whether the transaction is expected to succeed'),
+  gasEstimate: z.string().optional().describe('Estimated gas limit'),
+  revertReason: z
+    .string()
+    .optional()
+    .describe('Why the transaction is expected to fail'),
+});
+
+/**
+ * Result of a write tool called with dryRun: the transaction that would be
+ * sent and its simulated outcome
+ */
+export const DryRunOutputSchema = SimulationOutputSchema.extend({
+  dryRun: z.literal(true),
+  networkId: z.string(),
+  from: z.string().describe('Account that would send the transaction'),
+  to: z.string(),
+  value: z.string(),
+  data: z.string().describe('Calldata of the transaction'),
+  safeTxHash: z.string().optional(),
+  policyViolations: z
+    .array(z.object({ rule: z.string(), message: z.string() }))
+    .optional()
+    .describe('Policy rules the write would break'),
+});
+
+/**
+ * Output schema of a write tool: its normal result or a dry-run preview
+ */
+export function withDryRun<
+  Result extends z.AnyZodObject,
+  DryRun extends z.AnyZodObject,
+>(result: Result, dryRun: DryRun): z.ZodUnion<[Result, DryRun]> {
+  return z.union([result, dryRun]);
+}
+
+/**
+ * Dry-run result for a simulated transaction and the policy rules it would
+ * break
+ */
+export function dryRunOutput(
+  networkId: string,
+  simulation: Omit<SafeTransactionSimulation, 'safeTxHash'> & {
+    safeTxHash?: string | undefined;
+  },
+  policyViolations: PolicyViolation[] = []
+): z.input<typeof DryRunOutputSchema> {
+  return {
+    dryRun: true,
+    networkId,
+    from: simulation.from,
+    to: simulation.to,
+    value: simulation.value,
+    data: simulation.data,
+    safeTxHash: simulation.safeTxHash,
+    success: simulation.success,
+    gasEstimate: simulation.gasEstimate,
+    revertReason: simulation.revertReason,
+    ...(policyViolations.length > 0 ? { policyViolations } : {}),
+  };
+}
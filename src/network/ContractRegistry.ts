@@ -2,6 +2,7 @@ import { getAddress, keccak256, solidityPackedKeccak256 } from 'ethers';
 import { SafeError } from '../utils/SafeError.js';
 import { readFileSync, existsSync } from 'fs';
 import { join } from 'path';
+import { SafeConfig } from '../config/types.js';
 
 export interface NetworkInfo {
   name: string;
@@ -17,7 +18,20 @@ export interface ContractAddresses {
   fallbackHandler?: string;
 }
 
+/**
+ * Canonical Safe deployments, identical on every EVM chain; used for
+ * networks that are only known from the configuration
+ */
+const CANONICAL_SAFE_ADDRESSES = {
+  safe: '0xd9Db270c1B5E3Bd161E8c8503c55cEABeE709552',
+  safe141: '0x41675C099F32341bf84BFc5382aF534df5C7461a',
+  proxyFactory: '0xa6B71E26C5e0845f74c812102Ca7114b6a896AB2',
+  fallbackHandler: '0xf48f2B2d2a534e402487b3ee7C18c33Aec0Fe5e4',
+};
+
 export class ContractRegistry {
+  private configuredNetworks: Set<string> = new Set();
+
   private networks: Record<string, NetworkInfo> = {
     'eip155:1': {
       name: 'Ethereum Mainnet',
@@ -144,6 +158,38 @@ export class ContractRegistry {
     return this.networks[networkId]!.fallbackHandlerAddress;
   }
 
+  /**
+   * Register networks from the configuration that have no built-in entry,
+   * assuming the canonical Safe deployments, and drop ones that were
+   * removed from the configuration
+   */
+  updateConfig(config: SafeConfig): void {
+    for (const networkId of this.configuredNetworks) {
+      delete this.networks[networkId];
+      delete this.versionedAddresses[networkId];
+    }
+    this.configuredNetworks.clear();
+
+    for (const networkId of Object.keys(config.networks ?? {})) {
+      if (networkId in this.networks) {
+        continue;
+      }
+
+      this.networks[networkId] = {
+        name: networkId,
+        chainId: Number(networkId.split(':')[1]),
+        safeAddress: CANONICAL_SAFE_ADDRESSES.safe,
+        proxyFactoryAddress: CANONICAL_SAFE_ADDRESSES.proxyFactory,
+        fallbackHandlerAddress: CANONICAL_SAFE_ADDRESSES.fallbackHandler,
+      };
+      this.versionedAddresses[networkId] = {
+        '1.3.0': CANONICAL_SAFE_ADDRESSES.safe,
+        '1.4.1': CANONICAL_SAFE_ADDRESSES.safe141,
+      };
+      this.configuredNetworks.add(networkId);
+    }
+  }
+
   isNetworkSupported(networkId: string): boolean {
     return networkId in this.networks;
   }
@@ -1,5 +1,7 @@
 import { JsonRpcProvider } from 'ethers';
 import { SafeError } from '../utils/SafeError.js';
+import { redactText } from '../utils/redact.js';
+import { SafeConfig } from '../config/types.js';
 
 export interface NetworkConfig {
   name: string;
@@ -26,8 +28,63 @@ export class NetworkManager {
   > = new Map();
   private readonly CACHE_TTL = 5 * 60 * 1000; // 5 minutes
 
-  constructor() {
+  constructor(config: SafeConfig = {}) {
     this.initializeDefaultNetworks();
+    this.applyConfig(config);
+  }
+
+  /**
+   * Switch to a reloaded configuration, dropping cached providers of
+   * networks whose RPC URLs changed
+   */
+  updateConfig(config: SafeConfig): void {
+    const previous = new Map(this.networkConfigs);
+    this.networkConfigs = new Map();
+    this.initializeDefaultNetworks();
+    this.applyConfig(config);
+
+    for (const [networkId, network] of this.networkConfigs) {
+      if (
+        JSON.stringify(previous.get(networkId)?.rpcUrls) !==
+        JSON.stringify(network.rpcUrls)
+      ) {
+        this.providerCache.delete(networkId);
+        this.providers.delete(networkId);
+      }
+    }
+    for (const networkId of previous.keys()) {
+      if (!this.networkConfigs.has(networkId)) {
+        this.providerCache.delete(networkId);
+        this.providers.delete(networkId);
+      }
+    }
+  }
+
+  /**
+   * Put configured RPC URLs (primary, then fallbacks) ahead of the built-in
+   * endpoints and register networks that are only known from the
+   * configuration
+   */
+  private applyConfig(config: SafeConfig): void {
+    for (const [networkId, network] of Object.entries(config.networks ?? {})) {
+      const rpcUrls = [network.rpcUrl, ...(network.fallbackRpcUrls ?? [])];
+      if (this.networkConfigs.has(networkId)) {
+        rpcUrls.reverse().forEach((url) => this.addRpcUrl(networkId, url));
+        if (network.explorerUrl) {
+          this.networkConfigs.get(networkId)!.blockExplorerUrl =
+            network.explorerUrl;
+        }
+      } else {
+        this.addNetwork(networkId, {
+          name: networkId,
+          chainId: this.parseNetworkId(networkId).chainId,
+          rpcUrls,
+          ...(network.explorerUrl
+            ? { blockExplorerUrl: network.explorerUrl }
+            : {}),
+        });
+      }
+    }
   }
 
   /**
@@ -153,8 +210,8 @@ export class NetworkManager {
       } catch (error) {
         lastError = error instanceof Error ? error : new Error(String(error));
         console.warn(
-          `RPC ${rpcUrl} failed for ${networkId}:`,
-          lastError.message
+          `RPC ${redactText(rpcUrl)} failed for ${networkId}:`,
+          redactText(lastError.message)
         );
         continue;
       }
@@ -0,0 +1,195 @@
+import {
+  Interface,
+  concat,
+  solidityPacked,
+  toBeHex,
+  zeroPadValue,
+} from 'ethers';
+import { PolicyAction, TransactionPolicy } from './TransactionPolicy.js';
+import { ErrorCodes, SafeError } from '../utils/SafeError.js';
+
+const MULTI_SEND = new Interface(['function multiSend(bytes transactions)']);
+const OWNER_MANAGER = new Interface([
+  'function removeOwner(address prevOwner, address owner, uint256 threshold)',
+  'function swapOwner(address prevOwner, address oldOwner, address newOwner)',
+]);
+const MULTI_SEND_ADDRESS = '0x40A2aCCbd92BCA938b02010E17A5b8929b49130D';
+const SAFE_ADDRESS = '0x1234567890123456789012345678901234567890';
+const TREASURY = '0x000000000000000000000000000000000000dEaD';
+const STRANGER = '0x00000000000000000000000000000000DeaDBeef';
+
+function packCall(
+  operation: number,
+  to: string,
+  value: bigint,
+  data: string
+): string {
+  return solidityPacked(
+    ['uint8', 'address', 'uint256', 'uint256', 'bytes'],
+    [operation, to, value, (data.length - 2) / 2, data]
+  );
+}
+
+function multiSend(...calls: string[]): string {
+  return MULTI_SEND.encodeFunctionData('multiSend', [concat(calls)]);
+}
+
+type TransactionAction = Extract<PolicyAction, { kind: 'transaction' }>;
+
+function batchAction(data: string): TransactionAction {
+  return {
+    kind: 'transaction',
+    networkId: 'eip155:1',
+    safeAddress: SAFE_ADDRESS,
+    to: MULTI_SEND_ADDRESS,
+    value: '0',
+    data,
+    operation: 1,
+  };
+}
+
+describe('TransactionPolicy', () => {
+  const policy = new TransactionPolicy({
+    maxValuePerTransaction: '100',
+    allowedRecipients: [TREASURY],
+    allowedDelegateCallTargets: [MULTI_SEND_ADDRESS],
+  });
+
+  it('checks calls inside nested MultiSend batches', () => {
+    const inner = multiSend(packCall(0, STRANGER, 150n, '0x'));
+    const outer = multiSend(
+      packCall(0, TREASURY, 1n, '0x'),
+      packCall(1, MULTI_SEND_ADDRESS, 0n, inner)
+    );
+
+    const rules = policy
+      .evaluate(batchAction(outer))
+      .map((violation) => violation.rule);
+
+    expect(rules).toEqual(['maxValuePerTransaction', 'allowedRecipients']);
+  });
+
+  it('refuses delegate calls inside nested batches to other targets', () => {
+    const inner = multiSend(packCall(1, STRANGER, 0n, '0x'));
+    const outer = multiSend(packCall(1, MULTI_SEND_ADDRESS, 0n, inner));
+
+    expect(
+      policy.evaluate(batchAction(outer)).map((violation) => violation.rule)
+    ).toContain('allowedDelegateCallTargets');
+  });
+
+  it('rejects a batch whose data length runs past its end', () => {
+    const truncated = solidityPacked(
+      ['uint8', 'address', 'uint256', 'uint256', 'bytes'],
+      [0, TREASURY, 0n, 1000n, '0x1234']
+    );
+
+    expect(() => policy.evaluate(batchAction(multiSend(truncated)))).toThrow(
+      SafeError
+    );
+    expect(() =>
+      policy.evaluate(
+        batchAction(
+          multiSend(
+            zeroPadValue(toBeHex(1), 40),
+            packCall(0, TREASURY, 0n, '0x')
+          )
+        )
+      )
+    ).toThrow(expect.objectContaining({ code: ErrorCodes.VALIDATION_ERROR }));
+  });
+
+  it('checks without counting towards the daily limit', () => {
+    const daily = new TransactionPolicy({ maxValuePerDay: '100' });
+    const action: PolicyAction = {
+      kind: 'transaction',
+      networkId: 'eip155:1',
+      safeAddress: SAFE_ADDRESS,
+      to: TREASURY,
+      value: '60',
+      operation: 0,
+    };
+
+    daily.check(action);
+    daily.check(action);
+    daily.enforce(action);
+
+    expect(() => daily.check(action)).toThrow(
+      expect.objectContaining({ code: ErrorCodes.POLICY_VIOLATION })
+    );
+  });
+
+  it('refuses infrastructure deployment when disabled', () => {
+    const restricted = new TransactionPolicy({
+      allowInfrastructureDeployment: false,
+    });
+
+    expect(() =>
+      restricted.enforce({ kind: 'infrastructure', networkId: 'eip155:1' })
+    ).toThrow(expect.objectContaining({ code: ErrorCodes.POLICY_VIOLATION }));
+  });
+
+  describe('owner changes made by calling the Safe', () => {
+    const guarded = new TransactionPolicy({
+      minOwners: 3,
+      allowedDelegateCallTargets: [MULTI_SEND_ADDRESS],
+    });
+    const removeOwner = OWNER_MANAGER.encodeFunctionData('removeOwner', [
+      TREASURY,
+      STRANGER,
+      2,
+    ]);
+    const selfCall = (data: string, owners?: number): TransactionAction => ({
+      kind: 'transaction',
+      networkId: 'eip155:1',
+      safeAddress: SAFE_ADDRESS,
+      to: SAFE_ADDRESS,
+      value: '0',
+      data,
+      operation: 0,
+      owners,
+    });
+
+    it('holds a direct removeOwner call to minOwners', () => {
+      expect(guarded.changesOwners(selfCall(removeOwner))).toBe(true);
+      expect(guarded.evaluate(selfCall(removeOwner, 4))).toEqual([]);
+      expect(
+        guarded.evaluate(selfCall(removeOwner, 3)).map(({ rule }) => rule)
+      ).toEqual(['minOwners']);
+    });
+
+    it('holds removeOwner calls inside a MultiSend batch to minOwners', () => {
+      const batch = batchAction(
+        multiSend(
+          packCall(0, SAFE_ADDRESS, 0n, removeOwner),
+          packCall(0, SAFE_ADDRESS, 0n, removeOwner)
+        )
+      );
+
+      expect(guarded.changesOwners(batch)).toBe(true);
+      expect(guarded.evaluate({ ...batch, owners: 5 })).toEqual([]);
+      expect(
+        guarded.evaluate({ ...batch, owners: 4 }).map(({ rule }) => rule)
+      ).toEqual(['minOwners']);
+    });
+
+    it('refuses an owner removal when the number of owners is unknown', () => {
+      expect(
+        guarded.evaluate(selfCall(removeOwner)).map(({ rule }) => rule)
+      ).toEqual(['minOwners']);
+    });
+
+    it('lets swaps and calls to other contracts through', () => {
+      const swap = OWNER_MANAGER.encodeFunctionData('swapOwner', [
+        TREASURY,
+        STRANGER,
+        TREASURY,
+      ]);
+
+      expect(guarded.evaluate(selfCall(swap, 3))).toEqual([]);
+      expect(
+        guarded.changesOwners({ ...selfCall(removeOwner), to: TREASURY })
+      ).toBe(false);
+    });
+  });
+});
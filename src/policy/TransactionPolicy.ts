@@ -0,0 +1,582 @@
+import * as fs from 'fs/promises';
+import { z } from 'zod';
+import { Interface, dataLength, dataSlice, getAddress, toBigInt } from 'ethers';
+import { SafeError, ErrorCodes } from '../utils/SafeError.js';
+
+const AddressSchema = z.string().regex(/^0x[a-fA-F0-9]{40}$/, {
+  message: 'Must be a valid Ethereum address',
+});
+
+const WeiAmountSchema = z.string().regex(/^\d+$/, {
+  message: 'Must be an amount in wei, as a decimal string',
+});
+
+/**
+ * Rules that apply on every network or, under networks, on one network
+ */
+const PolicyRulesSchema = z
+  .object({
+    maxValuePerTransaction: WeiAmountSchema.optional(),
+    maxValuePerDay: WeiAmountSchema.optional(),
+    allowedRecipients: z.array(AddressSchema).optional(),
+    allowedDelegateCallTargets: z.array(AddressSchema).optional(),
+    minOwners: z.number().int().min(1).optional(),
+    allowInfrastructureDeployment: z.boolean().optional(),
+  })
+  .strict();
+
+const PolicyFileSchema = PolicyRulesSchema.extend({
+  networks: z
+    .record(
+      z.string().regex(/^eip155:\d+$/, {
+        message: 'Must be a valid CAIP-2 identifier (e.g., eip155:1)',
+      }),
+      PolicyRulesSchema
+    )
+    .optional(),
+}).strict();
+
+export type PolicyRules = z.infer<typeof PolicyRulesSchema>;
+export type PolicyFile = z.infer<typeof PolicyFileSchema>;
+
+/**
+ * A write checked against the policy before anything is signed
+ */
+export type PolicyAction =
+  | {
+      kind: 'transaction';
+      networkId: string;
+      safeAddress: string;
+      to: string;
+      /** Native value in wei */
+      value: string;
+      data?: string | undefined;
+      operation: number;
+      /** Current number of owners; needed for calls that remove owners */
+      owners?: number | undefined;
+    }
+  | {
+      kind: 'owner_change';
+      networkId: string;
+      safeAddress: string;
+      ownersBefore: number;
+      ownersAfter: number;
+    }
+  | {
+      kind: 'deployment';
+      networkId: string;
+      owners: number;
+    }
+  | {
+      kind: 'infrastructure';
+      networkId: string;
+    };
+
+/**
+ * A rule the action breaks
+ */
+export interface PolicyViolation {
+  rule: keyof PolicyRules;
+  message: string;
+}
+
+/**
+ * A call made by the Safe on behalf of a transaction; MultiSend batches
+ * contain several
+ */
+interface PolicyCall {
+  to: string;
+  value: bigint;
+  data: string;
+  operation: number;
+}
+
+/**
+ * The calls a transaction makes and the delegate calls met on the way
+ */
+interface ExpandedCalls {
+  calls: PolicyCall[];
+  delegateCalls: PolicyCall[];
+}
+
+/**
+ * Calls whose arguments name the receiver of tokens
+ */
+const TOKEN_CALLS = new Interface([
+  'function transfer(address to, uint256 amount)',
+  'function approve(address spender, uint256 amount)',
+  'function transferFrom(address from, address to, uint256 amount)',
+]);
+
+const MULTI_SEND = new Interface(['function multiSend(bytes transactions)']);
+
+/**
+ * The Safe's OwnerManager functions, reached when a transaction calls the
+ * Safe itself
+ */
+const OWNER_MANAGER = new Interface([
+  'function addOwnerWithThreshold(address owner, uint256 threshold)',
+  'function removeOwner(address prevOwner, address owner, uint256 threshold)',
+  'function swapOwner(address prevOwner, address oldOwner, address newOwner)',
+  'function changeThreshold(uint256 threshold)',
+]);
+
+/**
+ * Size of the fixed part of a packed MultiSend entry: operation (1 byte),
+ * target (20), value (32) and data length (32)
+ */
+const MULTI_SEND_HEADER_LENGTH = 85;
+
+/**
+ * MultiSend batches nested deeper than this are refused
+ */
+const MAX_MULTI_SEND_DEPTH = 4;
+
+/**
+ * Declarative guardrails for write tools, loaded from a JSON policy file
+ *
+ * Rules at the top level apply on every network; a network entry replaces
+ * the rules it names for that network. Native value sent through
+ * safe_execute_transaction and safe_execute_with_signatures is counted per
+ * Safe and UTC day in memory only: it is not persisted, so the daily limit
+ * starts over when the server restarts.
+ */
+export class TransactionPolicy {
+  /** Wei counted per network, Safe and UTC day */
+  private spent: Map<string, bigint> = new Map();
+
+  constructor(
+    private policy: PolicyFile,
+    private filePath?: string | undefined
+  ) {}
+
+  /**
+   * Load and validate a policy file; throws a CONFIGURATION_ERROR listing
+   * every issue
+   */
+  static async load(filePath: string): Promise<TransactionPolicy> {
+    let content: unknown;
+    try {
+      content = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    } catch (error) {
+      throw new SafeError(
+        `Cannot load policy file ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+        ErrorCodes.CONFIGURATION_ERROR,
+        { filePath }
+      );
+    }
+
+    const result = PolicyFileSchema.safeParse(content);
+    if (!result.success) {
+      throw new SafeError(
+        `Policy file ${filePath} is invalid`,
+        ErrorCodes.CONFIGURATION_ERROR,
+        {
+          filePath,
+          issues: result.error.issues.map((issue) => ({
+            path: issue.path.map(String),
+            message: issue.message,
+          })),
+        }
+      );
+    }
+
+    return new TransactionPolicy(result.data, filePath);
+  }
+
+  /**
+   * Path of the policy file, if it was loaded from one
+   */
+  getFilePath(): string | undefined {
+    return this.filePath;
+  }
+
+  /**
+   * Rules in force on a network
+   */
+  getRules(networkId: string): PolicyRules {
+    const { networks, ...rules } = this.policy;
+    return { ...rules, ...networks?.[networkId] };
+  }
+
+  /**
+   * Whether any network has a daily value limit, which is only counted in
+   * memory
+   */
+  hasDailyLimit(): boolean {
+    return [this.policy, ...Object.values(this.policy.networks ?? {})].some(
+      (rules) => rules.maxValuePerDay !== undefined
+    );
+  }
+
+  /**
+   * Every rule the action breaks; throws a VALIDATION_ERROR for malformed
+   * MultiSend batches
+   */
+  evaluate(action: PolicyAction): PolicyViolation[] {
+    const rules = this.getRules(action.networkId);
+
+    switch (action.kind) {
+      case 'transaction':
+        return this.checkTransaction(rules, action);
+      case 'owner_change':
+        return this.checkOwnerChange(rules, action);
+      case 'deployment':
+        return rules.minOwners !== undefined && action.owners < rules.minOwners
+          ? [
+              {
+                rule: 'minOwners',
+                message: `A Safe with ${action.owners} owner(s) is below the minimum of ${rules.minOwners}`,
+              },
+            ]
+          : [];
+      case 'infrastructure':
+        return rules.allowInfrastructureDeployment === false
+          ? [
+              {
+                rule: 'allowInfrastructureDeployment',
+                message: `Deploying Safe infrastructure on ${action.networkId} is not allowed`,
+              },
+            ]
+          : [];
+    }
+  }
+
+  /**
+   * Throw a POLICY_VIOLATION SafeError listing every broken rule, without
+   * counting anything towards the daily limit; used before signing
+   */
+  check(action: PolicyAction): void {
+    const violations = this.evaluate(action);
+    if (violations.length > 0) {
+      throw new SafeError(
+        `Policy violation: ${violations.map((violation) => violation.message).join('; ')}`,
+        ErrorCodes.POLICY_VIOLATION,
+        {
+          networkId: action.networkId,
+          violations,
+          ...(this.filePath ? { policyFile: this.filePath } : {}),
+        }
+      );
+    }
+  }
+
+  /**
+   * Throw a POLICY_VIOLATION SafeError listing every broken rule. A
+   * transaction that passes counts towards the daily limit right away, so
+   * concurrent calls cannot overspend; call the returned function to give
+   * the amount back when nothing was broadcast.
+   */
+  enforce(action: PolicyAction): () => void {
+    this.check(action);
+
+    if (action.kind !== 'transaction') {
+      return () => {};
+    }
+
+    const key = this.spendKey(action.networkId, action.safeAddress);
+    const amount = totalValue(expandCalls(action).calls);
+    this.spent.set(key, (this.spent.get(key) ?? 0n) + amount);
+
+    let released = false;
+    return () => {
+      if (!released) {
+        released = true;
+        this.spent.set(key, (this.spent.get(key) ?? 0n) - amount);
+      }
+    };
+  }
+
+  /**
+   * Whether a transaction changes the Safe's owners by calling the Safe
+   * itself, directly or inside a MultiSend batch; such transactions need
+   * the current number of owners to be checked against minOwners
+   */
+  changesOwners(action: PolicyAction): boolean {
+    return (
+      action.kind === 'transaction' &&
+      ownerCountChange(expandCalls(action).calls, action.safeAddress) !==
+        undefined
+    );
+  }
+
+  private checkOwnerChange(
+    rules: PolicyRules,
+    action: Extract<PolicyAction, { kind: 'owner_change' }>
+  ): PolicyViolation[] {
+    return action.ownersAfter < action.ownersBefore &&
+      rules.minOwners !== undefined &&
+      action.ownersAfter < rules.minOwners
+      ? [
+          {
+            rule: 'minOwners',
+            message: `Removing an owner would leave Safe ${action.safeAddress} with ${action.ownersAfter} owner(s), below the minimum of ${rules.minOwners}`,
+          },
+        ]
+      : [];
+  }
+
+  private checkTransaction(
+    rules: PolicyRules,
+    action: Extract<PolicyAction, { kind: 'transaction' }>
+  ): PolicyViolation[] {
+    const violations: PolicyViolation[] = [];
+    const { calls, delegateCalls } = expandCalls(action);
+    const amount = totalValue(calls);
+
+    if (
+      rules.maxValuePerTransaction !== undefined &&
+      amount > BigInt(rules.maxValuePerTransaction)
+    ) {
+      violations.push({
+        rule: 'maxValuePerTransaction',
+        message: `Value of ${amount} wei exceeds the per-transaction limit of ${rules.maxValuePerTransaction} wei`,
+      });
+    }
+
+    if (rules.maxValuePerDay !== undefined) {
+      const spentToday =
+        this.spent.get(this.spendKey(action.networkId, action.safeAddress)) ??
+        0n;
+      if (spentToday + amount > BigInt(rules.maxValuePerDay)) {
+        violations.push({
+          rule: 'maxValuePerDay',
+          message: `Value of ${amount} wei on top of ${spentToday} wei sent today exceeds the daily limit of ${rules.maxValuePerDay} wei`,
+        });
+      }
+    }
+
+    // Delegate calls inside MultiSend batches are checked like the outer one
+    const delegateTargets = new Set(
+      delegateCalls.map((call) => getAddress(call.to))
+    );
+    const allowedDelegateTargets = new Set(
+      (rules.allowedDelegateCallTargets ?? []).map((address) =>
+        address.toLowerCase()
+      )
+    );
+    for (const target of delegateTargets) {
+      if (!allowedDelegateTargets.has(target.toLowerCase())) {
+        violations.push({
+          rule: 'allowedDelegateCallTargets',
+          message: `DelegateCall to ${target} is not allowed; only approved targets such as MultiSend may be delegate-called`,
+        });
+      }
+    }
+
+    // Owner changes made through the Safe's own functions are held to the
+    // same minimum as the owner tools
+    const ownerChange = ownerCountChange(calls, action.safeAddress);
+    if (
+      ownerChange !== undefined &&
+      ownerChange < 0 &&
+      rules.minOwners !== undefined
+    ) {
+      if (action.owners === undefined) {
+        violations.push({
+          rule: 'minOwners',
+          message: `The transaction removes owners of Safe ${action.safeAddress}, but its number of owners is unknown`,
+        });
+      } else {
+        violations.push(
+          ...this.checkOwnerChange(rules, {
+            kind: 'owner_change',
+            networkId: action.networkId,
+            safeAddress: action.safeAddress,
+            ownersBefore: action.owners,
+            ownersAfter: action.owners + ownerChange,
+          })
+        );
+      }
+    }
+
+    if (rules.allowedRecipients !== undefined) {
+      const allowed = new Set(
+        rules.allowedRecipients.map((address) => address.toLowerCase())
+      );
+      const refused = new Set<string>();
+      for (const recipient of calls.flatMap(recipientsOf)) {
+        if (!allowed.has(recipient.toLowerCase())) {
+          refused.add(getAddress(recipient));
+        }
+      }
+      for (const recipient of refused) {
+        violations.push({
+          rule: 'allowedRecipients',
+          message: `Recipient ${recipient} is not on the allowlist`,
+        });
+      }
+    }
+
+    return violations;
+  }
+
+  /**
+   * Ledger key for a Safe on the current UTC day; entries of earlier days
+   * are dropped on the way
+   */
+  private spendKey(networkId: string, safeAddress: string): string {
+    const day = new Date().toISOString().slice(0, 10);
+    for (const key of this.spent.keys()) {
+      if (!key.endsWith(`:${day}`)) {
+        this.spent.delete(key);
+      }
+    }
+    return `${networkId}:${safeAddress.toLowerCase()}:${day}`;
+  }
+}
+
+/**
+ * The calls a transaction makes, with delegate calls to MultiSend replaced
+ * by their batch (whose own value is ignored by the Safe), and every
+ * delegate call met on the way, nested batches included
+ */
+function expandCalls(
+  action: Extract<PolicyAction, { kind: 'transaction' }>
+): ExpandedCalls {
+  const expanded: ExpandedCalls = { calls: [], delegateCalls: [] };
+  collectCalls(
+    {
+      to: action.to,
+      value: BigInt(action.value),
+      data: action.data ?? '0x',
+      operation: action.operation,
+    },
+    0,
+    expanded
+  );
+  return expanded;
+}
+
+function collectCalls(
+  call: PolicyCall,
+  depth: number,
+  expanded: ExpandedCalls
+): void {
+  if (call.operation !== 1) {
+    expanded.calls.push(call);
+    return;
+  }
+
+  expanded.delegateCalls.push(call);
+  const batch = decodeMultiSend(call.data);
+  if (!batch) {
+    expanded.calls.push(call);
+    return;
+  }
+  if (depth >= MAX_MULTI_SEND_DEPTH) {
+    throw new SafeError(
+      `MultiSend batches nested more than ${MAX_MULTI_SEND_DEPTH} levels deep are not supported`,
+      ErrorCodes.VALIDATION_ERROR,
+      { to: call.to }
+    );
+  }
+  batch.forEach((inner) => collectCalls(inner, depth + 1, expanded));
+}
+
+/**
+ * Unpack multiSend(bytes) call data: each entry is the operation (1 byte),
+ * target (20), value (32), data length (32) and the data itself. Returns
+ * undefined for other call data and throws a VALIDATION_ERROR when the
+ * packed entries run past the end of the batch.
+ */
+function decodeMultiSend(data: string): PolicyCall[] | undefined {
+  let packed: string;
+  try {
+    const parsed = MULTI_SEND.parseTransaction({ data });
+    if (!parsed) {
+      return undefined;
+    }
+    packed = String(parsed.args[0]);
+  } catch {
+    return undefined;
+  }
+
+  const malformed = (offset: number): SafeError =>
+    new SafeError(
+      `MultiSend batch is malformed: the entry at byte ${offset} runs past the end of the batch`,
+      ErrorCodes.VALIDATION_ERROR,
+      { offset, length: dataLength(packed) }
+    );
+
+  const calls: PolicyCall[] = [];
+  const end = dataLength(packed);
+  let offset = 0;
+  while (offset < end) {
+    const dataStart = offset + MULTI_SEND_HEADER_LENGTH;
+    if (dataStart > end) {
+      throw malformed(offset);
+    }
+    const length = toBigInt(dataSlice(packed, offset + 53, dataStart));
+    if (length > BigInt(end - dataStart)) {
+      throw malformed(offset);
+    }
+    const dataEnd = dataStart + Number(length);
+    calls.push({
+      operation: Number(toBigInt(dataSlice(packed, offset, offset + 1))),
+      to: getAddress(dataSlice(packed, offset + 1, offset + 21)),
+      value: toBigInt(dataSlice(packed, offset + 21, offset + 53)),
+      data: dataSlice(packed, dataStart, dataEnd),
+    });
+    offset = dataEnd;
+  }
+  return calls;
+}
+
+/**
+ * Net change in the number of owners made by calls to the Safe's
+ * OwnerManager functions, or undefined when no call reaches them
+ */
+function ownerCountChange(
+  calls: PolicyCall[],
+  safeAddress: string
+): number | undefined {
+  let change: number | undefined;
+  for (const call of calls) {
+    if (call.to.toLowerCase() !== safeAddress.toLowerCase()) {
+      continue;
+    }
+    let parsed: ReturnType<Interface['parseTransaction']> = null;
+    try {
+      parsed = OWNER_MANAGER.parseTransaction({ data: call.data });
+    } catch {
+      // Not an owner management call
+    }
+    if (parsed) {
+      change =
+        (change ?? 0) +
+        (parsed.name === 'addOwnerWithThreshold'
+          ? 1
+          : parsed.name === 'removeOwner'
+            ? -1
+            : 0);
+    }
+  }
+  return change;
+}
+
+function totalValue(calls: PolicyCall[]): bigint {
+  return calls.reduce((sum, call) => sum + call.value, 0n);
+}
+
+/**
+ * Addresses a call reaches: its target and the beneficiary of token
+ * transfers and approvals
+ */
+function recipientsOf(call: PolicyCall): string[] {
+  const recipients = [call.to];
+
+  let parsed: ReturnType<Interface['parseTransaction']> = null;
+  try {
+    parsed = TOKEN_CALLS.parseTransaction({ data: call.data });
+  } catch {
+    // Not a token call
+  }
+  if (parsed) {
+    recipients.push(
+      String(parsed.name === 'approve' ? parsed.args[0] : parsed.args.to)
+    );
+  }
+
+  return recipients;
+}
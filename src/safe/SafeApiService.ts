@@ -1,5 +1,7 @@
 import { ContractRegistry } from '../network/ContractRegistry.js';
 import { SafeError } from '../utils/SafeError.js';
+import { SafeConfig } from '../config/types.js';
+import { DEFAULT_CONFIG } from '../config/defaults.js';
 
 export interface SafeTransactionProposal {
   to: string;
@@ -90,15 +92,30 @@ export interface HistoryFilter extends PaginationOptions {
 export class SafeApiService {
   private contractRegistry: ContractRegistry;
   private apiClients: Map<string, any> = new Map();
-  private serviceUrls: Record<string, string> = {
-    'eip155:1': 'https://safe-transaction-mainnet.safe.global',
-    'eip155:137': 'https://safe-transaction-polygon.safe.global',
-    'eip155:42161': 'https://safe-transaction-arbitrum.safe.global',
-    'eip155:11155111': 'https://safe-transaction-sepolia.safe.global',
-  };
-
-  constructor(contractRegistry: ContractRegistry) {
+  private config: SafeConfig;
+
+  constructor(
+    contractRegistry: ContractRegistry,
+    config: SafeConfig = DEFAULT_CONFIG
+  ) {
     this.contractRegistry = contractRegistry;
+    this.config = config;
+  }
+
+  /**
+   * Switch to a reloaded configuration, dropping API clients whose
+   * transaction service URL changed
+   */
+  updateConfig(config: SafeConfig): void {
+    for (const networkId of Array.from(this.apiClients.keys())) {
+      if (
+        this.config.networks?.[networkId]?.transactionService !==
+        config.networks?.[networkId]?.transactionService
+      ) {
+        this.apiClients.delete(networkId);
+      }
+    }
+    this.config = config;
   }
 
   private async getApiClient(networkId: string): Promise<any> {
@@ -136,13 +153,14 @@ export class SafeApiService {
   }
 
   getServiceUrl(networkId: string): string {
-    if (!(networkId in this.serviceUrls)) {
+    const serviceUrl = this.config.networks?.[networkId]?.transactionService;
+    if (!serviceUrl) {
       throw new SafeError(
         `Safe Transaction Service not available for network ${networkId}`,
         'SERVICE_NOT_AVAILABLE'
       );
     }
-    return this.serviceUrls[networkId]!;
+    return serviceUrl;
   }
 
   async proposeTransaction(
@@ -182,36 +200,51 @@ export class SafeApiService {
     networkId: string,
     options?: PaginationOptions
   ): Promise<PendingTransaction[]> {
-    await this.getApiClient(networkId);
+    try {
+      const apiClient = await this.getApiClient(networkId);
+
+      // Validate Safe address format
+      if (!this.contractRegistry.validateSafeAddress(safeAddress)) {
+        throw new SafeError('Invalid Safe address', 'INVALID_ADDRESS');
+      }
 
-    // Mock pending transactions
-    const pendingTxs: PendingTransaction[] = [
-      {
-        safeTxHash:
-          '0xabcdef1234567890abcdef1234567890abcdef1234567890abcdef1234567890',
-        to: '0x2345678901234567890123456789012345678901',
-        value: '1000000000000000000',
-        data: '0x',
-        confirmations: [
-          {
-            owner: '0x1234567890123456789012345678901234567890',
-            signature: '0x123456',
-            signatureType: 'EOA',
-            submissionDate: new Date().toISOString(),
-          },
-        ],
-        confirmationsRequired: 2,
-        nonce: 0,
-        submissionDate: new Date().toISOString(),
-        isExecuted: false,
-      },
-    ];
-
-    // Apply pagination
-    const limit = options?.limit || 20;
-    const offset = options?.offset || 0;
-
-    return pendingTxs.slice(offset, offset + limit);
+      const limit = options?.limit || 20;
+      const offset = options?.offset || 0;
+
+      // Get queued multisig transactions from Safe Transaction Service
+      const pendingResponse = await apiClient.getPendingTransactions(
+        safeAddress,
+        { limit, offset }
+      );
+
+      // Transform API response to our interface
+      return pendingResponse.results.map((tx: any) => ({
+        safeTxHash: tx.safeTxHash,
+        to: tx.to,
+        value: tx.value,
+        data: tx.data || '0x',
+        confirmations:
+          tx.confirmations?.map((conf: any) => ({
+            owner: conf.owner,
+            signature: conf.signature,
+            signatureType: conf.signatureType,
+            submissionDate: conf.submissionDate,
+          })) || [],
+        confirmationsRequired: tx.confirmationsRequired,
+        nonce: Number(tx.nonce),
+        submissionDate: tx.submissionDate,
+        isExecuted: tx.isExecuted,
+      }));
+    } catch (error) {
+      if (error instanceof SafeError) {
+        throw error;
+      }
+      throw new SafeError(
+        `Failed to fetch pending transactions: ${error instanceof Error ? error.message : String(error)}`,
+        'API_ERROR',
+        { safeAddress, networkId, originalError: String(error) }
+      );
+    }
   }
 
   async getTransactionHistory(
@@ -0,0 +1,136 @@
+import * as http from 'http';
+import { HttpTransportServer, isLoopbackHost } from './HttpTransportServer.js';
+import { SafeMultisigServer } from './SafeMultisigServer.js';
+import { ErrorCodes } from '../utils/SafeError.js';
+
+const INITIALIZE_REQUEST = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-03-26',
+    capabilities: {},
+    clientInfo: { name: 'test', version: '1.0.0' },
+  },
+};
+
+describe('HttpTransportServer', () => {
+  let httpServer: HttpTransportServer | undefined;
+
+  afterEach(async () => {
+    await httpServer?.close();
+    httpServer = undefined;
+  });
+
+  const start = async (
+    options: { host?: string; authToken?: string } = {}
+  ): Promise<string> => {
+    httpServer = new HttpTransportServer(
+      { host: '127.0.0.1', port: 0, ...options },
+      () => new SafeMultisigServer(false)
+    );
+    await httpServer.start();
+    return `http://127.0.0.1:${httpServer.getAddress().port}/mcp`;
+  };
+
+  const initialize = (url: string, headers: Record<string, string> = {}) =>
+    fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        ...headers,
+      },
+      body: JSON.stringify(INITIALIZE_REQUEST),
+    });
+
+  it('refuses a non-loopback bind address without an auth token', async () => {
+    httpServer = new HttpTransportServer(
+      { host: '0.0.0.0', port: 0 },
+      () => new SafeMultisigServer(false)
+    );
+
+    await expect(httpServer.start()).rejects.toMatchObject({
+      code: ErrorCodes.CONFIGURATION_ERROR,
+    });
+  });
+
+  it('accepts loopback Host headers and rejects others', async () => {
+    const url = await start();
+
+    const accepted = await initialize(url);
+    expect(accepted.status).toBe(200);
+    expect(accepted.headers.get('mcp-session-id')).toBeTruthy();
+    await accepted.body?.cancel();
+
+    // fetch always sends the real Host header, so use a raw request
+    const status = await new Promise<number | undefined>((resolve, reject) => {
+      const request = http.request(
+        url,
+        {
+          method: 'POST',
+          headers: {
+            Host: 'attacker.example:80',
+            'Content-Type': 'application/json',
+            Accept: 'application/json, text/event-stream',
+          },
+        },
+        (response) => {
+          response.resume();
+          resolve(response.statusCode);
+        }
+      );
+      request.on('error', reject);
+      request.end(JSON.stringify(INITIALIZE_REQUEST));
+    });
+    expect(status).toBe(403);
+    expect(httpServer?.getSessionCount()).toBe(1);
+  });
+
+  it('closes the session server when the client ends the session', async () => {
+    const url = await start();
+    const closeSpy = jest.spyOn(SafeMultisigServer.prototype, 'close');
+
+    const response = await initialize(url);
+    const sessionId = response.headers.get('mcp-session-id')!;
+    await response.body?.cancel();
+
+    await fetch(url, {
+      method: 'DELETE',
+      headers: { 'mcp-session-id': sessionId },
+    });
+
+    expect(httpServer?.getSessionCount()).toBe(0);
+    expect(closeSpy).toHaveBeenCalled();
+    closeSpy.mockRestore();
+  });
+
+  it('answers a malformed JSON body with a parse error', async () => {
+    const url = await start();
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+      },
+      body: '{"jsonrpc": "2.0",',
+    });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      jsonrpc: '2.0',
+      error: { code: -32700, message: 'Parse error' },
+      id: null,
+    });
+    expect(httpServer?.getSessionCount()).toBe(0);
+  });
+
+  it('recognises loopback addresses', () => {
+    expect(isLoopbackHost('127.0.0.1')).toBe(true);
+    expect(isLoopbackHost('localhost')).toBe(true);
+    expect(isLoopbackHost('::1')).toBe(true);
+    expect(isLoopbackHost('0.0.0.0')).toBe(false);
+    expect(isLoopbackHost('192.168.1.10')).toBe(false);
+  });
+});
@@ -0,0 +1,386 @@
+import {
+  createServer,
+  IncomingMessage,
+  Server as NodeHttpServer,
+  ServerResponse,
+} from 'http';
+import { randomUUID, timingSafeEqual } from 'crypto';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { SafeMultisigServer } from './SafeMultisigServer.js';
+import { SafeError, ErrorCodes } from '../utils/SafeError.js';
+import { redactError } from '../utils/redact.js';
+
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+  authToken?: string | undefined;
+  /** Host header values (host:port) to accept; defaults to loopback names */
+  allowedHosts?: string[] | undefined;
+}
+
+/**
+ * Active client session with its own MCP server instance
+ */
+interface Session {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: SafeMultisigServer;
+}
+
+const MCP_PATH = '/mcp';
+const SSE_PATH = '/sse';
+const SSE_MESSAGES_PATH = '/messages';
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Bind addresses that listen on every interface
+ */
+const WILDCARD_HOSTS = new Set(['0.0.0.0', '::', '[::]']);
+
+/**
+ * HTTP front-end for the Safe MCP server
+ *
+ * Serves the Streamable HTTP transport on /mcp and the legacy SSE transport
+ * on /sse + /messages so that several agents can share one server process.
+ * Every client session gets its own SafeMultisigServer instance.
+ *
+ * Host headers are checked against allowedHosts to stop DNS rebinding, and
+ * binding to anything but a loopback address requires a bearer token.
+ */
+export class HttpTransportServer {
+  private httpServer: NodeHttpServer | undefined;
+  private sessions: Map<string, Session> = new Map();
+  private allowedHosts: string[] = [];
+
+  constructor(
+    private options: HttpTransportOptions,
+    private createMcpServer: () => SafeMultisigServer
+  ) {}
+
+  /**
+   * Start listening on the configured address
+   */
+  async start(): Promise<void> {
+    if (!isLoopbackHost(this.options.host) && !this.options.authToken) {
+      throw new SafeError(
+        `Refusing to listen on ${this.options.host} without authentication: set an auth token (--auth-token or SAFE_MCP_AUTH_TOKEN) or bind to a loopback address`,
+        ErrorCodes.CONFIGURATION_ERROR,
+        { host: this.options.host }
+      );
+    }
+
+    const httpServer = createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        console.error('HTTP transport error:', redactError(error));
+        if (!res.headersSent) {
+          this.sendJsonError(res, 500, -32603, 'Internal server error');
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once('error', reject);
+      httpServer.listen(this.options.port, this.options.host, () => {
+        httpServer.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.httpServer = httpServer;
+    this.allowedHosts =
+      this.options.allowedHosts ??
+      defaultAllowedHosts(this.options.host, this.getAddress().port);
+  }
+
+  /**
+   * Host header values accepted by the transports
+   */
+  getAllowedHosts(): string[] {
+    return [...this.allowedHosts];
+  }
+
+  /**
+   * Address the server is bound to
+   */
+  getAddress(): { host: string; port: number } {
+    const address = this.httpServer?.address();
+    if (address && typeof address === 'object') {
+      return { host: address.address, port: address.port };
+    }
+    return { host: this.options.host, port: this.options.port };
+  }
+
+  /**
+   * Number of currently open client sessions
+   */
+  getSessionCount(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Server instances of the currently open client sessions
+   */
+  getServers(): SafeMultisigServer[] {
+    return Array.from(this.sessions.values()).map((session) => session.server);
+  }
+
+  /**
+   * Close all sessions and stop listening
+   */
+  async close(): Promise<void> {
+    const sessions = Array.from(this.sessions.values());
+    this.sessions.clear();
+    await Promise.all(sessions.map((session) => session.server.close()));
+
+    const httpServer = this.httpServer;
+    this.httpServer = undefined;
+    if (httpServer) {
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    }
+  }
+
+  /**
+   * Route an incoming HTTP request to the matching transport
+   */
+  private async handleRequest(
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<void> {
+    if (!this.isAuthorized(req)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      this.sendJsonError(res, 401, -32001, 'Unauthorized');
+      return;
+    }
+
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    switch (url.pathname) {
+      case MCP_PATH:
+        return await this.handleStreamableHttp(req, res);
+      case SSE_PATH:
+        return await this.handleSseConnect(req, res);
+      case SSE_MESSAGES_PATH:
+        return await this.handleSseMessage(
+          req,
+          res,
+          url.searchParams.get('sessionId')
+        );
+      default:
+        this.sendJsonError(res, 404, -32601, 'Not found');
+    }
+  }
+
+  /**
+   * Handle a Streamable HTTP request (POST, GET and DELETE on /mcp)
+   */
+  private async handleStreamableHttp(
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<void> {
+    const sessionIdHeader = req.headers['mcp-session-id'];
+    const sessionId = Array.isArray(sessionIdHeader)
+      ? sessionIdHeader[0]
+      : sessionIdHeader;
+    let body: unknown = null;
+    if (req.method === 'POST') {
+      const parsed = await this.readJsonBody(req, res);
+      if (!parsed) {
+        return;
+      }
+      body = parsed.body;
+    }
+
+    if (sessionId) {
+      const session = this.sessions.get(sessionId);
+      if (
+        !session ||
+        !(session.transport instanceof StreamableHTTPServerTransport)
+      ) {
+        this.sendJsonError(res, 404, -32001, 'Session not found');
+        return;
+      }
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      this.sendJsonError(
+        res,
+        400,
+        -32000,
+        'Bad Request: no valid session ID provided'
+      );
+      return;
+    }
+
+    const server = this.createMcpServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (newSessionId) => {
+        this.sessions.set(newSessionId, { transport, server });
+      },
+      enableDnsRebindingProtection: true,
+      allowedHosts: this.allowedHosts,
+    });
+    let closed = false;
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        this.sessions.delete(transport.sessionId);
+      }
+      // Release the session's server along with its transport
+      if (!closed) {
+        closed = true;
+        server.close().catch(() => {});
+      }
+    };
+
+    // The SDK declares onclose as an accessor, which trips exactOptionalPropertyTypes
+    await server.connect(transport as Transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  /**
+   * Open a legacy SSE stream (GET /sse)
+   */
+  private async handleSseConnect(
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<void> {
+    if (req.method !== 'GET') {
+      this.sendJsonError(res, 405, -32000, 'Method not allowed');
+      return;
+    }
+
+    const server = this.createMcpServer();
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res, {
+      enableDnsRebindingProtection: true,
+      allowedHosts: this.allowedHosts,
+    });
+    this.sessions.set(transport.sessionId, { transport, server });
+
+    res.on('close', () => {
+      this.sessions.delete(transport.sessionId);
+      server.close().catch(() => {});
+    });
+
+    await server.connect(transport);
+  }
+
+  /**
+   * Deliver a client message for a legacy SSE session (POST /messages)
+   */
+  private async handleSseMessage(
+    req: IncomingMessage,
+    res: ServerResponse,
+    sessionId: string | null
+  ): Promise<void> {
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      this.sendJsonError(res, 404, -32001, 'Session not found');
+      return;
+    }
+
+    const parsed = await this.readJsonBody(req, res);
+    if (parsed) {
+      await session.transport.handlePostMessage(req, res, parsed.body);
+    }
+  }
+
+  /**
+   * Check the bearer token when authentication is configured
+   */
+  private isAuthorized(req: IncomingMessage): boolean {
+    if (!this.options.authToken) {
+      return true;
+    }
+
+    const header = req.headers.authorization || '';
+    const match = /^Bearer\s+(.+)$/i.exec(header);
+    if (!match) {
+      return false;
+    }
+
+    const provided = Buffer.from(match[1]!.trim());
+    const expected = Buffer.from(this.options.authToken);
+    return (
+      provided.length === expected.length && timingSafeEqual(provided, expected)
+    );
+  }
+
+  /**
+   * Read and parse a JSON request body; answers a malformed body with a
+   * JSON-RPC parse error and returns undefined
+   */
+  private async readJsonBody(
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<{ body: unknown } | undefined> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of req) {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        throw new Error('Request body too large');
+      }
+      chunks.push(chunk as Buffer);
+    }
+
+    if (size === 0) {
+      return { body: undefined };
+    }
+
+    try {
+      return { body: JSON.parse(Buffer.concat(chunks).toString('utf-8')) };
+    } catch {
+      this.sendJsonError(res, 400, -32700, 'Parse error');
+      return undefined;
+    }
+  }
+
+  /**
+   * Send a JSON-RPC error response
+   */
+  private sendJsonError(
+    res: ServerResponse,
+    status: number,
+    code: number,
+    message: string
+  ): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(
+      JSON.stringify({
+        jsonrpc: '2.0',
+        error: { code, message },
+        id: null,
+      })
+    );
+  }
+}
+
+/**
+ * Whether a bind address only accepts connections from this machine
+ */
+export function isLoopbackHost(host: string): boolean {
+  const normalized = host.replace(/^\[|\]$/g, '').toLowerCase();
+  return (
+    normalized === 'localhost' ||
+    normalized === '::1' ||
+    /^127(?:\.\d{1,3}){3}$/.test(normalized)
+  );
+}
+
+/**
+ * Host headers a client on this machine or on the bound address sends
+ */
+function defaultAllowedHosts(host: string, port: number): string[] {
+  const hosts = ['127.0.0.1', 'localhost', '[::1]'];
+  const bound =
+    host.includes(':') && !host.startsWith('[') ? `[${host}]` : host;
+  if (!WILDCARD_HOSTS.has(host) && !hosts.includes(bound)) {
+    hosts.push(bound);
+  }
+  return hosts.map((name) => `${name}:${port}`);
+}
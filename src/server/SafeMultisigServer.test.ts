@@ -0,0 +1,113 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+  CallToolResult,
+  ElicitRequestSchema,
+  ElicitResult,
+} from '@modelcontextprotocol/sdk/types.js';
+import { SafeMultisigServer } from './SafeMultisigServer.js';
+import { safeDeployInfrastructure } from '../tools/safe-deploy-infrastructure.js';
+import { ErrorCodes, SafeError } from '../utils/SafeError.js';
+
+const PRIVATE_KEY =
+  '0x4c0883a69102937d6231471b5dbb6204fe5129617082792ae468d01a3f362318';
+
+function resultText(result: { content: unknown[] }): string {
+  return JSON.stringify(result.content);
+}
+
+describe('SafeMultisigServer.handleError', () => {
+  let server: SafeMultisigServer;
+  let logged: string[];
+
+  beforeEach(() => {
+    server = new SafeMultisigServer(false);
+    logged = [];
+    jest.spyOn(console, 'error').mockImplementation((...args: unknown[]) => {
+      logged.push(JSON.stringify(args));
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('does not leak secrets from a SafeError to the client or the log', () => {
+    const result = server.handleError(
+      new SafeError(
+        `Signing failed for private key ${PRIVATE_KEY}`,
+        ErrorCodes.SIGNER_ERROR,
+        { privateKey: PRIVATE_KEY }
+      )
+    );
+
+    expect(result.isError).toBe(true);
+    expect(resultText(result)).not.toContain(PRIVATE_KEY);
+    expect(logged.join('\n')).not.toContain(PRIVATE_KEY);
+  });
+
+  it('does not leak secrets from unexpected errors', () => {
+    const result = server.handleError(
+      new Error(`bad secret key ${PRIVATE_KEY}`)
+    );
+
+    expect(resultText(result)).toContain(ErrorCodes.SAFE_OPERATION_ERROR);
+    expect(resultText(result)).not.toContain(PRIVATE_KEY);
+    expect(logged.join('\n')).not.toContain(PRIVATE_KEY);
+  });
+});
+
+describe('safe_deploy_infrastructure approval', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  async function connectClient(
+    answer: ElicitResult
+  ): Promise<{ client: Client; elicit: jest.Mock }> {
+    const server = new SafeMultisigServer(true, {
+      config: {
+        networks: {
+          'eip155:31337': {
+            rpcUrl: 'http://127.0.0.1:8545',
+            requireApproval: ['safe_deploy_infrastructure'],
+          },
+        },
+      },
+    });
+    const client = new Client(
+      { name: 'test-client', version: '1.0.0' },
+      { capabilities: { elicitation: { form: {} } } }
+    );
+    const elicit = jest.fn(async () => answer);
+    client.setRequestHandler(ElicitRequestSchema, elicit);
+
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+    return { client, elicit };
+  }
+
+  it('asks before deploying and stops when the user declines', async () => {
+    const handle = jest.spyOn(safeDeployInfrastructure, 'handle');
+    const { client, elicit } = await connectClient({ action: 'decline' });
+
+    const result = (await client.callTool({
+      name: 'safe_deploy_infrastructure',
+      arguments: { network: 'eip155:31337', deployerPrivateKey: PRIVATE_KEY },
+    })) as CallToolResult;
+    await client.close();
+
+    expect(elicit).toHaveBeenCalledTimes(1);
+    expect(JSON.stringify(elicit.mock.calls)).toContain(
+      'Deployer: 0x2c7536E3605D9C16a7a3D7b1898e529396a65c23'
+    );
+    expect(resultText(result)).toContain(ErrorCodes.APPROVAL_DENIED);
+    expect(handle).not.toHaveBeenCalled();
+  });
+});
@@ -1,3 +1,4 @@
+import { z } from 'zod';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
 import {
@@ -5,20 +6,109 @@ import {
   CallToolResult,
   ListToolsRequestSchema,
   CallToolRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  McpError,
+  ErrorCode,
 } from '@modelcontextprotocol/sdk/types.js';
 import { SafeError, ErrorCodes } from '../utils/SafeError.js';
 import { WalletCreationTools } from '../mcp/tools/WalletCreationTools.js';
 import { WalletQueryTools } from '../mcp/tools/WalletQueryTools.js';
 import { TransactionManagementTools } from '../mcp/tools/TransactionManagementTools.js';
 import { OwnerManagementTools } from '../mcp/tools/OwnerManagementTools.js';
+import { SignerTools } from '../mcp/tools/SignerTools.js';
+import {
+  callToolDefinition,
+  defineTool,
+  structuredResult,
+  toMcpTool,
+} from '../mcp/tools/ToolDefinition.js';
+import {
+  DEFAULT_APPROVAL_TIMEOUT_MS,
+  NO_TOOL_CALL_CONTEXT,
+  ToolCallContext,
+  createToolCallContext,
+} from '../mcp/tools/ToolCallContext.js';
+import { requireApproval } from '../mcp/tools/ToolApproval.js';
 import { safeDeployInfrastructure } from '../tools/safe-deploy-infrastructure.js';
 import { NetworkManager } from '../network/NetworkManager.js';
 import { ContractRegistry } from '../network/ContractRegistry.js';
+import { SafeApiService } from '../safe/SafeApiService.js';
+import { SafeResources } from '../mcp/resources/SafeResources.js';
+import { WorkflowPrompts } from '../mcp/prompts/WorkflowPrompts.js';
+import { ToolProfiles } from './ToolProfiles.js';
+import { SafeConfig } from '../config/types.js';
+import { DEFAULT_CONFIG } from '../config/defaults.js';
+import { NetworkDefaults } from '../config/NetworkDefaults.js';
+import { SignerRegistry } from '../signers/SignerRegistry.js';
+import { AuditLog } from '../audit/AuditLog.js';
+import {
+  PolicyAction,
+  TransactionPolicy,
+} from '../policy/TransactionPolicy.js';
+import {
+  redactError,
+  redactSecrets,
+  redactStrings,
+  redactText,
+  registerSecretsFrom,
+} from '../utils/redact.js';
 
 /**
  * Tool handler function type
  */
-type ToolHandler = (_args: unknown) => Promise<CallToolResult>;
+type ToolHandler = (
+  _args: unknown,
+  _context: ToolCallContext
+) => Promise<CallToolResult>;
+
+/**
+ * Component that follows configuration reloads
+ */
+interface ConfigAware {
+  updateConfig(config: SafeConfig): void;
+}
+
+/**
+ * Server startup options
+ */
+export interface SafeMultisigServerOptions {
+  /** Only register tools that cannot sign or send transactions */
+  readOnly?: boolean | undefined;
+  /** Validated configuration (networks, tool profiles, signers) */
+  config?: SafeConfig | undefined;
+  /** Audit log receiving an entry for every tool call */
+  auditLog?: AuditLog | undefined;
+  /** Rules checked before write tools sign anything */
+  policy?: TransactionPolicy | undefined;
+}
+
+/**
+ * Tool input fields that carry signing keys; tools accepting any of them
+ * are treated as write tools
+ */
+const KEY_INPUT_FIELDS = ['privateKey', 'deployerPrivateKey', 'signer'];
+
+/**
+ * Admin tool for switching tool profiles at runtime
+ */
+const SET_PROFILE_TOOL = 'safe_admin_set_profile';
+
+const ProfileSwitchResultSchema = z.object({
+  activeProfile: z.string().nullable(),
+  profile: z
+    .object({
+      allow: z.array(z.string()).optional(),
+      deny: z.array(z.string()).optional(),
+      networks: z.array(z.string()).optional(),
+    })
+    .nullable()
+    .describe('Definition of the selected profile'),
+  enabledTools: z.array(z.string()),
+});
 
 /**
  * Safe Multisig MCP Server
@@ -31,8 +121,29 @@ export class SafeMultisigServer {
   private tools: Map<string, Tool> = new Map();
   private handlers: Map<string, ToolHandler> = new Map();
   private enabledTools: Set<string> = new Set();
+  private safeResources: SafeResources | undefined;
+  private workflowPrompts: WorkflowPrompts = new WorkflowPrompts();
+  private readOnly: boolean;
+  private blockedTools: Set<string> = new Set();
+  private toolProfiles: ToolProfiles;
+  private auditLog: AuditLog | undefined;
+  private policy: TransactionPolicy | undefined;
+  private signerRegistry: SignerRegistry;
+  private config: SafeConfig;
+  private configAware: ConfigAware[] = [];
+
+  constructor(
+    autoInitialize: boolean = true,
+    options: SafeMultisigServerOptions = {}
+  ) {
+    this.readOnly = options.readOnly ?? false;
+    this.auditLog = options.auditLog;
+    this.policy = options.policy;
+    this.config = options.config ?? DEFAULT_CONFIG;
+    this.signerRegistry = new SignerRegistry(this.config.signers);
+    this.toolProfiles = new ToolProfiles(this.config.profiles);
+    this.toolProfiles.setActiveProfile(this.config.activeProfile);
 
-  constructor(autoInitialize: boolean = true) {
     this.server = new Server(
       {
         name: 'safe-mcp-server',
@@ -40,7 +151,7 @@ export class SafeMultisigServer {
       },
       {
         capabilities: {
-          tools: {},
+          tools: { listChanged: true },
           resources: {},
           prompts: {},
         },
@@ -61,85 +172,221 @@ export class SafeMultisigServer {
    */
   private initializeTools(): void {
     const contractRegistry = new ContractRegistry();
-    const networkManager = new NetworkManager();
+    contractRegistry.updateConfig(this.config);
+    const networkManager = new NetworkManager(this.config);
+    const networkDefaults = new NetworkDefaults(this.config);
+    this.configAware.push(contractRegistry, networkManager, networkDefaults);
 
     // Initialize wallet creation tools
-    const walletCreationTools = new WalletCreationTools(contractRegistry);
+    const walletCreationTools = new WalletCreationTools(
+      contractRegistry,
+      this.signerRegistry,
+      this.config,
+      this.policy
+    );
+    this.configAware.push(walletCreationTools);
     walletCreationTools.getTools().forEach((tool) => {
-      this.registerTool(tool, async (args) => {
-        return await walletCreationTools.handleToolCall(tool.name, args);
+      this.registerTool(tool, async (args, context) => {
+        return await walletCreationTools.handleToolCall(
+          tool.name,
+          args,
+          context
+        );
       });
     });
 
     // Initialize wallet query tools
-    const walletQueryTools = new WalletQueryTools(contractRegistry);
+    const walletQueryTools = new WalletQueryTools(
+      contractRegistry,
+      this.config
+    );
+    this.configAware.push(walletQueryTools);
     walletQueryTools.getTools().forEach((tool) => {
-      this.registerTool(tool, async (args) => {
-        return await walletQueryTools.handleToolCall(tool.name, args);
+      this.registerTool(tool, async (args, context) => {
+        return await walletQueryTools.handleToolCall(tool.name, args, context);
       });
     });
 
+    // Expose Safe state as resources backed by the same query logic
+    const safeApiService = new SafeApiService(contractRegistry, this.config);
+    this.configAware.push(safeApiService);
+    this.safeResources = new SafeResources(
+      contractRegistry,
+      walletQueryTools,
+      safeApiService
+    );
+
     // Initialize transaction management tools
     const transactionManagementTools = new TransactionManagementTools(
-      contractRegistry
+      contractRegistry,
+      this.signerRegistry,
+      this.config,
+      this.policy
     );
+    this.configAware.push(transactionManagementTools);
     transactionManagementTools.getTools().forEach((tool) => {
-      this.registerTool(tool, async (args) => {
-        return await transactionManagementTools.handleToolCall(tool.name, args);
+      this.registerTool(tool, async (args, context) => {
+        return await transactionManagementTools.handleToolCall(
+          tool.name,
+          args,
+          context
+        );
       });
     });
 
     // Initialize owner management tools
-    const ownerManagementTools = new OwnerManagementTools(contractRegistry);
+    const ownerManagementTools = new OwnerManagementTools(
+      contractRegistry,
+      this.signerRegistry,
+      this.config,
+      this.policy
+    );
+    this.configAware.push(ownerManagementTools);
     ownerManagementTools.getTools().forEach((tool) => {
-      this.registerTool(tool, async (args) => {
-        return await ownerManagementTools.handleToolCall(tool.name, args);
+      this.registerTool(tool, async (args, context) => {
+        return await ownerManagementTools.handleToolCall(
+          tool.name,
+          args,
+          context
+        );
+      });
+    });
+
+    // Initialize signer tools
+    const signerTools = new SignerTools(this.signerRegistry);
+    signerTools.getTools().forEach((tool) => {
+      this.registerTool(tool, async (args, context) => {
+        return await signerTools.handleToolCall(tool.name, args, context);
       });
     });
 
     // Register infrastructure deployment tool
-    this.registerTool(
-      {
-        name: safeDeployInfrastructure.name,
-        description: safeDeployInfrastructure.description,
-        inputSchema: {
-          type: 'object',
-          properties: {
-            network: {
-              type: 'string',
-              description: 'Target network (CAIP-2 format)',
-            },
-            deployerPrivateKey: {
-              type: 'string',
-              description: 'Private key of deployer',
-            },
-            gasPrice: {
-              type: 'string',
-              description: 'Gas price in gwei (optional)',
-            },
-            confirmations: {
-              type: 'number',
-              default: 1,
-              description: 'Confirmations to wait',
+    const deployInfrastructure = defineTool({
+      name: safeDeployInfrastructure.name,
+      description: safeDeployInfrastructure.description,
+      inputSchema: safeDeployInfrastructure.inputSchema,
+      outputSchema: safeDeployInfrastructure.outputSchema,
+      handler: async (args, context) => {
+        const policyAction: PolicyAction = {
+          kind: 'infrastructure',
+          networkId: args.network,
+        };
+
+        if (args.dryRun) {
+          const simulation = await safeDeployInfrastructure.simulate(
+            args,
+            networkManager,
+            this.signerRegistry,
+            context
+          );
+          const policyViolations = this.policy?.evaluate(policyAction) ?? [];
+          const preview = {
+            ...simulation,
+            ...(policyViolations.length > 0 ? { policyViolations } : {}),
+          };
+          const missing = preview.steps.filter(
+            (step) => step.status !== 'already-deployed'
+          ).length;
+          return structuredResult(
+            safeDeployInfrastructure.outputSchema,
+            `Dry run of the Safe infrastructure deployment on ${preview.networkId}: ${missing} of ${preview.steps.length} contract(s) to deploy, ${preview.success ? `expected to succeed using about ${preview.totalGasEstimate} gas` : 'expected to fail'}`,
+            preview
+          );
+        }
+
+        this.policy?.enforce(policyAction);
+        if (
+          networkDefaults.requiresApproval(
+            args.network,
+            'safe_deploy_infrastructure'
+          )
+        ) {
+          const deployer = this.signerRegistry.resolve({
+            signer: args.signer,
+            privateKey: args.deployerPrivateKey,
+          });
+          await requireApproval(context, {
+            tool: 'safe_deploy_infrastructure',
+            networkId: args.network,
+            // The target is often a network the registry does not know yet
+            networkName: contractRegistry.isNetworkSupported(args.network)
+              ? contractRegistry.getNetworkInfo(args.network).name
+              : args.network,
+            summary:
+              'Deploy the Safe infrastructure contracts that are not on the network yet',
+            details: {
+              Deployer: await deployer.getAddress(),
+              Contracts:
+                'Safe Singleton Factory, Safe Singleton, Safe Proxy Factory, Fallback Handler, MultiSend',
             },
-          },
-          required: ['network', 'deployerPrivateKey'],
-        },
-      },
-      async (args) => {
+          });
+        }
         const result = await safeDeployInfrastructure.handle(
-          args as any,
-          networkManager
+          args,
+          networkManager,
+          this.signerRegistry,
+          context
         );
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(result, null, 2),
-            },
-          ],
-        };
-      }
+        const { contracts } = result.deployment;
+        return structuredResult(
+          safeDeployInfrastructure.outputSchema,
+          `${result.message}: ${result.networkId} (chain ${result.chainId}), singleton ${contracts.safeSingleton}, proxy factory ${contracts.safeProxyFactory}, fallback handler ${contracts.fallbackHandler}, MultiSend ${contracts.multiSend}; ${result.gasUsed} gas used`,
+          result
+        );
+      },
+    });
+    this.registerTool(toMcpTool(deployInfrastructure), (args, context) =>
+      callToolDefinition(
+        [deployInfrastructure],
+        deployInfrastructure.name,
+        args,
+        context
+      )
+    );
+
+    // Register the profile admin tool when profiles are configured
+    if (this.toolProfiles.getProfileNames().length > 0) {
+      this.registerProfileAdminTool();
+    }
+  }
+
+  /**
+   * Register the admin tool used to switch tool profiles at runtime
+   */
+  private registerProfileAdminTool(): void {
+    const profileNames = this.toolProfiles.getProfileNames() as [
+      string,
+      ...string[],
+    ];
+    const setProfile = defineTool({
+      name: SET_PROFILE_TOOL,
+      description:
+        'Switch the active tool profile, which controls the available tools and networks',
+      inputSchema: z.object({
+        profile: z
+          .enum(profileNames)
+          .describe('Name of the tool profile to activate'),
+      }),
+      outputSchema: ProfileSwitchResultSchema,
+      handler: async ({ profile }) => {
+        this.setActiveProfile(profile);
+
+        const activeProfile = this.toolProfiles.getActiveProfile() ?? null;
+        const enabledTools = Array.from(this.enabledTools);
+        return structuredResult(
+          ProfileSwitchResultSchema,
+          `Active tool profile: ${activeProfile} (${enabledTools.length} tools enabled)`,
+          {
+            activeProfile,
+            profile: this.toolProfiles.getProfile(profile) ?? null,
+            enabledTools,
+          }
+        );
+      },
+    });
+
+    this.registerTool(toMcpTool(setProfile), (args, context) =>
+      callToolDefinition([setProfile], SET_PROFILE_TOOL, args, context)
     );
   }
 
@@ -159,43 +406,182 @@ export class SafeMultisigServer {
     });
 
     // Handle tools/call requests
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
-
-      if (!this.enabledTools.has(name)) {
-        return this.handleError(
-          new SafeError(
-            `Tool '${name}' is not enabled`,
-            ErrorCodes.TOOL_NOT_FOUND
-          )
+    this.server.setRequestHandler(
+      CallToolRequestSchema,
+      async (request, extra) => {
+        const { name, arguments: args } = request.params;
+        const startedAt = Date.now();
+
+        // Secrets in the arguments are masked wherever they reappear
+        registerSecretsFrom(args);
+
+        const context = createToolCallContext(
+          request.params._meta?.progressToken,
+          extra.sendNotification,
+          extra.signal,
+          this.server.getClientCapabilities()?.elicitation?.form
+            ? (params, options) =>
+                this.server.elicitInput(params, {
+                  ...options,
+                  relatedRequestId: extra.requestId,
+                  timeout:
+                    this.config.approval?.timeout ??
+                    DEFAULT_APPROVAL_TIMEOUT_MS,
+                })
+            : undefined
+        );
+        const result = this.redactResult(
+          await this.dispatchToolCall(name, args, context)
         );
+
+        if (this.auditLog) {
+          await this.auditLog
+            .record({
+              tool: name,
+              args,
+              result,
+              durationMs: Date.now() - startedAt,
+              client: this.server.getClientVersion(),
+              sessionId: extra.sessionId,
+            })
+            .catch((error) => {
+              console.error(
+                'Failed to write audit log entry:',
+                redactError(error)
+              );
+            });
+        }
+
+        return result;
       }
+    );
 
-      const handler = this.handlers.get(name);
-      if (!handler) {
-        return this.handleError(
-          new SafeError(
-            `Handler for tool '${name}' not found`,
-            ErrorCodes.TOOL_NOT_FOUND
-          )
-        );
+    // Handle resources/list requests
+    this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      // Resources on networks outside the active profile are hidden
+      return {
+        resources:
+          this.safeResources?.listResources((networkId) =>
+            this.toolProfiles.isNetworkAllowed(networkId)
+          ) ?? [],
+      };
+    });
+
+    // Handle resources/templates/list requests
+    this.server.setRequestHandler(
+      ListResourceTemplatesRequestSchema,
+      async () => {
+        return {
+          resourceTemplates: this.safeResources?.getResourceTemplates() ?? [],
+        };
       }
+    );
 
-      try {
-        return await handler(args);
-      } catch (error) {
-        return this.handleError(error);
+    // Handle resources/read requests
+    this.server.setRequestHandler(
+      ReadResourceRequestSchema,
+      async (request) => {
+        if (!this.safeResources) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            `Resource not found: ${request.params.uri}`
+          );
+        }
+
+        try {
+          const { networkId } = this.safeResources.parseUri(request.params.uri);
+          this.toolProfiles.assertNetworkAllowed('resources/read', {
+            networkId,
+          });
+          return await this.safeResources.readResource(request.params.uri);
+        } catch (error) {
+          if (error instanceof SafeError) {
+            throw new McpError(
+              ErrorCode.InvalidParams,
+              error.message,
+              error.toJSON().error
+            );
+          }
+          throw error;
+        }
       }
+    );
+
+    // Handle prompts/list requests
+    this.server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      return {
+        prompts: this.workflowPrompts.getPrompts(),
+      };
     });
+
+    // Handle prompts/get requests
+    this.server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      return this.workflowPrompts.getPrompt(
+        request.params.name,
+        request.params.arguments
+      );
+    });
+  }
+
+  /**
+   * Run a tool call through the enablement checks and its handler
+   */
+  private async dispatchToolCall(
+    name: string,
+    args: unknown,
+    context: ToolCallContext
+  ): Promise<CallToolResult> {
+    if (this.blockedTools.has(name)) {
+      return this.handleError(this.permissionDenied(name));
+    }
+
+    if (!this.enabledTools.has(name)) {
+      return this.handleError(
+        new SafeError(
+          `Tool '${name}' is not enabled`,
+          ErrorCodes.TOOL_NOT_FOUND
+        )
+      );
+    }
+
+    try {
+      this.toolProfiles.assertNetworkAllowed(name, args);
+    } catch (error) {
+      return this.handleError(error);
+    }
+
+    const handler = this.handlers.get(name);
+    if (!handler) {
+      return this.handleError(
+        new SafeError(
+          `Handler for tool '${name}' not found`,
+          ErrorCodes.TOOL_NOT_FOUND
+        )
+      );
+    }
+
+    try {
+      return await handler(args, context);
+    } catch (error) {
+      return this.handleError(error);
+    }
   }
 
   /**
    * Register a new tool
    */
   registerTool(tool: Tool, handler: ToolHandler): void {
+    // In read-only mode write tools are never registered
+    if (this.readOnly && this.acceptsKeys(tool)) {
+      this.blockedTools.add(tool.name);
+      return;
+    }
+
     this.tools.set(tool.name, tool);
     this.handlers.set(tool.name, handler);
-    this.enabledTools.add(tool.name);
+    if (this.isAllowedByProfile(tool.name)) {
+      this.enabledTools.add(tool.name);
+    }
 
     // Tool registered successfully
   }
@@ -224,10 +610,99 @@ export class SafeMultisigServer {
     return false;
   }
 
+  /**
+   * Switch the active tool profile (undefined lifts all restrictions)
+   */
+  setActiveProfile(profile: string | undefined): void {
+    this.toolProfiles.setActiveProfile(profile);
+    this.refreshEnabledTools();
+
+    // Clients are only notified once connected
+    this.server.sendToolListChanged().catch(() => {});
+  }
+
+  /**
+   * Swap in a reloaded configuration without dropping the client session
+   *
+   * Cached providers of changed networks are discarded, signers and tool
+   * profiles are replaced, and clients get tools/list_changed when the
+   * visible tool set differs. An invalid active profile rejects the whole
+   * reload before anything is changed.
+   */
+  applyConfig(config: SafeConfig): void {
+    const toolsBefore = JSON.stringify(this.getAvailableTools());
+
+    // A changed activeProfile setting wins over a profile picked at runtime
+    const activeProfile =
+      config.activeProfile !== this.config.activeProfile
+        ? config.activeProfile
+        : this.toolProfiles.getActiveProfile();
+    this.toolProfiles.setProfiles(config.profiles, activeProfile);
+
+    this.config = config;
+    this.signerRegistry.update(config.signers);
+    this.configAware.forEach((component) => component.updateConfig(config));
+
+    if (this.toolProfiles.getProfileNames().length > 0) {
+      // Re-register so the profile enum matches the new definitions
+      this.registerProfileAdminTool();
+    } else {
+      this.tools.delete(SET_PROFILE_TOOL);
+      this.handlers.delete(SET_PROFILE_TOOL);
+      this.enabledTools.delete(SET_PROFILE_TOOL);
+    }
+    this.refreshEnabledTools();
+
+    if (JSON.stringify(this.getAvailableTools()) !== toolsBefore) {
+      this.server.sendToolListChanged().catch(() => {});
+    }
+  }
+
+  /**
+   * Get the active configuration
+   */
+  getConfig(): SafeConfig {
+    return this.config;
+  }
+
+  /**
+   * Re-evaluate every registered tool against the active profile
+   */
+  private refreshEnabledTools(): void {
+    for (const toolName of this.tools.keys()) {
+      if (this.isAllowedByProfile(toolName)) {
+        this.enabledTools.add(toolName);
+      } else {
+        this.enabledTools.delete(toolName);
+      }
+    }
+  }
+
+  /**
+   * Get the active tool profile name
+   */
+  getActiveProfile(): string | undefined {
+    return this.toolProfiles.getActiveProfile();
+  }
+
+  /**
+   * Check a tool against the active profile; the admin tool is only
+   * available under a profile that allows it by its exact name
+   */
+  private isAllowedByProfile(toolName: string): boolean {
+    return toolName === SET_PROFILE_TOOL
+      ? this.toolProfiles.isToolExplicitlyAllowed(toolName)
+      : this.toolProfiles.isToolAllowed(toolName);
+  }
+
   /**
    * Call a tool by name
    */
   private async callTool(name: string, args: unknown): Promise<CallToolResult> {
+    if (this.blockedTools.has(name)) {
+      throw this.permissionDenied(name);
+    }
+
     if (!this.enabledTools.has(name)) {
       throw new SafeError(
         `Tool '${name}' is not available`,
@@ -236,6 +711,8 @@ export class SafeMultisigServer {
       );
     }
 
+    this.toolProfiles.assertNetworkAllowed(name, args);
+
     const handler = this.handlers.get(name);
     if (!handler) {
       throw new SafeError(
@@ -245,7 +722,49 @@ export class SafeMultisigServer {
       );
     }
 
-    return await handler(args);
+    return await handler(args, NO_TOOL_CALL_CONTEXT);
+  }
+
+  /**
+   * Check whether a tool accepts signing keys
+   */
+  private acceptsKeys(tool: Tool): boolean {
+    const properties = tool.inputSchema.properties ?? {};
+    return KEY_INPUT_FIELDS.some((field) => field in properties);
+  }
+
+  /**
+   * Error returned when a write tool is called in read-only mode
+   */
+  private permissionDenied(toolName: string): SafeError {
+    return new SafeError(
+      `Tool '${toolName}' is disabled: server is running in read-only mode`,
+      ErrorCodes.PERMISSION_DENIED,
+      { toolName, readOnly: true }
+    );
+  }
+
+  /**
+   * Whether the server was started in read-only mode
+   */
+  isReadOnly(): boolean {
+    return this.readOnly;
+  }
+
+  /**
+   * Mask secrets that leaked into tool result text or structured content
+   */
+  private redactResult(result: CallToolResult): CallToolResult {
+    const redacted: CallToolResult = {
+      ...result,
+      content: result.content.map((item) =>
+        item.type === 'text' ? { ...item, text: redactText(item.text) } : item
+      ),
+    };
+    if (result.structuredContent) {
+      redacted.structuredContent = redactStrings(result.structuredContent);
+    }
+    return redacted;
   }
 
   /**
@@ -254,8 +773,8 @@ export class SafeMultisigServer {
   handleError(error: unknown): CallToolResult {
     if (error instanceof SafeError) {
       console.error(
-        `SafeError [${error.code}]: ${error.message}`,
-        error.details
+        `SafeError [${error.code}]: ${redactText(error.message)}`,
+        redactSecrets(error.details)
       );
       return {
         content: [
@@ -270,7 +789,7 @@ export class SafeMultisigServer {
 
     // Handle unexpected errors
     const message = error instanceof Error ? error.message : 'Unknown error';
-    console.error('Unexpected error:', error);
+    console.error('Unexpected error:', redactError(error));
 
     const safeError = new SafeError(
       `Unexpected error: ${message}`,
@@ -303,4 +822,11 @@ export class SafeMultisigServer {
   async connect(transport: Transport): Promise<void> {
     await this.server.connect(transport);
   }
+
+  /**
+   * Close the server and its transport
+   */
+  async close(): Promise<void> {
+    await this.server.close();
+  }
 }
@@ -0,0 +1,40 @@
+import { ToolProfiles } from './ToolProfiles.js';
+import { ErrorCodes } from '../utils/SafeError.js';
+
+const ADMIN_TOOL = 'safe_admin_set_profile';
+
+describe('ToolProfiles', () => {
+  const profiles = new ToolProfiles({
+    auditor: { allow: ['safe_get_*'], networks: ['eip155:1'] },
+    broad: { allow: ['safe_*'] },
+    open: { deny: ['safe_execute_transaction'] },
+    operator: { allow: ['safe_get_*', ADMIN_TOOL] },
+  });
+
+  it('only allows the admin tool when named exactly in the allow list', () => {
+    profiles.setActiveProfile('broad');
+    expect(profiles.isToolAllowed(ADMIN_TOOL)).toBe(true);
+    expect(profiles.isToolExplicitlyAllowed(ADMIN_TOOL)).toBe(false);
+
+    profiles.setActiveProfile('open');
+    expect(profiles.isToolExplicitlyAllowed(ADMIN_TOOL)).toBe(false);
+
+    profiles.setActiveProfile('operator');
+    expect(profiles.isToolExplicitlyAllowed(ADMIN_TOOL)).toBe(true);
+
+    profiles.setActiveProfile(undefined);
+    expect(profiles.isToolExplicitlyAllowed(ADMIN_TOOL)).toBe(true);
+  });
+
+  it('restricts networks of the active profile', () => {
+    profiles.setActiveProfile('auditor');
+
+    expect(profiles.isNetworkAllowed('eip155:1')).toBe(true);
+    expect(profiles.isNetworkAllowed('eip155:137')).toBe(false);
+    expect(() =>
+      profiles.assertNetworkAllowed('resources/read', {
+        networkId: 'eip155:137',
+      })
+    ).toThrow(expect.objectContaining({ code: ErrorCodes.PERMISSION_DENIED }));
+  });
+});
@@ -0,0 +1,170 @@
+import { ToolProfileConfig } from '../config/types.js';
+import { SafeError, ErrorCodes } from '../utils/SafeError.js';
+
+/**
+ * Tool argument names that carry a CAIP-2 network identifier
+ */
+const NETWORK_ARGUMENT_FIELDS = ['networkId', 'network'];
+
+/**
+ * Named tool profiles with allow/deny globs and network restrictions
+ *
+ * Globs support `*` (any characters) and `?` (a single character), e.g.
+ * `safe_get_*`. A tool is available when it matches an allow pattern (or the
+ * profile has no allow list) and matches no deny pattern.
+ */
+export class ToolProfiles {
+  private profiles: Map<string, ToolProfileConfig>;
+  private activeProfile: string | undefined;
+
+  constructor(profiles: Record<string, ToolProfileConfig> = {}) {
+    this.profiles = new Map(Object.entries(profiles));
+  }
+
+  /**
+   * Replace the profile definitions and the active profile together; nothing
+   * changes when the active profile is not among the new definitions, so a
+   * reload can never silently lift restrictions
+   */
+  setProfiles(
+    profiles: Record<string, ToolProfileConfig> = {},
+    activeProfile: string | undefined
+  ): void {
+    if (activeProfile !== undefined && !(activeProfile in profiles)) {
+      throw new SafeError(
+        `Tool profile '${activeProfile}' is not defined`,
+        ErrorCodes.CONFIGURATION_ERROR,
+        { profile: activeProfile, availableProfiles: Object.keys(profiles) }
+      );
+    }
+    this.profiles = new Map(Object.entries(profiles));
+    this.activeProfile = activeProfile;
+  }
+
+  /**
+   * Get the names of all configured profiles
+   */
+  getProfileNames(): string[] {
+    return Array.from(this.profiles.keys());
+  }
+
+  /**
+   * Get a profile definition by name
+   */
+  getProfile(name: string): ToolProfileConfig | undefined {
+    return this.profiles.get(name);
+  }
+
+  /**
+   * Get the active profile name (undefined when unrestricted)
+   */
+  getActiveProfile(): string | undefined {
+    return this.activeProfile;
+  }
+
+  /**
+   * Switch the active profile, or clear it with undefined
+   */
+  setActiveProfile(name: string | undefined): void {
+    if (name !== undefined && !this.profiles.has(name)) {
+      throw new SafeError(
+        `Tool profile '${name}' is not defined`,
+        ErrorCodes.CONFIGURATION_ERROR,
+        { profile: name, availableProfiles: this.getProfileNames() }
+      );
+    }
+    this.activeProfile = name;
+  }
+
+  /**
+   * Check whether a tool is available under the active profile
+   */
+  isToolAllowed(toolName: string): boolean {
+    const profile = this.currentProfile();
+    if (!profile) {
+      return true;
+    }
+
+    if (profile.deny?.some((pattern) => matchesGlob(pattern, toolName))) {
+      return false;
+    }
+
+    if (!profile.allow) {
+      return true;
+    }
+
+    return profile.allow.some((pattern) => matchesGlob(pattern, toolName));
+  }
+
+  /**
+   * Check whether the active profile lists a tool by its exact name in its
+   * allow list; globs and a missing allow list do not count
+   */
+  isToolExplicitlyAllowed(toolName: string): boolean {
+    const profile = this.currentProfile();
+    if (!profile) {
+      return true;
+    }
+
+    return (
+      !profile.deny?.some((pattern) => matchesGlob(pattern, toolName)) &&
+      (profile.allow?.includes(toolName) ?? false)
+    );
+  }
+
+  /**
+   * Check whether the active profile allows a network
+   */
+  isNetworkAllowed(networkId: string): boolean {
+    const networks = this.currentProfile()?.networks;
+    return !networks || networks.includes(networkId);
+  }
+
+  /**
+   * Throw PERMISSION_DENIED when tool arguments target a network outside
+   * the active profile's network list
+   */
+  assertNetworkAllowed(toolName: string, args: unknown): void {
+    const profile = this.currentProfile();
+    if (!profile?.networks || !args || typeof args !== 'object') {
+      return;
+    }
+
+    for (const field of NETWORK_ARGUMENT_FIELDS) {
+      const networkId = (args as Record<string, unknown>)[field];
+      if (typeof networkId === 'string' && !this.isNetworkAllowed(networkId)) {
+        throw new SafeError(
+          `Network ${networkId} is not allowed by tool profile '${this.activeProfile}'`,
+          ErrorCodes.PERMISSION_DENIED,
+          {
+            toolName,
+            networkId,
+            profile: this.activeProfile,
+            allowedNetworks: profile.networks,
+          }
+        );
+      }
+    }
+  }
+
+  private currentProfile(): ToolProfileConfig | undefined {
+    return this.activeProfile !== undefined
+      ? this.profiles.get(this.activeProfile)
+      : undefined;
+  }
+}
+
+/**
+ * Match a tool name against a glob pattern
+ */
+export function matchesGlob(pattern: string, value: string): boolean {
+  const regex = pattern
+    .split('')
+    .map((char) => {
+      if (char === '*') return '.*';
+      if (char === '?') return '.';
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${regex}$`).test(value);
+}
@@ -0,0 +1,118 @@
+import * as fs from 'fs/promises';
+import {
+  getAddress,
+  JsonRpcProvider,
+  Signer,
+  TypedDataDomain,
+  TypedDataField,
+  Wallet,
+} from 'ethers';
+import { SafeConnection, SafeSigner } from './types.js';
+import { PrivateKeySigner } from './PrivateKeySigner.js';
+import { readSecret } from './secrets.js';
+import { registerSecret } from '../utils/redact.js';
+import { KeystoreSignerConfig } from '../config/types.js';
+import { SafeError, ErrorCodes } from '../utils/SafeError.js';
+
+/**
+ * Signer backed by an Ethereum V3 keystore file
+ *
+ * The keystore is decrypted on first use with a passphrase read from an
+ * environment variable or a file, and the unlocked key is kept in memory
+ * for the lifetime of the process.
+ */
+export class KeystoreSigner implements SafeSigner {
+  readonly type = 'keystore';
+  private unlocked: Promise<PrivateKeySigner> | undefined;
+
+  constructor(
+    readonly name: string,
+    private config: KeystoreSignerConfig
+  ) {}
+
+  async getAddress(): Promise<string> {
+    // V3 keystores store the address in clear text, so listing signers does
+    // not require the (slow) scrypt decryption
+    const keystore = JSON.parse(await this.readKeystore());
+    if (typeof keystore.address === 'string') {
+      return getAddress(
+        keystore.address.startsWith('0x')
+          ? keystore.address
+          : `0x${keystore.address}`
+      );
+    }
+    return (await this.unlock()).getAddress();
+  }
+
+  async getSafeConnection(rpcUrl: string): Promise<SafeConnection> {
+    return (await this.unlock()).getSafeConnection(rpcUrl);
+  }
+
+  async connect(provider: JsonRpcProvider): Promise<Signer> {
+    return (await this.unlock()).connect(provider);
+  }
+
+  async signTypedData(
+    domain: TypedDataDomain,
+    types: Record<string, TypedDataField[]>,
+    value: Record<string, unknown>
+  ): Promise<string> {
+    return (await this.unlock()).signTypedData(domain, types, value);
+  }
+
+  private unlock(): Promise<PrivateKeySigner> {
+    if (!this.unlocked) {
+      this.unlocked = this.decrypt();
+      // Allow a retry after fixing the passphrase or keystore file
+      this.unlocked.catch(() => {
+        this.unlocked = undefined;
+      });
+    }
+    return this.unlocked;
+  }
+
+  private async decrypt(): Promise<PrivateKeySigner> {
+    const [keystore, passphrase] = await Promise.all([
+      this.readKeystore(),
+      this.readPassphrase(),
+    ]);
+
+    let wallet;
+    try {
+      wallet = await Wallet.fromEncryptedJson(keystore, passphrase);
+    } catch (error) {
+      throw new SafeError(
+        `Failed to unlock keystore for signer '${this.name}': ${error instanceof Error ? error.message : String(error)}`,
+        ErrorCodes.CONFIGURATION_ERROR,
+        { signer: this.name, path: this.config.path }
+      );
+    }
+
+    registerSecret(wallet.privateKey, { pinned: true });
+    return new PrivateKeySigner(this.name, wallet.privateKey);
+  }
+
+  private async readKeystore(): Promise<string> {
+    try {
+      return await fs.readFile(this.config.path, 'utf-8');
+    } catch (error) {
+      throw new SafeError(
+        `Cannot read keystore for signer '${this.name}'`,
+        ErrorCodes.CONFIGURATION_ERROR,
+        {
+          signer: this.name,
+          path: this.config.path,
+          reason: error instanceof Error ? error.message : String(error),
+        }
+      );
+    }
+  }
+
+  private readPassphrase(): Promise<string> {
+    return readSecret(
+      { env: this.config.passphraseEnv, file: this.config.passphraseFile },
+      'passphrase',
+      this.name
+    );
+  }
+}
@@ -0,0 +1,109 @@
+import {
+  getIndexedAccountPath,
+  HDNodeWallet,
+  JsonRpcProvider,
+  Signer,
+  TypedDataDomain,
+  TypedDataField,
+} from 'ethers';
+import { SafeConnection, SafeSigner } from './types.js';
+import { PrivateKeySigner } from './PrivateKeySigner.js';
+import { readSecret } from './secrets.js';
+import { registerSecret } from '../utils/redact.js';
+import { MnemonicSignerConfig } from '../config/types.js';
+import { SafeError, ErrorCodes } from '../utils/SafeError.js';
+
+/**
+ * Signer deriving one account from a BIP-39 mnemonic
+ *
+ * The mnemonic is read from an environment variable or a file, never from
+ * tool arguments. The account is selected by `index` on the default
+ * Ethereum path (m/44'/60'/0'/0/<index>) or by an explicit `path`.
+ */
+export class MnemonicSigner implements SafeSigner {
+  readonly type = 'mnemonic';
+  readonly derivationPath: string;
+  private derived: Promise<PrivateKeySigner> | undefined;
+
+  constructor(
+    readonly name: string,
+    private config: MnemonicSignerConfig
+  ) {
+    this.derivationPath =
+      config.path ?? getIndexedAccountPath(config.index ?? 0);
+  }
+
+  async getAddress(): Promise<string> {
+    return (await this.derive()).getAddress();
+  }
+
+  async getSafeConnection(rpcUrl: string): Promise<SafeConnection> {
+    return (await this.derive()).getSafeConnection(rpcUrl);
+  }
+
+  async connect(provider: JsonRpcProvider): Promise<Signer> {
+    return (await this.derive()).connect(provider);
+  }
+
+  async signTypedData(
+    domain: TypedDataDomain,
+    types: Record<string, TypedDataField[]>,
+    value: Record<string, unknown>
+  ): Promise<string> {
+    return (await this.derive()).signTypedData(domain, types, value);
+  }
+
+  private derive(): Promise<PrivateKeySigner> {
+    if (!this.derived) {
+      this.derived = this.deriveAccount();
+      // Allow a retry after fixing the mnemonic source
+      this.derived.catch(() => {
+        this.derived = undefined;
+      });
+    }
+    return this.derived;
+  }
+
+  private async deriveAccount(): Promise<PrivateKeySigner> {
+    const mnemonic = await readSecret(
+      { env: this.config.mnemonicEnv, file: this.config.mnemonicFile },
+      'mnemonic',
+      this.name
+    );
+    const passphrase =
+      this.config.passphraseEnv !== undefined ||
+      this.config.passphraseFile !== undefined
+        ? await readSecret(
+            {
+              env: this.config.passphraseEnv,
+              file: this.config.passphraseFile,
+            },
+            'mnemonic passphrase',
+            this.name
+          )
+        : undefined;
+
+    let wallet;
+    try {
+      wallet = HDNodeWallet.fromPhrase(
+        mnemonic.trim().split(/\s+/).join(' '),
+        passphrase,
+        this.derivationPath
+      );
+    } catch (error) {
+      // The library error may quote the phrase; report only the reason code
+      throw new SafeError(
+        `Failed to derive account for signer '${this.name}'`,
+        ErrorCodes.CONFIGURATION_ERROR,
+        {
+          signer: this.name,
+          derivationPath: this.derivationPath,
+          reason: (error as { code?: string }).code ?? 'INVALID_MNEMONIC',
+        }
+      );
+    }
+
+    registerSecret(wallet.privateKey, { pinned: true });
+    return new PrivateKeySigner(this.name, wallet.privateKey);
+  }
+}
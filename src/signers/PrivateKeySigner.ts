@@ -0,0 +1,54 @@
+import {
+  JsonRpcProvider,
+  Signer,
+  TypedDataDomain,
+  TypedDataField,
+  Wallet,
+} from 'ethers';
+import { SafeConnection, SafeSigner } from './types.js';
+import { SafeError, ErrorCodes } from '../utils/SafeError.js';
+
+/**
+ * Signer backed by a raw private key
+ *
+ * Used for the legacy `privateKey` tool argument and as the unlocked form of
+ * file-based signers.
+ */
+export class PrivateKeySigner implements SafeSigner {
+  readonly type = 'privateKey';
+  private wallet: Wallet;
+
+  constructor(
+    readonly name: string,
+    privateKey: string
+  ) {
+    if (!/^0x[a-fA-F0-9]{64}$/.test(privateKey)) {
+      throw new SafeError(
+        'Invalid private key format',
+        ErrorCodes.VALIDATION_ERROR,
+        { signer: name, privateKeyLength: privateKey.length }
+      );
+    }
+    this.wallet = new Wallet(privateKey);
+  }
+
+  async getAddress(): Promise<string> {
+    return this.wallet.address;
+  }
+
+  async getSafeConnection(rpcUrl: string): Promise<SafeConnection> {
+    return { provider: rpcUrl, signer: this.wallet.privateKey };
+  }
+
+  async connect(provider: JsonRpcProvider): Promise<Signer> {
+    return this.wallet.connect(provider);
+  }
+
+  async signTypedData(
+    domain: TypedDataDomain,
+    types: Record<string, TypedDataField[]>,
+    value: Record<string, unknown>
+  ): Promise<string> {
+    return this.wallet.signTypedData(domain, types, value);
+  }
+}
@@ -0,0 +1,253 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import {
+  Eip1193Provider,
+  TypedDataEncoder,
+  Wallet,
+  verifyTypedData,
+} from 'ethers';
+import { RemoteSigner } from './RemoteSigner.js';
+import { RemoteSignerConfig } from '../config/types.js';
+import { ErrorCodes } from '../utils/SafeError.js';
+
+const wallet = new Wallet(
+  '0x4c0883a69102937d6231471b5dbb6204fe5129617082792ae468d01a3f362318'
+);
+
+const domain = {
+  chainId: 1,
+  verifyingContract: '0x1234567890123456789012345678901234567890',
+};
+const types = {
+  SafeTx: [
+    { name: 'to', type: 'address' },
+    { name: 'nonce', type: 'uint256' },
+  ],
+};
+const message = { to: wallet.address, nonce: 7 };
+
+interface JsonRpcRequest {
+  id: number;
+  method: string;
+  params: unknown[];
+}
+
+/**
+ * In-process JSON-RPC signing daemon: signs typed data with a local wallet,
+ * or answers with whatever a test scripts through respond
+ */
+class StandInSigner {
+  readonly requests: Array<{ request: JsonRpcRequest; auth?: string }> = [];
+  respond: (
+    request: JsonRpcRequest
+  ) => Promise<{ status?: number; body: unknown }> = (request) =>
+    this.sign(request);
+  private server = http.createServer((req, res) => this.handle(req, res));
+
+  async start(): Promise<string> {
+    await new Promise<void>((resolve) =>
+      this.server.listen(0, '127.0.0.1', resolve)
+    );
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server.listening) {
+      return;
+    }
+    this.server.closeAllConnections();
+    await new Promise((resolve) => this.server.close(resolve));
+  }
+
+  private async sign(
+    request: JsonRpcRequest
+  ): Promise<{ status?: number; body: unknown }> {
+    if (request.method !== 'eth_signTypedData_v4') {
+      return {
+        body: {
+          jsonrpc: '2.0',
+          id: request.id,
+          error: { code: -32601, message: 'method not supported' },
+        },
+      };
+    }
+
+    const payload = JSON.parse(request.params[1] as string);
+    delete payload.types.EIP712Domain;
+    return {
+      body: {
+        jsonrpc: '2.0',
+        id: request.id,
+        result: await wallet.signTypedData(
+          payload.domain,
+          payload.types,
+          payload.message
+        ),
+      },
+    };
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    let raw = '';
+    req.on('data', (chunk) => (raw += chunk));
+    req.on('end', async () => {
+      const request = JSON.parse(raw) as JsonRpcRequest;
+      this.requests.push({
+        request,
+        ...(req.headers.authorization
+          ? { auth: req.headers.authorization }
+          : {}),
+      });
+      const { status = 200, body } = await this.respond(request);
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      // Strings are sent as is, to stand in for broken daemons and proxies
+      res.end(typeof body === 'string' ? body : JSON.stringify(body));
+    });
+  }
+}
+
+describe('RemoteSigner', () => {
+  let standIn: StandInSigner;
+  let url: string;
+
+  const createSigner = (
+    config: Partial<RemoteSignerConfig> = {}
+  ): RemoteSigner =>
+    new RemoteSigner('vault', {
+      type: 'remote',
+      url,
+      address: wallet.address,
+      ...config,
+    });
+
+  beforeEach(async () => {
+    standIn = new StandInSigner();
+    url = await standIn.start();
+  });
+
+  afterEach(async () => {
+    await standIn.stop();
+    delete process.env.STAND_IN_SIGNER_TOKEN;
+  });
+
+  it('signs typed data through eth_signTypedData_v4', async () => {
+    const signature = await createSigner().signTypedData(
+      domain,
+      types,
+      message
+    );
+
+    expect(verifyTypedData(domain, types, message, signature)).toBe(
+      wallet.address
+    );
+    const [{ request }] = standIn.requests as [{ request: JsonRpcRequest }];
+    expect(request.method).toBe('eth_signTypedData_v4');
+    expect(request.params[0]).toBe(wallet.address);
+    expect(JSON.parse(request.params[1] as string)).toEqual(
+      JSON.parse(
+        JSON.stringify(TypedDataEncoder.getPayload(domain, types, message))
+      )
+    );
+  });
+
+  it('sends the configured bearer token', async () => {
+    process.env.STAND_IN_SIGNER_TOKEN = 'stand-in-token-1234';
+
+    await createSigner({ authTokenEnv: 'STAND_IN_SIGNER_TOKEN' }).signTypedData(
+      domain,
+      types,
+      message
+    );
+
+    expect(standIn.requests[0]?.auth).toBe('Bearer stand-in-token-1234');
+  });
+
+  it('routes signing requests to the daemon and answers account queries', async () => {
+    const { provider } =
+      await createSigner().getSafeConnection('http://127.0.0.1:1');
+    const eip1193 = provider as Eip1193Provider;
+
+    expect(await eip1193.request({ method: 'eth_accounts' })).toEqual([
+      wallet.address,
+    ]);
+    await expect(
+      eip1193.request({ method: 'personal_sign', params: ['0x00'] })
+    ).rejects.toMatchObject({ code: ErrorCodes.SIGNER_ERROR });
+    expect(standIn.requests.map(({ request }) => request.method)).toEqual([
+      'personal_sign',
+    ]);
+  });
+
+  it('reports JSON-RPC errors from the daemon', async () => {
+    standIn.respond = async (request) => ({
+      body: {
+        jsonrpc: '2.0',
+        id: request.id,
+        error: { code: -32000, message: 'request denied by operator' },
+      },
+    });
+
+    await expect(
+      createSigner().signTypedData(domain, types, message)
+    ).rejects.toMatchObject({
+      code: ErrorCodes.SIGNER_ERROR,
+      message: expect.stringContaining('request denied by operator'),
+      details: expect.objectContaining({ rpcErrorCode: -32000 }),
+    });
+  });
+
+  it('reports HTTP errors and missing signatures', async () => {
+    standIn.respond = async () => ({ status: 503, body: {} });
+    await expect(
+      createSigner().signTypedData(domain, types, message)
+    ).rejects.toMatchObject({
+      code: ErrorCodes.SIGNER_ERROR,
+      details: expect.objectContaining({ status: 503 }),
+    });
+
+    standIn.respond = async (request) => ({
+      body: { jsonrpc: '2.0', id: request.id, result: null },
+    });
+    await expect(
+      createSigner().signTypedData(domain, types, message)
+    ).rejects.toMatchObject({
+      code: ErrorCodes.SIGNER_ERROR,
+      message: expect.stringContaining('returned no signature'),
+    });
+  });
+
+  it('reports a response that is not JSON', async () => {
+    standIn.respond = async () => ({ body: '<html>Bad Gateway</html>' });
+
+    await expect(
+      createSigner().signTypedData(domain, types, message)
+    ).rejects.toMatchObject({
+      code: ErrorCodes.SIGNER_ERROR,
+      message: expect.stringContaining('not JSON'),
+      details: expect.objectContaining({ status: 200 }),
+    });
+  });
+
+  it('gives up when the daemon does not answer in time', async () => {
+    standIn.respond = () => new Promise(() => {});
+
+    await expect(
+      createSigner({ timeout: 100 }).signTypedData(domain, types, message)
+    ).rejects.toMatchObject({
+      code: ErrorCodes.SIGNER_ERROR,
+      message: expect.stringContaining('unreachable'),
+    });
+  });
+
+  it('reports an unreachable daemon', async () => {
+    await standIn.stop();
+
+    await expect(
+      createSigner().signTypedData(domain, types, message)
+    ).rejects.toMatchObject({
+      code: ErrorCodes.SIGNER_ERROR,
+      details: expect.objectContaining({ url }),
+    });
+  });
+});
@@ -0,0 +1,206 @@
+import {
+  BrowserProvider,
+  Eip1193Provider,
+  getAddress,
+  JsonRpcProvider,
+  Signer,
+  TypedDataDomain,
+  TypedDataEncoder,
+  TypedDataField,
+} from 'ethers';
+import { SafeConnection, SafeSigner } from './types.js';
+import { readSecret } from './secrets.js';
+import { RemoteSignerConfig } from '../config/types.js';
+import { SafeError, ErrorCodes } from '../utils/SafeError.js';
+
+/**
+ * JSON-RPC methods forwarded to the remote signer; everything else goes to
+ * the network RPC endpoint
+ */
+const SIGNING_METHODS = new Set([
+  'eth_sendTransaction',
+  'eth_signTransaction',
+  'eth_signTypedData_v4',
+  'eth_sign',
+  'personal_sign',
+]);
+
+/**
+ * Account discovery methods answered with the configured address
+ */
+const ACCOUNT_METHODS = new Set(['eth_accounts', 'eth_requestAccounts']);
+
+/**
+ * Signing may wait for an operator to approve the request
+ */
+const DEFAULT_TIMEOUT_MS = 120_000;
+
+/**
+ * Signer that forwards signing requests to an external JSON-RPC signing
+ * daemon (Clef, Web3Signer or compatible)
+ *
+ * Keys never enter this process: Safe transaction signatures are requested
+ * with eth_signTypedData_v4 and executor transactions with
+ * eth_sendTransaction, while reads and gas estimation use the network RPC.
+ */
+export class RemoteSigner implements SafeSigner {
+  readonly type = 'remote';
+  private address: string;
+
+  constructor(
+    readonly name: string,
+    private config: RemoteSignerConfig
+  ) {
+    try {
+      this.address = getAddress(config.address);
+    } catch {
+      throw new SafeError(
+        `Invalid address for remote signer '${name}'`,
+        ErrorCodes.CONFIGURATION_ERROR,
+        { signer: name, address: config.address }
+      );
+    }
+  }
+
+  async getAddress(): Promise<string> {
+    return this.address;
+  }
+
+  async getSafeConnection(rpcUrl: string): Promise<SafeConnection> {
+    return {
+      provider: new RemoteSigningProvider(
+        new JsonRpcProvider(rpcUrl),
+        this.address,
+        (method, params) => this.callSigner(method, params)
+      ),
+      signer: this.address,
+    };
+  }
+
+  async connect(provider: JsonRpcProvider): Promise<Signer> {
+    return new BrowserProvider(
+      new RemoteSigningProvider(provider, this.address, (method, params) =>
+        this.callSigner(method, params)
+      )
+    ).getSigner(this.address);
+  }
+
+  async signTypedData(
+    domain: TypedDataDomain,
+    types: Record<string, TypedDataField[]>,
+    value: Record<string, unknown>
+  ): Promise<string> {
+    const method = 'eth_signTypedData_v4';
+    const signature = await this.callSigner(method, [
+      this.address,
+      JSON.stringify(TypedDataEncoder.getPayload(domain, types, value)),
+    ]);
+    if (typeof signature !== 'string') {
+      throw new SafeError(
+        `Remote signer '${this.name}' returned no signature`,
+        ErrorCodes.SIGNER_ERROR,
+        { signer: this.name, method }
+      );
+    }
+    return signature;
+  }
+
+  /**
+   * Send a JSON-RPC request to the signing daemon
+   */
+  private async callSigner(
+    method: string,
+    params: unknown[]
+  ): Promise<unknown> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+    if (
+      this.config.authTokenEnv !== undefined ||
+      this.config.authTokenFile !== undefined
+    ) {
+      const token = await readSecret(
+        { env: this.config.authTokenEnv, file: this.config.authTokenFile },
+        'auth token',
+        this.name
+      );
+      headers.Authorization = `Bearer ${token}`;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(this.config.url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params }),
+        signal: AbortSignal.timeout(this.config.timeout ?? DEFAULT_TIMEOUT_MS),
+      });
+    } catch (error) {
+      throw new SafeError(
+        `Remote signer '${this.name}' is unreachable: ${error instanceof Error ? error.message : String(error)}`,
+        ErrorCodes.SIGNER_ERROR,
+        { signer: this.name, method, url: this.config.url }
+      );
+    }
+
+    if (!response.ok) {
+      throw new SafeError(
+        `Remote signer '${this.name}' returned HTTP ${response.status}`,
+        ErrorCodes.SIGNER_ERROR,
+        { signer: this.name, method, status: response.status }
+      );
+    }
+
+    let body: {
+      result?: unknown;
+      error?: { code?: number; message?: string };
+    };
+    try {
+      body = (await response.json()) as typeof body;
+    } catch {
+      throw new SafeError(
+        `Remote signer '${this.name}' returned a response that is not JSON`,
+        ErrorCodes.SIGNER_ERROR,
+        { signer: this.name, method, status: response.status }
+      );
+    }
+    if (body.error) {
+      throw new SafeError(
+        `Remote signer '${this.name}' rejected ${method}: ${body.error.message ?? 'unknown error'}`,
+        ErrorCodes.SIGNER_ERROR,
+        { signer: this.name, method, rpcErrorCode: body.error.code }
+      );
+    }
+
+    return body.result;
+  }
+}
+
+/**
+ * EIP-1193 provider that splits requests between the network RPC and the
+ * remote signer
+ */
+class RemoteSigningProvider implements Eip1193Provider {
+  constructor(
+    private network: JsonRpcProvider,
+    private address: string,
+    private callSigner: (method: string, params: unknown[]) => Promise<unknown>
+  ) {}
+
+  async request(request: {
+    method: string;
+    params?: Array<any> | Record<string, any>;
+  }): Promise<any> {
+    const params = Array.isArray(request.params) ? request.params : [];
+
+    if (ACCOUNT_METHODS.has(request.method)) {
+      return [this.address];
+    }
+
+    if (SIGNING_METHODS.has(request.method)) {
+      return this.callSigner(request.method, params);
+    }
+
+    return this.network.send(request.method, params);
+  }
+}
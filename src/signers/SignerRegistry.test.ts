@@ -0,0 +1,133 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { Wallet, encryptKeystoreJson, verifyTypedData } from 'ethers';
+import { SignerRegistry } from './SignerRegistry.js';
+import { ErrorCodes } from '../utils/SafeError.js';
+
+const MNEMONIC = 'test test test test test test test test test test test junk';
+const PRIVATE_KEY =
+  '0x4c0883a69102937d6231471b5dbb6204fe5129617082792ae468d01a3f362318';
+
+const domain = {
+  chainId: 1,
+  verifyingContract: '0x1234567890123456789012345678901234567890',
+};
+const types = { SafeTx: [{ name: 'nonce', type: 'uint256' }] };
+const message = { nonce: 1 };
+
+describe('SignerRegistry', () => {
+  const savedEnv = { ...process.env };
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'signer-registry-'));
+  });
+
+  afterEach(async () => {
+    process.env = { ...savedEnv };
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('derives mnemonic accounts by index and by path', async () => {
+    process.env.TEST_SIGNER_MNEMONIC = MNEMONIC;
+    const registry = new SignerRegistry({
+      first: { type: 'mnemonic', mnemonicEnv: 'TEST_SIGNER_MNEMONIC' },
+      second: {
+        type: 'mnemonic',
+        mnemonicEnv: 'TEST_SIGNER_MNEMONIC',
+        index: 1,
+      },
+      custom: {
+        type: 'mnemonic',
+        mnemonicEnv: 'TEST_SIGNER_MNEMONIC',
+        path: "m/44'/60'/0'/0/1",
+      },
+    });
+
+    expect(await registry.listSigners()).toEqual([
+      {
+        name: 'first',
+        type: 'mnemonic',
+        derivationPath: "m/44'/60'/0'/0/0",
+        address: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+      },
+      {
+        name: 'second',
+        type: 'mnemonic',
+        derivationPath: "m/44'/60'/0'/0/1",
+        address: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+      },
+      {
+        name: 'custom',
+        type: 'mnemonic',
+        derivationPath: "m/44'/60'/0'/0/1",
+        address: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+      },
+    ]);
+  });
+
+  it('reports an invalid mnemonic without quoting it', async () => {
+    process.env.TEST_SIGNER_MNEMONIC = 'not a valid phrase at all';
+    const registry = new SignerRegistry({
+      broken: { type: 'mnemonic', mnemonicEnv: 'TEST_SIGNER_MNEMONIC' },
+    });
+
+    const error = await registry
+      .getSigner('broken')
+      .getAddress()
+      .catch((caught: unknown) => caught);
+
+    expect(error).toMatchObject({ code: ErrorCodes.CONFIGURATION_ERROR });
+    expect(JSON.stringify(error)).not.toContain('valid phrase');
+  });
+
+  it('unlocks a keystore with its passphrase file and signs', async () => {
+    const wallet = new Wallet(PRIVATE_KEY);
+    const keystorePath = path.join(dir, 'keystore.json');
+    const passphrasePath = path.join(dir, 'passphrase');
+    await fs.writeFile(
+      keystorePath,
+      await encryptKeystoreJson(wallet, 'correct horse', {
+        scrypt: { N: 1 << 4 },
+      })
+    );
+    await fs.writeFile(passphrasePath, 'correct horse\n');
+    const registry = new SignerRegistry({
+      ops: {
+        type: 'keystore',
+        path: keystorePath,
+        passphraseFile: passphrasePath,
+      },
+    });
+    const signer = registry.getSigner('ops');
+
+    expect(await signer.getAddress()).toBe(wallet.address);
+    const signature = await signer.signTypedData(domain, types, message);
+    expect(verifyTypedData(domain, types, message, signature)).toBe(
+      wallet.address
+    );
+  });
+
+  it('refuses a keystore with the wrong passphrase', async () => {
+    const keystorePath = path.join(dir, 'keystore.json');
+    await fs.writeFile(
+      keystorePath,
+      await encryptKeystoreJson(new Wallet(PRIVATE_KEY), 'correct horse', {
+        scrypt: { N: 1 << 4 },
+      })
+    );
+    process.env.TEST_SIGNER_PASSPHRASE = 'wrong horse';
+    const registry = new SignerRegistry({
+      ops: {
+        type: 'keystore',
+        path: keystorePath,
+        passphraseEnv: 'TEST_SIGNER_PASSPHRASE',
+      },
+    });
+
+    await expect(
+      registry.getSigner('ops').signTypedData(domain, types, message)
+    ).rejects.toMatchObject({ code: ErrorCodes.CONFIGURATION_ERROR });
+  });
+});
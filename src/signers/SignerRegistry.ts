@@ -0,0 +1,149 @@
+import { SafeSigner } from './types.js';
+import { PrivateKeySigner } from './PrivateKeySigner.js';
+import { KeystoreSigner } from './KeystoreSigner.js';
+import { MnemonicSigner } from './MnemonicSigner.js';
+import { RemoteSigner } from './RemoteSigner.js';
+import { SignerConfig } from '../config/types.js';
+import { SafeError, ErrorCodes } from '../utils/SafeError.js';
+
+/**
+ * Name reported for signers created from a raw `privateKey` argument
+ */
+const INLINE_SIGNER_NAME = 'inline';
+
+/**
+ * Public description of a configured signer
+ */
+export interface SignerInfo {
+  name: string;
+  type: string;
+  address?: string | undefined;
+  derivationPath?: string | undefined;
+  /** Why the address could not be determined (e.g. missing secret) */
+  error?: string | undefined;
+}
+
+/**
+ * Named signers available to write tools
+ *
+ * Tools select a configured signer with the `signer` argument. The raw
+ * `privateKey` argument is still accepted for backwards compatibility.
+ */
+export class SignerRegistry {
+  private signers: Map<string, SafeSigner> = new Map();
+  private configs: Record<string, SignerConfig> = {};
+
+  constructor(configs: Record<string, SignerConfig> = {}) {
+    this.update(configs);
+  }
+
+  /**
+   * Apply a (re)loaded signer configuration; signers whose configuration is
+   * unchanged are kept so unlocked keystores stay unlocked
+   */
+  update(configs: Record<string, SignerConfig> = {}): void {
+    const signers: Map<string, SafeSigner> = new Map();
+    for (const [name, config] of Object.entries(configs)) {
+      const existing = this.signers.get(name);
+      signers.set(
+        name,
+        existing &&
+          JSON.stringify(this.configs[name]) === JSON.stringify(config)
+          ? existing
+          : createSigner(name, config)
+      );
+    }
+    this.signers = signers;
+    this.configs = configs;
+  }
+
+  /**
+   * Get the names of all configured signers
+   */
+  getSignerNames(): string[] {
+    return Array.from(this.signers.keys());
+  }
+
+  /**
+   * Describe every configured signer with its address
+   */
+  async listSigners(): Promise<SignerInfo[]> {
+    return Promise.all(
+      Array.from(this.signers.values()).map(async (signer) => {
+        const info: SignerInfo = { name: signer.name, type: signer.type };
+        if (signer instanceof MnemonicSigner) {
+          info.derivationPath = signer.derivationPath;
+        }
+        try {
+          info.address = await signer.getAddress();
+        } catch (error) {
+          info.error = error instanceof Error ? error.message : String(error);
+        }
+        return info;
+      })
+    );
+  }
+
+  /**
+   * Get a configured signer by name
+   */
+  getSigner(name: string): SafeSigner {
+    const signer = this.signers.get(name);
+    if (!signer) {
+      throw new SafeError(
+        `Signer '${name}' is not configured`,
+        ErrorCodes.VALIDATION_ERROR,
+        { signer: name, availableSigners: this.getSignerNames() }
+      );
+    }
+    return signer;
+  }
+
+  /**
+   * Resolve the signer for a tool call from its `signer` or `privateKey`
+   * argument
+   */
+  resolve(args: { signer?: unknown; privateKey?: unknown }): SafeSigner {
+    if (args.signer !== undefined && args.privateKey !== undefined) {
+      throw new SafeError(
+        'Provide either signer or privateKey, not both',
+        ErrorCodes.VALIDATION_ERROR,
+        { signer: args.signer }
+      );
+    }
+
+    if (typeof args.signer === 'string' && args.signer !== '') {
+      return this.getSigner(args.signer);
+    }
+
+    if (typeof args.privateKey === 'string' && args.privateKey !== '') {
+      return new PrivateKeySigner(INLINE_SIGNER_NAME, args.privateKey);
+    }
+
+    throw new SafeError(
+      'A signer is required: pass the name of a configured signer',
+      ErrorCodes.VALIDATION_ERROR,
+      { field: 'signer', availableSigners: this.getSignerNames() }
+    );
+  }
+}
+
+/**
+ * Create a signer from its configuration
+ */
+function createSigner(name: string, config: SignerConfig): SafeSigner {
+  switch (config.type) {
+    case 'keystore':
+      return new KeystoreSigner(name, config);
+    case 'mnemonic':
+      return new MnemonicSigner(name, config);
+    case 'remote':
+      return new RemoteSigner(name, config);
+    default:
+      throw new SafeError(
+        `Unsupported signer type for '${name}'`,
+        ErrorCodes.CONFIGURATION_ERROR,
+        { signer: name, type: (config as { type?: unknown }).type }
+      );
+  }
+}
@@ -0,0 +1,66 @@
+import * as fs from 'fs/promises';
+import { SafeError, ErrorCodes } from '../utils/SafeError.js';
+import { registerSecret } from '../utils/redact.js';
+
+/**
+ * Where a signer secret (passphrase, mnemonic) is read from
+ */
+export interface SecretSource {
+  /** Name of an environment variable holding the secret */
+  env?: string | undefined;
+  /** Path of a file holding the secret */
+  file?: string | undefined;
+}
+
+/**
+ * Read a signer secret from an environment variable or a file
+ *
+ * `label` names the secret in error messages, e.g. "passphrase". The value
+ * is registered for redaction for the life of the process.
+ */
+export async function readSecret(
+  source: SecretSource,
+  label: string,
+  signerName: string
+): Promise<string> {
+  if (source.env !== undefined) {
+    const value = process.env[source.env];
+    if (value === undefined) {
+      throw new SafeError(
+        `Variable ${source.env} with the ${label} for signer '${signerName}' is not set`,
+        ErrorCodes.CONFIGURATION_ERROR,
+        { signer: signerName, variable: source.env }
+      );
+    }
+    registerSecret(value, { pinned: true });
+    return value;
+  }
+
+  if (source.file !== undefined) {
+    try {
+      // Ignore the trailing newline most editors add
+      const value = (await fs.readFile(source.file, 'utf-8')).replace(
+        /\r?\n$/,
+        ''
+      );
+      registerSecret(value, { pinned: true });
+      return value;
+    } catch (error) {
+      throw new SafeError(
+        `Cannot read ${label} file for signer '${signerName}'`,
+        ErrorCodes.CONFIGURATION_ERROR,
+        {
+          signer: signerName,
+          file: source.file,
+          reason: error instanceof Error ? error.message : String(error),
+        }
+      );
+    }
+  }
+
+  throw new SafeError(
+    `No ${label} source configured for signer '${signerName}'`,
+    ErrorCodes.CONFIGURATION_ERROR,
+    { signer: signerName }
+  );
+}
@@ -0,0 +1,53 @@
+import {
+  Eip1193Provider,
+  JsonRpcProvider,
+  Signer,
+  TypedDataDomain,
+  TypedDataField,
+} from 'ethers';
+
+/**
+ * Provider and signer arguments handed to the Safe protocol kit
+ */
+export interface SafeConnection {
+  /** RPC URL or an EIP-1193 provider that handles signing requests */
+  provider: Eip1193Provider | string;
+  /** Private key, or the signer address when the provider signs */
+  signer: string;
+}
+
+/**
+ * A named source of transaction signatures
+ */
+export interface SafeSigner {
+  /** Name used to select the signer in tool arguments */
+  readonly name: string;
+  /** Backend kind, e.g. keystore or mnemonic */
+  readonly type: string;
+
+  /**
+   * Address of the signing account
+   */
+  getAddress(): Promise<string>;
+
+  /**
+   * Build the protocol kit connection for a network RPC URL
+   */
+  getSafeConnection(rpcUrl: string): Promise<SafeConnection>;
+
+  /**
+   * An ethers signer that sends plain transactions (e.g. contract
+   * deployments) through the network provider
+   */
+  connect(provider: JsonRpcProvider): Promise<Signer>;
+
+  /**
+   * Sign EIP-712 typed data, e.g. a Safe transaction, without sending
+   * anything
+   */
+  signTypedData(
+    domain: TypedDataDomain,
+    types: Record<string, TypedDataField[]>,
+    value: Record<string, unknown>
+  ): Promise<string>;
+}
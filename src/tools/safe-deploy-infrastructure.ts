@@ -5,30 +5,127 @@ import {
   InfrastructureDeploymentResult,
   ContractDeployment,
 } from '../types/index.js';
-import { SafeError } from '../utils/SafeError.js';
+import { SafeError, ErrorCodes } from '../utils/SafeError.js';
+import {
+  abortable,
+  cancelledError,
+  throwIfCancelled,
+  waitForReceipt,
+} from '../utils/cancellation.js';
 import { NetworkManager } from '../network/NetworkManager.js';
+import { SignerRegistry } from '../signers/SignerRegistry.js';
+import { SafeSigner } from '../signers/types.js';
+import {
+  NO_TOOL_CALL_CONTEXT,
+  ToolCallContext,
+} from '../mcp/tools/ToolCallContext.js';
+import { DryRunSchema, withDryRun } from '../mcp/tools/schemas.js';
+import {
+  SimulationResult,
+  simulateTransaction,
+} from '../blockchain/TransactionSimulator.js';
 import { readFileSync } from 'fs';
 import { join } from 'path';
 
+/**
+ * Canonical Safe Singleton Factory address
+ */
+const SINGLETON_FACTORY_ADDRESS = '0xce0042B868300000d44A59004Da54A005ffdcf9f';
+
+const SINGLETON_FACTORY = new ethers.Interface([
+  'function deploy(bytes memory _initCode, bytes32 _salt) public returns (address)',
+]);
+
 const SafeDeployInfrastructureSchema = z.object({
   network: z
     .string()
     .describe('Target network (CAIP-2 format, e.g., eip155:1)'),
+  signer: z
+    .string()
+    .optional()
+    .describe('Name of the configured signer that pays for the deployment'),
   deployerPrivateKey: z
     .string()
-    .describe('Private key of the deployer account'),
+    .optional()
+    .describe(
+      'Deprecated: raw private key of the deployer account; use signer instead'
+    ),
   gasPrice: z.string().optional().describe('Gas price in gwei (optional)'),
   confirmations: z
     .number()
     .optional()
     .default(1)
     .describe('Number of confirmations to wait for'),
+  dryRun: DryRunSchema,
 });
 
 export type SafeDeployInfrastructureInput = z.infer<
   typeof SafeDeployInfrastructureSchema
 >;
 
+const SafeDeployInfrastructureOutputSchema = z.object({
+  success: z.boolean(),
+  networkId: z.string(),
+  chainId: z.number().int(),
+  deployerAddress: z.string(),
+  deployment: z.object({
+    networkId: z.string(),
+    chainId: z.number().int(),
+    contracts: z.object({
+      singletonFactory: z.string(),
+      safeSingleton: z.string(),
+      safeProxyFactory: z.string(),
+      fallbackHandler: z.string(),
+      multiSend: z.string(),
+    }),
+    deployments: z.array(
+      z.object({
+        name: z.string(),
+        address: z.string(),
+        txHash: z.string(),
+        gasUsed: z.number(),
+      })
+    ),
+    totalGasUsed: z.number(),
+  }),
+  gasUsed: z.number(),
+  message: z.string(),
+});
+
+const SafeDeployInfrastructureDryRunSchema = z.object({
+  dryRun: z.literal(true),
+  success: z
+    .boolean()
+    .describe('Whether every contract that is missing is expected to deploy'),
+  networkId: z.string(),
+  chainId: z.number().int(),
+  deployerAddress: z.string(),
+  steps: z.array(
+    z.object({
+      name: z.string(),
+      address: z.string(),
+      status: z.enum(['already-deployed', 'would-deploy', 'skipped']),
+      to: z
+        .string()
+        .optional()
+        .describe('Absent for the contract creation of the factory'),
+      data: z.string().optional().describe('Calldata of the transaction'),
+      success: z.boolean().optional(),
+      gasEstimate: z.string().optional(),
+      revertReason: z.string().optional(),
+    })
+  ),
+  totalGasEstimate: z.string(),
+  policyViolations: z
+    .array(z.object({ rule: z.string(), message: z.string() }))
+    .optional()
+    .describe('Policy rules the deployment would break'),
+});
+
+export type InfrastructureDryRunResult = z.infer<
+  typeof SafeDeployInfrastructureDryRunSchema
+>;
+
 /**
  * Deploy Safe infrastructure to a new blockchain network using real Safe contracts
  * This tool deploys the complete Safe contract ecosystem including:
@@ -43,50 +140,59 @@ export const safeDeployInfrastructure = {
   description:
     'Deploy complete Safe infrastructure to a new blockchain network using real Safe contracts',
   inputSchema: SafeDeployInfrastructureSchema,
+  outputSchema: withDryRun(
+    SafeDeployInfrastructureOutputSchema,
+    SafeDeployInfrastructureDryRunSchema
+  ),
 
   async handle(
     input: SafeDeployInfrastructureInput,
-    networkManager: NetworkManager
+    networkManager: NetworkManager,
+    signerRegistry: SignerRegistry,
+    context: ToolCallContext = NO_TOOL_CALL_CONTEXT
   ): Promise<InfrastructureDeploymentResult> {
-    const { network, deployerPrivateKey, gasPrice, confirmations } = input;
+    const { network, gasPrice, confirmations } = input;
+    const signer = resolveDeployer(input, signerRegistry);
 
     try {
       // Get network provider
       const provider = await networkManager.getProvider(network);
       const networkInfo = await provider.getNetwork();
 
-      // Create deployer wallet
-      const deployer = new ethers.Wallet(deployerPrivateKey, provider);
+      // Connect the deployer's signer to the network
+      const deployer = await signer.connect(provider);
+      const deployerAddress = await deployer.getAddress();
 
       // Check deployer balance
-      const balance = await provider.getBalance(deployer.address);
+      const balance = await provider.getBalance(deployerAddress);
       if (balance === 0n) {
         throw new SafeError(
           'Deployer account has no balance',
           'INSUFFICIENT_BALANCE',
-          { deployer: deployer.address, balance: ethers.formatEther(balance) }
+          { deployer: deployerAddress, balance: ethers.formatEther(balance) }
         );
       }
 
-      console.log(
+      console.error(
         `Deploying Safe infrastructure to ${network} (Chain ID: ${networkInfo.chainId})`
       );
-      console.log(
-        `Deployer: ${deployer.address} (Balance: ${ethers.formatEther(balance)} ETH)`
+      console.error(
+        `Deployer: ${deployerAddress} (Balance: ${ethers.formatEther(balance)} ETH)`
       );
 
       const deployment = await deploySafeInfrastructure(
         provider,
         deployer,
         gasPrice,
-        confirmations
+        confirmations,
+        context
       );
 
       return {
         success: true,
         networkId: network,
         chainId: Number(networkInfo.chainId),
-        deployerAddress: deployer.address,
+        deployerAddress,
         deployment,
         gasUsed: deployment.totalGasUsed,
         message: 'Safe infrastructure deployed successfully to new network',
@@ -103,16 +209,96 @@ export const safeDeployInfrastructure = {
       );
     }
   },
+
+  /**
+   * Build every deployment transaction and simulate the ones still needed,
+   * without sending anything
+   */
+  async simulate(
+    input: SafeDeployInfrastructureInput,
+    networkManager: NetworkManager,
+    signerRegistry: SignerRegistry,
+    context: ToolCallContext = NO_TOOL_CALL_CONTEXT
+  ): Promise<InfrastructureDryRunResult> {
+    const { network } = input;
+    const signer = resolveDeployer(input, signerRegistry);
+
+    try {
+      const provider = await networkManager.getProvider(network);
+      const networkInfo = await provider.getNetwork();
+      const deployerAddress = await signer.getAddress();
+
+      const steps = await simulateSafeInfrastructure(
+        provider,
+        deployerAddress,
+        context
+      );
+
+      return {
+        dryRun: true,
+        success: steps.every((step) => step.success !== false),
+        networkId: network,
+        chainId: Number(networkInfo.chainId),
+        deployerAddress,
+        steps,
+        totalGasEstimate: steps
+          .reduce((sum, step) => sum + BigInt(step.gasEstimate ?? 0), 0n)
+          .toString(),
+      };
+    } catch (error) {
+      if (error instanceof SafeError) {
+        throw error;
+      }
+
+      throw new SafeError(
+        `Failed to simulate the Safe infrastructure deployment: ${error instanceof Error ? error.message : String(error)}`,
+        'DEPLOYMENT_FAILED',
+        { network, error: error instanceof Error ? error.stack : String(error) }
+      );
+    }
+  },
 };
 
+/**
+ * Resolve the deployer from the signer argument, falling back to the
+ * deprecated deployerPrivateKey
+ */
+function resolveDeployer(
+  input: SafeDeployInfrastructureInput,
+  signerRegistry: SignerRegistry
+): SafeSigner {
+  return signerRegistry.resolve({
+    signer: input.signer,
+    privateKey: input.deployerPrivateKey,
+  });
+}
+
+/**
+ * Number of contracts deployed by deploySafeInfrastructure
+ */
+const DEPLOYMENT_STEPS = 5;
+
+/**
+ * Cancellation and progress hooks for the transaction of one deployment step
+ */
+interface DeploymentStepContext {
+  signal: AbortSignal;
+  onSubmitted(txHash: string): Promise<void>;
+}
+
 /**
  * Deploy Safe infrastructure contracts using real Safe bytecode
+ *
+ * Each step reports progress three times, when it starts, when its
+ * transaction is submitted and when it is confirmed, so progress runs from
+ * 0 to three times the step count.
  */
 async function deploySafeInfrastructure(
   provider: ethers.JsonRpcProvider,
-  deployer: ethers.Wallet,
+  deployer: ethers.Signer,
   gasPrice?: string,
-  confirmations: number = 1
+  confirmations: number = 1,
+  context: ToolCallContext = NO_TOOL_CALL_CONTEXT
 ) {
   const deployments: ContractDeployment[] = [];
   let totalGasUsed = 0;
@@ -121,64 +307,131 @@ async function deploySafeInfrastructure(
     ? { gasPrice: ethers.parseUnits(gasPrice, 'gwei') }
     : {};
 
+  const total = DEPLOYMENT_STEPS * 3;
+  const runStep = async (
+    step: number,
+    name: string,
+    deploy: (stepContext: DeploymentStepContext) => Promise<ContractDeployment>
+  ): Promise<ContractDeployment> => {
+    const label = `Step ${step} of ${DEPLOYMENT_STEPS}`;
+    await context.reportProgress(
+      step * 3 - 2,
+      total,
+      `${label}: Deploying ${name}`
+    );
+
+    let result: ContractDeployment;
+    try {
+      throwIfCancelled(context.signal);
+      result = await deploy({
+        signal: context.signal,
+        onSubmitted: (txHash) =>
+          context.reportProgress(
+            step * 3 - 1,
+            total,
+            `${label}: ${name} transaction submitted (${txHash})`
+          ),
+      });
+    } catch (error) {
+      // Report what is already on chain along with the cancelled step
+      if (error instanceof SafeError && error.code === ErrorCodes.CANCELLED) {
+        throw cancelledError({
+          ...error.details,
+          step: name,
+          completedDeployments: deployments,
+        });
+      }
+      throw error;
+    }
+    await context.reportProgress(
+      step * 3,
+      total,
+      result.txHash === 'already-deployed'
+        ? `${label}: ${name} already deployed at ${result.address}`
+        : `${label}: ${name} deployed at ${result.address} (${confirmations} confirmation(s) received)`
+    );
+
+    deployments.push(result);
+    totalGasUsed += result.gasUsed;
+    return result;
+  };
+
+  await context.reportProgress(
+    0,
+    total,
+    `Deploying ${DEPLOYMENT_STEPS} Safe infrastructure contracts`
+  );
+
   // Step 1: Deploy Safe Singleton Factory
-  console.log('Step 1: Deploying Safe Singleton Factory...');
-  const singletonFactoryResult = await deploySingletonFactory(
-    provider,
-    deployer,
-    gasOptions,
-    confirmations
+  const singletonFactoryResult = await runStep(
+    1,
+    'Safe Singleton Factory',
+    (stepContext) =>
+      deploySingletonFactory(
+        provider,
+        deployer,
+        gasOptions,
+        confirmations,
+        stepContext
+      )
   );
-  deployments.push(singletonFactoryResult);
-  totalGasUsed += singletonFactoryResult.gasUsed;
 
   // Step 2: Deploy Safe Singleton
-  console.log('Step 2: Deploying Safe Singleton...');
-  const safeSingletonResult = await deploySafeSingleton(
-    provider,
-    deployer,
-    singletonFactoryResult.address,
-    gasOptions,
-    confirmations
+  const safeSingletonResult = await runStep(
+    2,
+    'Safe Singleton',
+    (stepContext) =>
+      deploySafeSingleton(
+        provider,
+        deployer,
+        singletonFactoryResult.address,
+        gasOptions,
+        confirmations,
+        stepContext
+      )
   );
-  deployments.push(safeSingletonResult);
-  totalGasUsed += safeSingletonResult.gasUsed;
 
   // Step 3: Deploy Safe Proxy Factory
-  console.log('Step 3: Deploying Safe Proxy Factory...');
-  const proxyFactoryResult = await deploySafeProxyFactory(
-    provider,
-    deployer,
-    singletonFactoryResult.address,
-    gasOptions,
-    confirmations
+  const proxyFactoryResult = await runStep(
+    3,
+    'Safe Proxy Factory',
+    (stepContext) =>
+      deploySafeProxyFactory(
+        provider,
+        deployer,
+        singletonFactoryResult.address,
+        gasOptions,
+        confirmations,
+        stepContext
+      )
   );
-  deployments.push(proxyFactoryResult);
-  totalGasUsed += proxyFactoryResult.gasUsed;
 
   // Step 4: Deploy Fallback Handler
-  console.log('Step 4: Deploying Fallback Handler...');
-  const fallbackHandlerResult = await deployFallbackHandler(
-    provider,
-    deployer,
-    singletonFactoryResult.address,
-    gasOptions,
-    confirmations
+  const fallbackHandlerResult = await runStep(
+    4,
+    'Fallback Handler',
+    (stepContext) =>
+      deployFallbackHandler(
+        provider,
+        deployer,
+        singletonFactoryResult.address,
+        gasOptions,
+        confirmations,
+        stepContext
+      )
   );
-  deployments.push(fallbackHandlerResult);
-  totalGasUsed += fallbackHandlerResult.gasUsed;
 
   // Step 5: Deploy MultiSend
-  console.log('Step 5: Deploying MultiSend...');
-  const multiSendResult = await deployMultiSend(
-    provider,
-    deployer,
-    singletonFactoryResult.address,
-    gasOptions,
-    confirmations
+  const multiSendResult = await runStep(5, 'MultiSend', (stepContext) =>
+    deployMultiSend(
+      provider,
+      deployer,
+      singletonFactoryResult.address,
+      gasOptions,
+      confirmations,
+      stepContext
+    )
   );
-  deployments.push(multiSendResult);
-  totalGasUsed += multiSendResult.gasUsed;
 
   const networkInfo = await provider.getNetwork();
 
@@ -197,22 +450,123 @@ async function deploySafeInfrastructure(
   };
 }
 
+/**
+ * Simulate each deployment step from the deployer's account. Contracts
+ * deployed through the factory are skipped while the factory itself is
+ * missing, since their calls can only be simulated once it exists.
+ */
+async function simulateSafeInfrastructure(
+  provider: ethers.JsonRpcProvider,
+  deployerAddress: string,
+  context: ToolCallContext
+): Promise<InfrastructureDryRunResult['steps']> {
+  const isDeployed = async (address: string): Promise<boolean> =>
+    (await abortable(provider.getCode(address), context.signal)) !== '0x';
+
+  const factoryDeployed = await isDeployed(SINGLETON_FACTORY_ADDRESS);
+  const factoryData = getSingletonFactoryBytecode();
+  const steps: InfrastructureDryRunResult['steps'] = [
+    factoryDeployed
+      ? {
+          name: 'Safe Singleton Factory',
+          address: SINGLETON_FACTORY_ADDRESS,
+          status: 'already-deployed',
+        }
+      : {
+          name: 'Safe Singleton Factory',
+          address: SINGLETON_FACTORY_ADDRESS,
+          status: 'would-deploy',
+          data: factoryData,
+          ...withoutReturnData(
+            await abortable(
+              simulateTransaction(provider, {
+                from: deployerAddress,
+                data: factoryData,
+              }),
+              context.signal
+            )
+          ),
+        },
+  ];
+
+  const contracts: Array<[string, () => string]> = [
+    ['Safe Singleton', getSafeSingletonBytecode],
+    ['Safe Proxy Factory', getSafeProxyFactoryBytecode],
+    ['Fallback Handler', getFallbackHandlerBytecode],
+    ['MultiSend', getMultiSendBytecode],
+  ];
+  for (const [name, getBytecode] of contracts) {
+    const bytecode = getBytecode();
+    const address = ethers.getCreate2Address(
+      SINGLETON_FACTORY_ADDRESS,
+      ethers.ZeroHash,
+      ethers.keccak256(bytecode)
+    );
+    const data = SINGLETON_FACTORY.encodeFunctionData('deploy', [
+      bytecode,
+      ethers.ZeroHash,
+    ]);
+
+    if (!factoryDeployed) {
+      steps.push({
+        name,
+        address,
+        status: 'skipped',
+        to: SINGLETON_FACTORY_ADDRESS,
+        data,
+        revertReason:
+          'Not simulated: deployed through the Safe Singleton Factory, which does not exist yet',
+      });
+    } else if (await isDeployed(address)) {
+      steps.push({ name, address, status: 'already-deployed' });
+    } else {
+      const request = {
+        from: deployerAddress,
+        to: SINGLETON_FACTORY_ADDRESS,
+        data,
+      };
+      steps.push({
+        name,
+        address,
+        status: 'would-deploy',
+        to: SINGLETON_FACTORY_ADDRESS,
+        data,
+        ...withoutReturnData(
+          await abortable(
+            simulateTransaction(provider, request),
+            context.signal
+          )
+        ),
+      });
+    }
+  }
+
+  return steps;
+}
+
+function withoutReturnData({
+  returnData: _returnData,
+  ...result
+}: SimulationResult): Omit<SimulationResult, 'returnData'> {
+  return result;
+}
+
 /**
  * Deploy Safe Singleton Factory (canonical address)
  */
 async function deploySingletonFactory(
   provider: ethers.JsonRpcProvider,
-  deployer: ethers.Wallet,
+  deployer: ethers.Signer,
   gasOptions: any,
-  confirmations: number
+  confirmations: number,
+  step: DeploymentStepContext
 ): Promise<ContractDeployment> {
-  // Canonical Safe Singleton Factory address
-  const singletonFactoryAddress = '0xce0042B868300000d44A59004Da54A005ffdcf9f';
+  const singletonFactoryAddress = SINGLETON_FACTORY_ADDRESS;
 
   // Check if already deployed
   const code = await provider.getCode(singletonFactoryAddress);
   if (code !== '0x') {
-    console.log(
+    console.error(
       'Safe Singleton Factory already deployed at:',
       singletonFactoryAddress
     );
@@ -232,7 +586,17 @@ async function deploySingletonFactory(
     gasLimit: 500000, // Increased gas limit for factory deployment
   });
 
-  const receipt = await deployTx.wait(confirmations);
+  await step.onSubmitted(deployTx.hash);
+
+  const receipt = await waitForReceipt(
+    provider,
+
+    deployTx.hash,
+
+    confirmations,
+
+    step.signal
+  );
 
   return {
     name: 'Safe Singleton Factory',
@@ -247,10 +611,11 @@ async function deploySingletonFactory(
  */
 async function deploySafeSingleton(
   provider: ethers.JsonRpcProvider,
-  deployer: ethers.Wallet,
+  deployer: ethers.Signer,
   singletonFactoryAddress: string,
   gasOptions: any,
-  confirmations: number
+  confirmations: number,
+  step: DeploymentStepContext
 ): Promise<ContractDeployment> {
   const factory = new ethers.Contract(
     singletonFactoryAddress,
@@ -265,7 +630,13 @@ async function deploySafeSingleton(
 
   const deployFn = factory.deploy as any;
   const tx = await deployFn(bytecode, salt, gasOptions);
-  const receipt = await tx.wait(confirmations);
+  await step.onSubmitted(tx.hash);
+  const receipt = await waitForReceipt(
+    provider,
+    tx.hash,
+    confirmations,
+    step.signal
+  );
 
   const address = ethers.getCreate2Address(
     singletonFactoryAddress,
@@ -273,7 +644,7 @@ async function deploySafeSingleton(
     ethers.keccak256(bytecode)
   );
 
-  console.log('Safe Singleton deployed at:', address);
+  console.error('Safe Singleton deployed at:', address);
 
   return {
     name: 'Safe Singleton',
@@ -288,10 +659,11 @@ async function deploySafeSingleton(
  */
 async function deploySafeProxyFactory(
   provider: ethers.JsonRpcProvider,
-  deployer: ethers.Wallet,
+  deployer: ethers.Signer,
   singletonFactoryAddress: string,
   gasOptions: any,
-  confirmations: number
+  confirmations: number,
+  step: DeploymentStepContext
 ): Promise<ContractDeployment> {
   const factory = new ethers.Contract(
     singletonFactoryAddress,
@@ -306,7 +678,13 @@ async function deploySafeProxyFactory(
 
   const deployFn = factory.deploy as any;
   const tx = await deployFn(bytecode, salt, gasOptions);
-  const receipt = await tx.wait(confirmations);
+  await step.onSubmitted(tx.hash);
+  const receipt = await waitForReceipt(
+    provider,
+    tx.hash,
+    confirmations,
+    step.signal
+  );
 
   const address = ethers.getCreate2Address(
     singletonFactoryAddress,
@@ -314,7 +692,7 @@ async function deploySafeProxyFactory(
     ethers.keccak256(bytecode)
   );
 
-  console.log('Safe Proxy Factory deployed at:', address);
+  console.error('Safe Proxy Factory deployed at:', address);
 
   return {
     name: 'Safe Proxy Factory',
@@ -329,10 +707,11 @@ async function deploySafeProxyFactory(
  */
 async function deployFallbackHandler(
   provider: ethers.JsonRpcProvider,
-  deployer: ethers.Wallet,
+  deployer: ethers.Signer,
   singletonFactoryAddress: string,
   gasOptions: any,
-  confirmations: number
+  confirmations: number,
+  step: DeploymentStepContext
 ): Promise<ContractDeployment> {
   const factory = new ethers.Contract(
     singletonFactoryAddress,
@@ -347,7 +726,13 @@ async function deployFallbackHandler(
 
   const deployFn = factory.deploy as any;
   const tx = await deployFn(bytecode, salt, gasOptions);
-  const receipt = await tx.wait(confirmations);
+  await step.onSubmitted(tx.hash);
+  const receipt = await waitForReceipt(
+    provider,
+    tx.hash,
+    confirmations,
+    step.signal
+  );
 
   const address = ethers.getCreate2Address(
     singletonFactoryAddress,
@@ -355,7 +740,7 @@ async function deployFallbackHandler(
     ethers.keccak256(bytecode)
   );
 
-  console.log('Fallback Handler deployed at:', address);
+  console.error('Fallback Handler deployed at:', address);
 
   return {
     name: 'Fallback Handler',
@@ -370,10 +755,11 @@ async function deployFallbackHandler(
  */
 async function deployMultiSend(
   provider: ethers.JsonRpcProvider,
-  deployer: ethers.Wallet,
+  deployer: ethers.Signer,
   singletonFactoryAddress: string,
   gasOptions: any,
-  confirmations: number
+  confirmations: number,
+  step: DeploymentStepContext
 ): Promise<ContractDeployment> {
   const factory = new ethers.Contract(
     singletonFactoryAddress,
@@ -388,7 +774,13 @@ async function deployMultiSend(
 
   const deployFn = factory.deploy as any;
   const tx = await deployFn(bytecode, salt, gasOptions);
-  const receipt = await tx.wait(confirmations);
+  await step.onSubmitted(tx.hash);
+  const receipt = await waitForReceipt(
+    provider,
+    tx.hash,
+    confirmations,
+    step.signal
+  );
 
   const address = ethers.getCreate2Address(
     singletonFactoryAddress,
@@ -396,7 +788,7 @@ async function deployMultiSend(
     ethers.keccak256(bytecode)
   );
 
-  console.log('MultiSend deployed at:', address);
+  console.error('MultiSend deployed at:', address);
 
   return {
     name: 'MultiSend',
@@ -1,3 +1,5 @@
+import { redactSecrets, redactText } from './redact.js';
+
 /**
  * Structured error class for Safe MCP Server operations
  */
@@ -20,7 +22,7 @@ export class SafeError extends Error {
   }
 
   /**
-   * Convert error to JSON for MCP response
+   * Convert error to JSON for MCP response (secrets are redacted)
    */
   toJSON(): {
     error: {
@@ -38,12 +40,12 @@ export class SafeError extends Error {
     } = {
       error: {
         code: this.code,
-        message: this.message,
+        message: redactText(this.message),
       },
     };
 
     if (this.details !== undefined) {
-      result.error.details = this.details;
+      result.error.details = redactSecrets(this.details);
     }
 
     return result;
@@ -61,6 +63,12 @@ export const ErrorCodes = {
   INVALID_INPUT: 'INVALID_INPUT',
   INVALID_ADDRESS: 'INVALID_ADDRESS',
   NETWORK_NOT_SUPPORTED: 'NETWORK_NOT_SUPPORTED',
+  SIGNER_ERROR: 'SIGNER_ERROR',
+  CONFIRMATION_REQUIRED: 'CONFIRMATION_REQUIRED',
+  CANCELLED: 'CANCELLED',
+  APPROVAL_DENIED: 'APPROVAL_DENIED',
+  APPROVAL_UNAVAILABLE: 'APPROVAL_UNAVAILABLE',
+  POLICY_VIOLATION: 'POLICY_VIOLATION',
 } as const;
 
 export type ErrorCode = (typeof ErrorCodes)[keyof typeof ErrorCodes];
@@ -0,0 +1,98 @@
+import { Provider, TransactionReceipt } from 'ethers';
+import { abortable, waitForReceipt } from './cancellation.js';
+import { ErrorCodes } from './SafeError.js';
+
+const TX_HASH = `0x${'ab'.repeat(32)}`;
+
+/**
+ * Provider whose receipt lookups answer from a script, one entry per poll
+ */
+function scriptedProvider(
+  receipts: Array<Partial<TransactionReceipt> | null>
+): Provider & { getTransactionReceipt: jest.Mock } {
+  const getTransactionReceipt = jest.fn(
+    async () => (receipts.shift() ?? null) as TransactionReceipt | null
+  );
+  return { getTransactionReceipt } as unknown as Provider & {
+    getTransactionReceipt: jest.Mock;
+  };
+}
+
+describe('abortable', () => {
+  it('rejects with CANCELLED and the details known at abort time', async () => {
+    const controller = new AbortController();
+    let transactionHash: string | undefined;
+
+    const pending = abortable(new Promise(() => {}), controller.signal, () =>
+      transactionHash ? { transactionHash } : {}
+    );
+    transactionHash = TX_HASH;
+    controller.abort();
+
+    await expect(pending).rejects.toMatchObject({
+      code: ErrorCodes.CANCELLED,
+      message: `Cancelled after transaction ${TX_HASH} was broadcast; it may still be mined`,
+      details: { transactionHash: TX_HASH },
+    });
+  });
+
+  it('settles with the promise while not aborted', async () => {
+    await expect(
+      abortable(Promise.resolve(42), new AbortController().signal)
+    ).resolves.toBe(42);
+  });
+});
+
+describe('waitForReceipt', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('polls until the receipt has enough confirmations', async () => {
+    jest.useFakeTimers();
+    const receipt = { status: 1, confirmations: async () => 2 };
+    const provider = scriptedProvider([null, receipt]);
+
+    const pending = waitForReceipt(
+      provider,
+      TX_HASH,
+      2,
+      new AbortController().signal
+    );
+    await jest.advanceTimersByTimeAsync(2000);
+
+    await expect(pending).resolves.toBe(receipt);
+    expect(provider.getTransactionReceipt).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops polling on abort and keeps the broadcast hash', async () => {
+    jest.useFakeTimers();
+    const controller = new AbortController();
+    const provider = scriptedProvider([]);
+
+    const pending = waitForReceipt(provider, TX_HASH, 1, controller.signal, {
+      safeTxHash: '0x01',
+    });
+    const settled = expect(pending).rejects.toMatchObject({
+      code: ErrorCodes.CANCELLED,
+      details: { safeTxHash: '0x01', transactionHash: TX_HASH },
+    });
+    await jest.advanceTimersByTimeAsync(0);
+    controller.abort();
+    await settled;
+
+    await jest.advanceTimersByTimeAsync(10_000);
+    expect(provider.getTransactionReceipt).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports a reverted transaction', async () => {
+    const provider = scriptedProvider([{ status: 0, blockNumber: 7 }]);
+
+    await expect(
+      waitForReceipt(provider, TX_HASH, 1, new AbortController().signal)
+    ).rejects.toMatchObject({
+      code: ErrorCodes.SAFE_OPERATION_ERROR,
+      details: { transactionHash: TX_HASH, blockNumber: 7 },
+    });
+  });
+});
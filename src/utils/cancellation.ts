@@ -0,0 +1,133 @@
+import { Provider, TransactionReceipt } from 'ethers';
+import { SafeError, ErrorCodes } from './SafeError.js';
+
+/**
+ * Interval between receipt polls while waiting for confirmations
+ */
+const RECEIPT_POLL_INTERVAL_MS = 2000;
+
+/**
+ * Error for a tool call the client cancelled
+ *
+ * When a transaction was already broadcast its hash is part of the details
+ * and the message, because it may still be mined after the cancellation.
+ */
+export function cancelledError(
+  details: Record<string, unknown> = {}
+): SafeError {
+  const transactionHash =
+    typeof details.transactionHash === 'string'
+      ? details.transactionHash
+      : undefined;
+
+  return new SafeError(
+    transactionHash
+      ? `Cancelled after transaction ${transactionHash} was broadcast; it may still be mined`
+      : 'Cancelled before any transaction was broadcast',
+    ErrorCodes.CANCELLED,
+    details
+  );
+}
+
+/**
+ * Throw a CANCELLED SafeError if the signal has been aborted
+ */
+export function throwIfCancelled(
+  signal: AbortSignal,
+  details?: Record<string, unknown>
+): void {
+  if (signal.aborted) {
+    throw cancelledError(details);
+  }
+}
+
+/**
+ * Settle with the promise, or reject with a CANCELLED SafeError as soon as
+ * the signal is aborted. The underlying work is not stopped, only no longer
+ * awaited. Details are read at abort time so they can include a transaction
+ * hash learned while waiting.
+ */
+export function abortable<T>(
+  promise: Promise<T>,
+  signal: AbortSignal,
+  details: () => Record<string, unknown> = () => ({})
+): Promise<T> {
+  if (signal.aborted) {
+    promise.catch(() => {});
+    return Promise.reject(cancelledError(details()));
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = (): void => {
+      promise.catch(() => {});
+      reject(cancelledError(details()));
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error: unknown) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Poll for a transaction receipt until it has the requested confirmations
+ *
+ * Unlike TransactionResponse.wait() this stops polling as soon as the signal
+ * is aborted, rejecting with a CANCELLED SafeError that carries the hash
+ * and the given context.
+ */
+export async function waitForReceipt(
+  provider: Provider,
+  transactionHash: string,
+  confirmations: number,
+  signal: AbortSignal,
+  context: Record<string, unknown> = {}
+): Promise<TransactionReceipt> {
+  const details = () => ({ ...context, transactionHash });
+
+  for (;;) {
+    throwIfCancelled(signal, details());
+
+    const receipt = await abortable(
+      provider.getTransactionReceipt(transactionHash),
+      signal,
+      details
+    );
+    if (receipt?.status === 0) {
+      // TransactionResponse.wait() rejects reverted transactions too
+      throw new SafeError(
+        `Transaction ${transactionHash} reverted`,
+        ErrorCodes.SAFE_OPERATION_ERROR,
+        { ...details(), blockNumber: receipt.blockNumber }
+      );
+    }
+    if (
+      receipt &&
+      (await abortable(receipt.confirmations(), signal, details)) >=
+        confirmations
+    ) {
+      return receipt;
+    }
+
+    // Sleep until the next poll; an abort clears the timer right away
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = (): void => {
+        clearTimeout(timer);
+        reject(cancelledError(details()));
+      };
+      const timer = setTimeout(() => {
+        signal.removeEventListener('abort', onAbort);
+        resolve();
+      }, RECEIPT_POLL_INTERVAL_MS);
+      signal.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
@@ -0,0 +1,79 @@
+import {
+  REDACTED,
+  redactSecrets,
+  redactText,
+  registerSecret,
+  registerSecretsFrom,
+} from './redact.js';
+
+const PRIVATE_KEY =
+  '0x4c0883a69102937d6231471b5dbb6204fe5129617082792ae468d01a3f362318';
+const TX_HASH =
+  '0x9fc76417374aa880d4449a1f7f31ec597f00b1f6f3dd2d66f4c9c6c445836d8b';
+const MNEMONIC = 'test test test test test test test test test test test junk';
+
+describe('redactText', () => {
+  it('masks a private key labelled in free text', () => {
+    const text = redactText(`invalid private key: ${PRIVATE_KEY}`);
+    expect(text).not.toContain(PRIVATE_KEY);
+    expect(text).toBe(`invalid private key: ${REDACTED}`);
+  });
+
+  it('leaves unlabelled transaction hashes alone', () => {
+    expect(redactText(`transaction ${TX_HASH} mined`)).toBe(
+      `transaction ${TX_HASH} mined`
+    );
+  });
+
+  it('masks mnemonics', () => {
+    expect(redactText(`Invalid mnemonic: ${MNEMONIC}`)).toBe(
+      `Invalid mnemonic: ${REDACTED}`
+    );
+  });
+
+  it('masks API keys in RPC URLs', () => {
+    const text = redactText(
+      'could not reach https://eth-mainnet.g.alchemy.com/v2/abcdefghijklmnopqrstuvwxyz012345'
+    );
+    expect(text).toBe(
+      `could not reach https://eth-mainnet.g.alchemy.com/v2/${REDACTED}`
+    );
+  });
+});
+
+describe('registerSecret', () => {
+  it('masks registered secrets wherever they appear', () => {
+    registerSecretsFrom({ privateKey: 'opaque-signer-secret' });
+    expect(redactText('failed with opaque-signer-secret')).toBe(
+      `failed with ${REDACTED}`
+    );
+  });
+
+  it('keeps pinned secrets after many tool argument secrets', () => {
+    registerSecret('pinned-configuration-secret', { pinned: true });
+    for (let i = 0; i < 300; i++) {
+      registerSecretsFrom({ privateKey: `argument-secret-${i}` });
+    }
+
+    expect(redactText('token pinned-configuration-secret')).toBe(
+      `token ${REDACTED}`
+    );
+    expect(redactText('argument-secret-299')).toBe(REDACTED);
+  });
+});
+
+describe('redactSecrets', () => {
+  it('masks values under sensitive keys and nested free text', () => {
+    const redacted = redactSecrets({
+      safeAddress: '0x1234567890123456789012345678901234567890',
+      privateKey: PRIVATE_KEY,
+      nested: { mnemonic: MNEMONIC, note: `seed ${PRIVATE_KEY}` },
+    });
+
+    expect(JSON.stringify(redacted)).not.toContain(PRIVATE_KEY);
+    expect(JSON.stringify(redacted)).not.toContain(MNEMONIC);
+    expect(redacted.safeAddress).toBe(
+      '0x1234567890123456789012345678901234567890'
+    );
+  });
+});
@@ -0,0 +1,289 @@
+import { LangEn } from 'ethers';
+
+/**
+ * Placeholder that replaces redacted values
+ */
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Object keys whose values are always secret
+ */
+const SENSITIVE_KEY_PATTERN =
+  /private.?key|mnemonic|passphrase|password|secret|seed|api.?key|auth.?token|^signatures?$/i;
+
+/**
+ * URLs (http, https, ws, wss) that may embed credentials
+ */
+const URL_PATTERN = /\b(?:https?|wss?):\/\/[^\s"'<>`]+/gi;
+
+/**
+ * Query parameters that carry API keys
+ */
+const SENSITIVE_QUERY_PARAM_PATTERN =
+  /^(?:api[-_]?key|apikey|key|token|access[-_]?token|auth|secret)$/i;
+
+/**
+ * URL path segments that look like API keys (long opaque tokens)
+ */
+const API_KEY_SEGMENT_PATTERN = /^[A-Za-z0-9_-]{20,}$/;
+
+/**
+ * A standalone 65-byte ECDSA signature in free text
+ */
+const SIGNATURE_PATTERN = /\b0x[a-fA-F0-9]{130}\b/g;
+
+/**
+ * Runs of lowercase words that could form a BIP-39 mnemonic
+ */
+const WORD_RUN_PATTERN = /\b[a-z]{3,8}(?:\s+[a-z]{3,8}){11,}\b/g;
+const MIN_MNEMONIC_WORDS = 12;
+
+/**
+ * A 32-byte hex value labelled as a private key, secret or seed in free
+ * text; unlabelled ones are left alone since transaction hashes look the same
+ */
+const LABELLED_KEY_PATTERN =
+  /(private.?key|secret|seed)([^\n]{0,24}?)\b0x[a-fA-F0-9]{64}\b/gi;
+
+/**
+ * Secret values seen in tool arguments; any later occurrence of them in
+ * free text (e.g. an error message from a library) is masked as well. The
+ * oldest are forgotten once MAX_KNOWN_SECRETS is reached.
+ */
+const knownSecrets: Set<string> = new Set();
+const MAX_KNOWN_SECRETS = 256;
+
+/**
+ * Secrets from configuration and signers; never forgotten, so tool
+ * arguments cannot push them out of knownSecrets
+ */
+const pinnedSecrets: Set<string> = new Set();
+
+/**
+ * Remember a secret so that it is masked wherever it appears
+ *
+ * Pinned secrets (configuration and signer secrets) are kept for the life
+ * of the process; others are forgotten oldest first.
+ */
+export function registerSecret(
+  value: string,
+  options: { pinned?: boolean } = {}
+): void {
+  if (value.length < 8 || pinnedSecrets.has(value)) {
+    return;
+  }
+  if (options.pinned) {
+    knownSecrets.delete(value);
+    pinnedSecrets.add(value);
+    return;
+  }
+  if (knownSecrets.has(value)) {
+    return;
+  }
+  if (knownSecrets.size >= MAX_KNOWN_SECRETS) {
+    const oldest = knownSecrets.values().next().value;
+    if (oldest !== undefined) {
+      knownSecrets.delete(oldest);
+    }
+  }
+  knownSecrets.add(value);
+}
+
+/**
+ * Register every string stored under a sensitive key in a value
+ */
+export function registerSecretsFrom(value: unknown): void {
+  visitSensitive(value, undefined, (secret) => registerSecret(secret));
+}
+
+/**
+ * Mask secrets embedded in free text: known secret values, labelled private
+ * keys, mnemonics and API keys or credentials inside RPC URLs
+ */
+export function redactText(text: string): string {
+  let result = text;
+
+  for (const secrets of [pinnedSecrets, knownSecrets]) {
+    for (const secret of secrets) {
+      if (result.includes(secret)) {
+        result = result.split(secret).join(REDACTED);
+      }
+    }
+  }
+
+  result = result.replace(LABELLED_KEY_PATTERN, `$1$2${REDACTED}`);
+
+  result = result.replace(URL_PATTERN, redactUrl);
+  result = result.replace(WORD_RUN_PATTERN, redactMnemonics);
+
+  return result;
+}
+
+/**
+ * Return a deep copy of a value with secret fields masked and secrets in
+ * strings removed; used for errors, log lines and audit entries
+ */
+export function redactSecrets<T>(value: T): T {
+  return redactValue(value, undefined) as T;
+}
+
+/**
+ * Return a deep copy of a value with known secrets removed from every
+ * string; unlike redactSecrets, field names are ignored so the shape of the
+ * value is preserved
+ */
+export function redactStrings<T>(value: T): T {
+  if (typeof value === 'string') {
+    return redactText(value) as T;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redactStrings(item)) as T;
+  }
+
+  if (value && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(value)) {
+      result[key] = redactStrings(child);
+    }
+    return result as T;
+  }
+
+  return value;
+}
+
+/**
+ * Format an unknown error for logging without leaking secrets
+ */
+export function redactError(error: unknown): string {
+  if (error instanceof Error) {
+    return redactText(error.stack ?? `${error.name}: ${error.message}`);
+  }
+  return redactText(String(error));
+}
+
+function redactValue(value: unknown, key: string | undefined): unknown {
+  if (key !== undefined && SENSITIVE_KEY_PATTERN.test(key)) {
+    return value === undefined || value === null ? value : REDACTED;
+  }
+
+  if (typeof value === 'string') {
+    return redactText(value).replace(SIGNATURE_PATTERN, REDACTED);
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, undefined));
+  }
+
+  if (value instanceof Error) {
+    return redactError(value);
+  }
+
+  if (value && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    for (const [childKey, childValue] of Object.entries(value)) {
+      result[childKey] = redactValue(childValue, childKey);
+    }
+    return result;
+  }
+
+  return value;
+}
+
+function visitSensitive(
+  value: unknown,
+  key: string | undefined,
+  onSecret: (secret: string) => void
+): void {
+  if (
+    key !== undefined &&
+    SENSITIVE_KEY_PATTERN.test(key) &&
+    typeof value === 'string'
+  ) {
+    onSecret(value);
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    value.forEach((item) => visitSensitive(item, key, onSecret));
+  } else if (value && typeof value === 'object') {
+    for (const [childKey, childValue] of Object.entries(value)) {
+      visitSensitive(childValue, childKey, onSecret);
+    }
+  }
+}
+
+function redactUrl(rawUrl: string): string {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    return rawUrl;
+  }
+
+  let changed = false;
+
+  if (url.username || url.password) {
+    url.username = url.username ? REDACTED : '';
+    url.password = url.password ? REDACTED : '';
+    changed = true;
+  }
+
+  const segments = url.pathname.split('/');
+  if (segments.some((segment) => API_KEY_SEGMENT_PATTERN.test(segment))) {
+    url.pathname = segments
+      .map((segment) =>
+        API_KEY_SEGMENT_PATTERN.test(segment) ? REDACTED : segment
+      )
+      .join('/');
+    changed = true;
+  }
+
+  for (const param of Array.from(url.searchParams.keys())) {
+    if (SENSITIVE_QUERY_PARAM_PATTERN.test(param)) {
+      url.searchParams.set(param, REDACTED);
+      changed = true;
+    }
+  }
+
+  if (!changed) {
+    return rawUrl;
+  }
+
+  // URL encodes the placeholder brackets; keep it readable
+  return url
+    .toString()
+    .replace(/%5BREDACTED%5D/g, REDACTED)
+    .replace(/%5Bredacted%5D/gi, REDACTED);
+}
+
+/**
+ * Mask every sequence of 12 or more BIP-39 words inside a run of words
+ */
+function redactMnemonics(run: string): string {
+  const wordlist = LangEn.wordlist();
+  const words = run.split(/\s+/);
+  const output: string[] = [];
+  let pending: string[] = [];
+
+  const flush = (): void => {
+    if (pending.length >= MIN_MNEMONIC_WORDS) {
+      output.push(REDACTED);
+    } else {
+      output.push(...pending);
+    }
+    pending = [];
+  };
+
+  for (const word of words) {
+    if (wordlist.getWordIndex(word) >= 0) {
+      pending.push(word);
+    } else {
+      flush();
+      output.push(word);
+    }
+  }
+  flush();
+
+  return output.join(' ');
+}